@@ -1,17 +1,51 @@
 import React, { useRef, useEffect } from 'react';
-import { Buffer, EditorMode } from '../types';
+import { Buffer, EditorMode, Highlight, FaceSpan } from '../types';
 import { THEME } from '../constants';
+import { regionBounds } from '../services/editing';
 
 interface EditorProps {
   buffer: Buffer;
   isActive: boolean;
-  onUpdateContent: (content: string) => void;
+  onUpdateContent: (content: string, cursor: number) => void;
   onUpdateCursor: (position: number) => void;
   onKeyDown: (e: React.KeyboardEvent) => void;
+  highlights?: Highlight[];
+  faces?: FaceSpan[]; // Font-lock faces, sorted and non-overlapping
 }
 
-const Editor: React.FC<EditorProps> = ({ buffer, isActive, onUpdateContent, onUpdateCursor, onKeyDown }) => {
+// Split the text at face and highlight boundaries. Faces give the text its
+// color, highlights its background; later highlights win where they overlap.
+const renderHighlights = (content: string, faces: FaceSpan[], highlights: Highlight[]): React.ReactNode => {
+  if (faces.length === 0 && highlights.length === 0) return content;
+  const bounds = new Set<number>([0, content.length]);
+  for (const h of [...faces, ...highlights]) {
+    bounds.add(Math.max(0, Math.min(h.start, content.length)));
+    bounds.add(Math.max(0, Math.min(h.end, content.length)));
+  }
+  const points = Array.from(bounds).sort((a, b) => a - b);
+
+  const nodes: React.ReactNode[] = [];
+  let f = 0;
+  for (let i = 0; i < points.length - 1; i++) {
+    const [from, to] = [points[i], points[i + 1]];
+    while (f < faces.length && faces[f].end <= from) f++;
+    const face = f < faces.length && faces[f].start <= from ? faces[f].face : undefined;
+    let top: Highlight | undefined;
+    for (const h of highlights) {
+      if (h.start <= from && h.end >= to) top = h;
+    }
+    const text = content.slice(from, to);
+    const className = [face && THEME.faces[face], top?.className].filter(Boolean).join(' ');
+    nodes.push(className
+      ? <span key={from} className={className} data-current={top?.current ? 'true' : undefined}>{text}</span>
+      : text);
+  }
+  return nodes;
+};
+
+const Editor: React.FC<EditorProps> = ({ buffer, isActive, onUpdateContent, onUpdateCursor, onKeyDown, highlights = [], faces = [] }) => {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
 
   // Sync cursor position from state to DOM when buffer changes or cursor moves via logic
   useEffect(() => {
@@ -29,26 +63,63 @@ const Editor: React.FC<EditorProps> = ({ buffer, isActive, onUpdateContent, onUp
     }
   }, [isActive, buffer.id]);
 
+  // Bring the current search match into view, even while the minibuffer has focus
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    const current = backdropRef.current?.querySelector<HTMLElement>('[data-current]');
+    if (!textarea || !current) return;
+    const top = current.offsetTop;
+    if (top < textarea.scrollTop || top + current.offsetHeight > textarea.scrollTop + textarea.clientHeight) {
+      textarea.scrollTop = Math.max(0, top - textarea.clientHeight / 2);
+      backdropRef.current!.scrollTop = textarea.scrollTop;
+    }
+  }, [highlights]);
+
   const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    onUpdateContent(e.target.value);
-    onUpdateCursor(e.target.selectionStart);
+    onUpdateContent(e.target.value, e.target.selectionStart);
   };
 
   const handleSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
     onUpdateCursor(e.currentTarget.selectionStart);
   };
 
+  // Keep the highlight backdrop scrolled together with the text
+  const handleScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+    if (backdropRef.current) {
+      backdropRef.current.scrollTop = e.currentTarget.scrollTop;
+      backdropRef.current.scrollLeft = e.currentTarget.scrollLeft;
+    }
+  };
+
+  // The backdrop draws the text with its faces and highlights; the textarea
+  // above it only shows the caret and native selection.
+  // Transient mark mode: the active region is drawn in the backdrop too
+  const region = buffer.markActive ? regionBounds(buffer) : null;
+  const spans: Highlight[] = region
+    ? [{ start: region[0], end: region[1], className: THEME.region }, ...highlights]
+    : highlights;
+
   return (
-    <div className={`flex-1 relative w-full h-full overflow-hidden ${THEME.bg}`}>
+    <div className={`flex-1 relative w-full h-full min-h-0 overflow-hidden ${THEME.bg}`}>
+      <div
+        ref={backdropRef}
+        aria-hidden="true"
+        className={`editor-backdrop absolute inset-0 p-2 overflow-y-scroll overflow-x-hidden whitespace-pre-wrap break-words font-mono text-base leading-relaxed ${THEME.fg} pointer-events-none`}
+        style={{ fontFamily: '"Fira Code", monospace' }}
+      >
+        {renderHighlights(buffer.content, faces, spans)}
+        {'\n'}
+      </div>
       <textarea
         ref={textareaRef}
         value={buffer.content}
         onChange={handleChange}
         onKeyDown={onKeyDown}
         onSelect={handleSelect}
+        onScroll={handleScroll}
         readOnly={buffer.readOnly}
         spellCheck={false}
-        className={`w-full h-full p-2 resize-none outline-none font-mono text-base leading-relaxed ${THEME.bg} ${THEME.fg} ${THEME.selection} border-none`}
+        className={`relative w-full h-full p-2 resize-none outline-none overflow-y-scroll font-mono text-base leading-relaxed bg-transparent text-transparent ${THEME.caret} ${THEME.selection} border-none`}
         style={{ fontFamily: '"Fira Code", monospace' }}
       />
     </div>
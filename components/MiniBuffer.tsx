@@ -6,11 +6,14 @@ interface MiniBufferProps {
   prompt: string;
   input: string;
   message: string;
+  note?: string;
+  completions?: string[];
   onChange: (val: string) => void;
   onKeyDown: (e: React.KeyboardEvent) => void;
+  onChooseCompletion: (candidate: string) => void;
 }
 
-const MiniBuffer: React.FC<MiniBufferProps> = ({ type, prompt, input, message, onChange, onKeyDown }) => {
+const MiniBuffer: React.FC<MiniBufferProps> = ({ type, prompt, input, message, note, completions, onChange, onKeyDown, onChooseCompletion }) => {
   const inputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
@@ -20,15 +23,33 @@ const MiniBuffer: React.FC<MiniBufferProps> = ({ type, prompt, input, message, o
   }, [type]);
 
   if (type === MinibufferType.NONE) {
+    // Long and multi-line messages wrap, growing the echo area up to a quarter of the screen
     return (
-      <div className="h-8 w-full bg-[#3f3f3f] text-[#dcdccc] px-2 flex items-center text-sm font-mono overflow-hidden whitespace-nowrap">
+      <div className="min-h-8 max-h-[25vh] w-full bg-[#3f3f3f] text-[#dcdccc] px-2 py-1.5 text-sm font-mono overflow-y-auto whitespace-pre-wrap break-words">
         {message}
       </div>
     );
   }
 
   return (
-    <div className="h-8 w-full bg-[#3f3f3f] text-[#dcdccc] px-2 flex items-center text-sm font-mono border-t border-gray-700">
+    <div className="relative h-8 w-full bg-[#3f3f3f] text-[#dcdccc] px-2 flex items-center text-sm font-mono border-t border-gray-700">
+      {completions && (
+        // The *Completions* list pops up above the minibuffer
+        <div className="absolute bottom-full left-0 right-0 max-h-64 overflow-y-auto bg-[#3f3f3f] border-t border-gray-600 px-2 py-1">
+          <div className="text-[#7f9f7f] mb-1">{completions.length} possible completions:</div>
+          <div className="grid grid-cols-[repeat(auto-fill,minmax(16rem,1fr))] gap-x-4">
+            {completions.map(c => (
+              <span
+                key={c}
+                className="truncate cursor-pointer hover:bg-[#5f5f5f]"
+                onMouseDown={(e) => { e.preventDefault(); onChooseCompletion(c); }}
+              >
+                {c}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
       <span className="text-[#8cd0d3] mr-2 whitespace-nowrap">{prompt}</span>
       <input
         ref={inputRef}
@@ -40,8 +61,9 @@ const MiniBuffer: React.FC<MiniBufferProps> = ({ type, prompt, input, message, o
         autoComplete="off"
         spellCheck={false}
       />
+      {note && <span className="ml-2 text-[#7f9f7f] whitespace-nowrap">{note}</span>}
     </div>
   );
 };
 
-export default MiniBuffer;
\ No newline at end of file
+export default MiniBuffer;
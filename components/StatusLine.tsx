@@ -6,23 +6,26 @@ interface StatusLineProps {
   buffer: Buffer;
   mode: EditorMode;
   chordStack: string;
+  isSelected: boolean;
 }
 
-const StatusLine: React.FC<StatusLineProps> = ({ buffer, mode, chordStack }) => {
+const StatusLine: React.FC<StatusLineProps> = ({ buffer, mode, chordStack, isSelected }) => {
   // Emacs style: -U:--- Name  Line  (Mode)
   
   const modifiedIndicator = buffer.isModified ? '**' : '--';
   const readOnlyIndicator = buffer.readOnly ? '%' : '-';
   const statusStr = `-${readOnlyIndicator}${modifiedIndicator}-`;
   
-  const displayMode = mode === EditorMode.WAITING_FOR_CHORD ? `Waiting for key (${chordStack})` : buffer.mode;
+  const displayMode = isSelected && mode === EditorMode.WAITING_FOR_CHORD ? `Waiting for key (${chordStack})` : buffer.mode;
+  const colors = isSelected ? `${THEME.modelineBg} ${THEME.modelineFg}` : `${THEME.modelineInactiveBg} ${THEME.modelineInactiveFg}`;
 
   return (
-    <div className={`h-6 w-full flex items-center px-2 text-sm font-mono select-none ${THEME.modelineBg} ${THEME.modelineFg} border-t border-b border-gray-600`}>
+    <div className={`h-6 w-full flex-none flex items-center px-2 text-sm font-mono select-none ${colors} border-t border-b border-gray-600`}>
       <span className="mr-2 text-gray-300">CS:1</span>
       <span className="mr-2">{statusStr}</span>
       <span className="font-bold mr-4">{buffer.name}</span>
       <span className="mr-auto">All</span>
+      {buffer.progress && <span className="mr-2 text-gray-300">{buffer.progress}</span>}
       <span className="mr-2">({displayMode})</span>
     </div>
   );
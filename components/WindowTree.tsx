@@ -0,0 +1,69 @@
+import React from 'react';
+import { Buffer, EditorMode, Highlight, WindowNode, FaceSpan } from '../types';
+import StatusLine from './StatusLine';
+import Editor from './Editor';
+
+interface WindowTreeProps {
+  node: WindowNode;
+  buffers: Buffer[];
+  selectedWindowId: string;
+  mode: EditorMode;
+  chordStack: string;
+  highlights: Highlight[]; // Drawn in the selected window only
+  fontify: (buffer: Buffer) => FaceSpan[];
+  onUpdateContent: (content: string, cursor: number) => void;
+  onUpdateCursor: (position: number) => void;
+  onKeyDown: (e: React.KeyboardEvent) => void;
+  onSelectWindow: (windowId: string) => void;
+}
+
+// Renders the window layout: splits become flex containers, each window an
+// Editor with its own mode line
+const WindowTree: React.FC<WindowTreeProps> = (props) => {
+  const { node, buffers, selectedWindowId, mode, chordStack } = props;
+
+  if (node.kind === 'split') {
+    return (
+      <div className={`flex ${node.direction === 'vertical' ? 'flex-col' : 'flex-row'} w-full h-full min-h-0 min-w-0`}>
+        {node.children.map((child, i) => (
+          <div
+            key={child.id}
+            className={`flex min-h-0 min-w-0 ${node.direction === 'horizontal' && i > 0 ? 'border-l border-gray-600' : ''}`}
+            style={{ flex: `${node.sizes[i]} 1 0` }}
+          >
+            <WindowTree {...props} node={child} />
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  const isSelected = node.id === selectedWindowId;
+  const buffer = buffers.find(b => b.id === node.bufferId) || buffers[0];
+  // Other windows show their own point; only the selected window has an active region
+  const shown = isSelected
+    ? buffer
+    : { ...buffer, cursorPosition: Math.min(node.point, buffer.content.length), markActive: false };
+
+  return (
+    <div className="flex flex-col w-full h-full min-h-0 min-w-0" onMouseDown={() => props.onSelectWindow(node.id)}>
+      <Editor
+        buffer={shown}
+        isActive={isSelected && mode !== EditorMode.MINIBUFFER}
+        onUpdateContent={props.onUpdateContent}
+        onUpdateCursor={props.onUpdateCursor}
+        onKeyDown={props.onKeyDown}
+        highlights={isSelected ? props.highlights : undefined}
+        faces={props.fontify(buffer)}
+      />
+      <StatusLine
+        buffer={shown}
+        mode={mode}
+        chordStack={chordStack}
+        isSelected={isSelected}
+      />
+    </div>
+  );
+};
+
+export default WindowTree;
@@ -1,7 +1,10 @@
-import { Buffer } from './types';
+import { Buffer, Face } from './types';
 
 export const INITIAL_BUFFER_ID = 'scratch';
 
+// Loaded at startup: the first of these that exists
+export const INIT_FILE_NAMES = ['~/.emacs', '~/.emacs.el', '~/.emacs.d/init.el'];
+
 export const WELCOME_MESSAGE = `;; This buffer is for text that is not saved, and for Lisp evaluation.
 ;; To create a file, visit it with C-x C-f and enter text in your file's buffer.
 
@@ -10,17 +13,34 @@ Welcome to React Emacs v1.0
 
 Keybindings:
 C-x C-f    Find File (Create/Open Buffer)
-C-x C-s    Save Buffer (Mock)
+C-x C-s    Save Buffer
+C-x C-w    Write File (Save As)
 C-x b      Switch Buffer
 C-x k      Kill Buffer
+C-x 2 / 3  Split Window Below / Right
+C-x o      Other Window
+C-x 0 / 1  Delete Window / Other Windows
 M-x        Execute Command
+C-u        Prefix Argument
+C-h f      Describe Function
 M-:        Eval Expression
 C-x C-e    Eval Last S-expression
+C-j        Eval and Print (in *scratch*)
+C-/        Undo
+C-?        Redo
+C-SPC      Set Mark
+C-w / M-w  Kill / Copy Region
+C-k        Kill Line
+C-s / C-r  Incremental Search Forward / Backward
+M-%        Query Replace
+C-y / M-y  Yank / Cycle Kill Ring
 C-g        Cancel / Quit
+TAB        Indent Line / Complete in Minibuffer (M-p / M-n for History)
+C-x C-;    Comment Line
 
-AI Commands:
-M-x ask-gemini      Ask Gemini AI a question
-M-x gemini-explain  Explain the code in current buffer
+AI Commands (M-x ai-select-model to switch between Gemini, Ollama and others):
+M-x ai-ask           Ask a question, inserting the answer at point
+M-x ai-explain-code  Explain the code in current buffer
 
 Lisp Scratchpad:
 Try evaluating these expressions with C-x C-e (place cursor at end of line):
@@ -36,6 +56,7 @@ export const INITIAL_BUFFERS: Buffer[] = [
     name: '*scratch*',
     content: WELCOME_MESSAGE,
     cursorPosition: 0,
+    majorMode: 'lisp-interaction-mode',
     mode: 'Lisp Interaction',
     isModified: false,
   },
@@ -44,7 +65,8 @@ export const INITIAL_BUFFERS: Buffer[] = [
     name: '*Messages*',
     content: 'React Emacs initialization complete.\n',
     cursorPosition: 0,
-    mode: 'Fundamental',
+    majorMode: 'messages-buffer-mode',
+    mode: 'Messages',
     isModified: false,
     readOnly: true,
   }
@@ -55,6 +77,22 @@ export const THEME = {
   fg: 'text-[#dcdccc]',
   modelineBg: 'bg-[#5f5f5f]',
   modelineFg: 'text-white',
+  modelineInactiveBg: 'bg-[#383838]',
+  modelineInactiveFg: 'text-[#5f7f5f]',
   cursor: 'bg-[#dcdccc]',
-  selection: 'selection:bg-[#5f5f5f]',
+  selection: 'selection:bg-[#5f5f5f]/60', // Translucent: the colored text shows through from the backdrop
+  region: 'bg-[#5f5f5f]',
+  isearch: 'bg-[#8c5353]',
+  lazyHighlight: 'bg-[#5f5f3f]',
+  caret: 'caret-[#dcdccc]',
+  // Font-lock faces; only colors, so text keeps the metrics of the textarea above it
+  faces: {
+    comment: 'text-[#7f9f7f]',
+    string: 'text-[#cc9393]',
+    keyword: 'text-[#f0dfaf]',
+    'function-name': 'text-[#93e0e3]',
+    'variable-name': 'text-[#dfaf8f]',
+    type: 'text-[#7cb8bb]',
+    constant: 'text-[#bfebbf]',
+  } as Record<Face, string>,
 };
\ No newline at end of file
@@ -0,0 +1,31 @@
+// Run ERT tests from Node, e.g. in CI:
+//
+//   npm run ert -- test/foo-test.el [more.el...] [--selector SELECTOR]
+//
+// Each file is evaluated in one batch environment, then the tests the
+// selector chooses (default t) run. Exits with 1 if any result was
+// unexpected or a file failed to load.
+
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import { createBatchEnv, runErtBatch } from '../services/ert';
+import { evalForms, parse, toLispError, mkBool } from '../services/lisp';
+
+const main = async (args: string[]): Promise<boolean> => {
+  const selectorIndex = args.indexOf('--selector');
+  const selector = selectorIndex === -1 ? mkBool(true) : parse(args[selectorIndex + 1] || 't');
+  const files = selectorIndex === -1 ? args : [...args.slice(0, selectorIndex), ...args.slice(selectorIndex + 2)];
+  const env = createBatchEnv({
+    readFile: path => (existsSync(path) && statSync(path).isFile() ? readFileSync(path, 'utf8') : null),
+  });
+  for (const file of files) {
+    try {
+      await evalForms(readFileSync(file, 'utf8'), env);
+    } catch (e) {
+      console.error(`Error loading ${file}: ${toLispError(e).message}`);
+      return false;
+    }
+  }
+  return runErtBatch(env, selector);
+};
+
+main(process.argv.slice(2)).then(ok => process.exit(ok ? 0 : 1));
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { aiSettings, builtinAiProviders, installAi, openAiProvider } from './ai';
+import { createStubApi } from './ert';
+import { createGlobalEnv, evalForms, printLisp, toLispError } from './lisp';
+
+const aiEnv = async (source = '') => {
+  const env = createGlobalEnv(createStubApi());
+  const providers = builtinAiProviders();
+  installAi(env, providers);
+  await evalForms(source || 'nil', env);
+  return { env, settings: () => aiSettings(env, providers) };
+};
+
+describe('settings', () => {
+  it('defaults to Gemini with its first model', async () => {
+    const { settings } = await aiEnv();
+    expect(settings()).toMatchObject({ name: 'gemini', request: { model: 'gemini-2.5-flash', temperature: undefined } });
+  });
+
+  it('reads the ai- variables', async () => {
+    const { settings } = await aiEnv(`(setq ai-provider 'openai ai-model "qwen2.5-coder" ai-temperature 0.2
+                                            ai-base-url "http://gpu:8000/v1" ai-api-key "secret")`);
+    expect(settings()).toMatchObject({
+      name: 'openai',
+      request: { model: 'qwen2.5-coder', temperature: 0.2, baseUrl: 'http://gpu:8000/v1', apiKey: 'secret' },
+    });
+  });
+
+  it('signals a user error for an unknown provider', async () => {
+    const { settings } = await aiEnv("(setq ai-provider 'nope)");
+    expect(() => settings()).toThrow(expect.objectContaining({ symbol: 'user-error' }));
+  });
+});
+
+describe('Lisp functions', () => {
+  it('generates and chats with the echo provider', async () => {
+    const { env } = await aiEnv("(setq ai-provider 'echo)");
+    expect(printLisp(await evalForms('(ai-generate "Hello")', env))).toBe('"Hello"');
+    const reply = await evalForms(`(ai-chat '((system . "Be brief") (user . "First") (assistant . "Ok") (user . "Second")))`, env);
+    expect(printLisp(reply)).toBe('"Second"');
+    await expect(evalForms(`(ai-chat '((robot . "Hi")))`, env)).rejects.toThrow('ai-chat-message-p');
+  });
+});
+
+describe('OpenAI-compatible provider', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  const request = { model: 'llama3.2', temperature: 0.5, baseUrl: 'http://localhost:8080/v1/', apiKey: 'key' };
+
+  it('streams server-sent events', async () => {
+    const events = [
+      'data: {"choices":[{"delta":{"role":"assistant"}}]}\n\n',
+      'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\ndata: {"choices":[{"del',
+      'ta":{"content":"lo"}}]}\n\ndata: [DONE]\n\n',
+    ];
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => new Response(new ReadableStream({
+      start(controller) {
+        for (const event of events) controller.enqueue(new TextEncoder().encode(event));
+        controller.close();
+      },
+    })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const chunks: string[] = [];
+    for await (const chunk of openAiProvider.stream('Hi', request)) chunks.push(chunk);
+    expect(chunks).toEqual(['Hel', 'lo']);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:8080/v1/chat/completions');
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer key' });
+    expect(JSON.parse(init.body as string)).toEqual({
+      model: 'llama3.2', messages: [{ role: 'user', content: 'Hi' }], temperature: 0.5, stream: true,
+    });
+  });
+
+  it('asks for a key when the endpoint refuses the request', async () => {
+    vi.stubGlobal('fetch', async () => new Response('Unauthorized', { status: 401 }));
+    const error = await openAiProvider.generate('Hi', { ...request, apiKey: undefined }).catch(toLispError);
+    expect(error).toMatchObject({ symbol: 'user-error', message: 'http://localhost:8080/v1 refused the request: set ai-api-key' });
+  });
+});
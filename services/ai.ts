@@ -0,0 +1,234 @@
+// AI providers for React Emacs
+//
+// The AI commands talk to the provider named by the Lisp variable
+// ai-provider: Gemini, an OpenAI-compatible HTTP endpoint (OpenAI, Ollama,
+// llama.cpp...) or the offline echo provider. ai-model, ai-temperature,
+// ai-api-key and ai-base-url configure it, e.g. in the init file:
+//
+//   (setq ai-provider 'openai ai-base-url "http://localhost:11434/v1" ai-model "llama3.2")
+
+import { GoogleGenAI } from '@google/genai';
+import { LispEnv, LispError, LispVal, definePrimitive, listElements, mkNull, mkStr, mkSym, wrongType } from './lisp';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface AiRequest {
+  model: string;
+  temperature?: number; // The provider's default when unset
+  apiKey?: string;
+  baseUrl?: string;
+  signal?: AbortSignal; // Aborting stops the request
+}
+
+export interface AiProvider {
+  label: string; // For messages and the mode line, e.g. "Gemini"
+  models: string[]; // Offered by ai-select-model; the first is the default
+  generate: (prompt: string, request: AiRequest) => Promise<string>;
+  stream: (prompt: string, request: AiRequest) => AsyncIterable<string>; // The response chunk by chunk as it arrives
+  chat: (messages: ChatMessage[], request: AiRequest) => Promise<string>;
+}
+
+export const userError = (message: string) => new LispError('user-error', [mkStr(message)]);
+
+// --- Gemini ---
+
+const geminiClient = (request: AiRequest) => {
+  const apiKey = request.apiKey || process.env.GEMINI_API_KEY;
+  if (!apiKey) throw userError('No Gemini API key: set GEMINI_API_KEY in .env.local, or ai-api-key');
+  return new GoogleGenAI({ apiKey });
+};
+
+const geminiConfig = (request: AiRequest) => ({ temperature: request.temperature, abortSignal: request.signal });
+
+export const geminiProvider: AiProvider = {
+  label: 'Gemini',
+  models: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'],
+  generate: async (prompt, request) => {
+    const response = await geminiClient(request).models.generateContent({
+      model: request.model,
+      contents: prompt,
+      config: geminiConfig(request),
+    });
+    return response.text || '';
+  },
+  stream: async function* (prompt, request) {
+    const stream = await geminiClient(request).models.generateContentStream({
+      model: request.model,
+      contents: prompt,
+      config: geminiConfig(request),
+    });
+    for await (const chunk of stream) {
+      if (chunk.text) yield chunk.text;
+    }
+  },
+  chat: async (messages, request) => {
+    // Gemini takes the system messages separately and calls the assistant "model"
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n');
+    const response = await geminiClient(request).models.generateContent({
+      model: request.model,
+      contents: messages
+        .filter(m => m.role !== 'system')
+        .map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+      config: { ...geminiConfig(request), systemInstruction: system || undefined },
+    });
+    return response.text || '';
+  },
+};
+
+// --- OpenAI-compatible endpoints ---
+
+// Ollama serves the OpenAI API here; set ai-base-url for anything else
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+const openAiChat = async (messages: ChatMessage[], request: AiRequest, stream: boolean): Promise<Response> => {
+  const baseUrl = (request.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  // Local servers such as Ollama need no key
+  if (request.apiKey) headers.Authorization = `Bearer ${request.apiKey}`;
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model: request.model, messages, temperature: request.temperature, stream }),
+      signal: request.signal,
+    });
+  } catch (e) {
+    if (request.signal?.aborted) throw e;
+    throw userError(`Cannot reach ${baseUrl} (${(e as Error).message}); check ai-base-url`);
+  }
+  if (response.status === 401 || response.status === 403) {
+    throw userError(`${baseUrl} refused the request${request.apiKey ? '; check ai-api-key' : ': set ai-api-key'}`);
+  }
+  if (!response.ok) {
+    throw new Error(`${baseUrl} answered ${response.status}: ${(await response.text()).trim()}`);
+  }
+  return response;
+};
+
+// The content of each "data:" line of a server-sent event stream
+const serverSentData = async function* (body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let pending = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    pending += decoder.decode(value, { stream: !done });
+    const lines = pending.split('\n');
+    pending = done ? '' : lines.pop()!;
+    for (const line of lines) {
+      if (line.startsWith('data:')) yield line.slice(5).trim();
+    }
+    if (done) return;
+  }
+};
+
+const openAiStream = async function* (messages: ChatMessage[], request: AiRequest): AsyncGenerator<string> {
+  const response = await openAiChat(messages, request, true);
+  for await (const data of serverSentData(response.body!)) {
+    if (data === '[DONE]') return;
+    const text = JSON.parse(data).choices?.[0]?.delta?.content;
+    if (text) yield text;
+  }
+};
+
+export const openAiProvider: AiProvider = {
+  label: 'OpenAI',
+  models: ['llama3.2', 'qwen2.5-coder', 'gpt-4o-mini', 'gpt-4o'],
+  generate: (prompt, request) => openAiProvider.chat([{ role: 'user', content: prompt }], request),
+  stream: (prompt, request) => openAiStream([{ role: 'user', content: prompt }], request),
+  chat: async (messages, request) => {
+    const response = await openAiChat(messages, request, false);
+    return (await response.json()).choices?.[0]?.message?.content || '';
+  },
+};
+
+// --- Echo ---
+
+// Answers with the prompt itself, a word at a time, so the AI commands work
+// offline and give the same results every time
+export const echoProvider: AiProvider = {
+  label: 'Echo',
+  models: ['echo'],
+  generate: async prompt => prompt,
+  stream: async function* (prompt, request) {
+    for (const word of prompt.match(/\s*\S+\s*/g) || []) {
+      if (request.signal?.aborted) return;
+      yield word;
+    }
+  },
+  chat: async messages => [...messages].reverse().find(m => m.role === 'user')?.content || '',
+};
+
+export const builtinAiProviders = (): Record<string, AiProvider> => ({
+  gemini: geminiProvider,
+  openai: openAiProvider,
+  echo: echoProvider,
+});
+
+export const explainCodePrompt = (code: string) => `Explain the following code snippet briefly and clearly:\n\n${code}`;
+
+// --- Settings ---
+
+export const AI_VARIABLES = ['ai-provider', 'ai-model', 'ai-temperature', 'ai-api-key', 'ai-base-url'];
+
+// The provider and request the ai- variables select
+export const aiSettings = (env: LispEnv, providers: Record<string, AiProvider>): { name: string; provider: AiProvider; request: AiRequest } => {
+  const value = (name: string): LispVal => env.global().vars.get(name) || mkNull();
+  const text = (name: string): string | undefined => {
+    const val = value(name);
+    if (val.type === 'NULL') return undefined;
+    if (val.type !== 'STRING') throw wrongType('stringp', val);
+    return val.value;
+  };
+  const providerVal = value('ai-provider');
+  const name = providerVal.type === 'STRING' ? providerVal.value : providerVal.name;
+  const provider = name === undefined ? undefined : providers[name];
+  if (name === undefined || !provider) {
+    throw userError(`Unknown AI provider ${name ?? 'nil'}; choose one of ${Object.keys(providers).join(', ')} with M-x ai-select-model`);
+  }
+  const temperature = value('ai-temperature');
+  if (temperature.type !== 'NULL' && temperature.type !== 'NUMBER') throw wrongType('numberp', temperature);
+  return {
+    name,
+    provider,
+    request: {
+      model: text('ai-model') || provider.models[0],
+      temperature: temperature.type === 'NUMBER' ? temperature.value : undefined,
+      apiKey: text('ai-api-key'),
+      baseUrl: text('ai-base-url'),
+    },
+  };
+};
+
+// The ai- variables, and ai-generate and ai-chat for Lisp code
+export const installAi = (env: LispEnv, providers: Record<string, AiProvider>) => {
+  for (const name of AI_VARIABLES) {
+    env.define(name, mkNull());
+    env.specials.add(name);
+  }
+  env.define('ai-provider', mkSym('gemini'));
+
+  definePrimitive(env, 'ai-generate', 1, 1, async args => {
+    // (ai-generate PROMPT): the response as a string
+    if (args[0].type !== 'STRING') throw wrongType('stringp', args[0]);
+    const { provider, request } = aiSettings(env, providers);
+    return mkStr(await provider.generate(args[0].value, request));
+  });
+  definePrimitive(env, 'ai-chat', 1, 1, async args => {
+    // (ai-chat MESSAGES): MESSAGES is a list of (ROLE . TEXT), ROLE being
+    // system, user or assistant; returns the next assistant message
+    const messages = listElements(args[0]).map((message): ChatMessage => {
+      const role = message.car?.name;
+      if (message.cdr?.type !== 'STRING' || (role !== 'system' && role !== 'user' && role !== 'assistant')) {
+        throw wrongType('ai-chat-message-p', message);
+      }
+      return { role, content: message.cdr.value };
+    });
+    const { provider, request } = aiSettings(env, providers);
+    return mkStr(await provider.chat(messages, request));
+  });
+};
@@ -0,0 +1,75 @@
+// Commands for React Emacs: the registry helpers, prefix arguments and
+// interactive specs
+
+import { Command, Keymap, PrefixArg } from '../types';
+import { defineKey, parseKeySequence } from './keymap';
+
+// Bind each command's default keys in the global map
+export const bindDefaultKeys = (map: Keymap, commands: Command[]) => {
+  for (const command of commands) {
+    for (const keys of command.keys || []) {
+      defineKey(map, parseKeySequence(keys), command.name);
+    }
+  }
+};
+
+// --- Prefix arguments ---
+
+// C-u multiplies by four; C-u after digits starts over
+export const universalArgument = (prev: PrefixArg | null): PrefixArg => {
+  if (prev && prev.digits === null) return { value: prev.value * 4, digits: null };
+  return { value: 4, digits: null };
+};
+
+// A digit or "-" typed after C-u, or M-0..M-9 / M--
+export const digitArgument = (prev: PrefixArg | null, ch: string): PrefixArg => {
+  const digits = prev && prev.digits !== null ? prev.digits : '';
+  if (ch === '-') {
+    return digits === '' ? { value: -1, digits: '-' } : prev!;
+  }
+  const next = digits + ch;
+  return { value: next === '-' ? -1 : parseInt(next, 10), digits: next };
+};
+
+// Numeric value as used by (interactive "p"): 1 when there is no prefix
+export const prefixNumericValue = (arg: PrefixArg | null): number => (arg ? arg.value : 1);
+
+// Echo area text while a prefix argument is being typed: "C-u-", "C-u 5-"
+export const describePrefixArg = (arg: PrefixArg): string => {
+  if (arg.digits !== null) return `C-u ${arg.digits}-`;
+  const times = Math.round(Math.log(arg.value) / Math.log(4));
+  return Array(Math.max(1, times)).fill('C-u').join(' ') + '-';
+};
+
+// --- Interactive specs ---
+
+export interface InteractiveArg {
+  code: string; // "s", "b", "r", "p"...
+  prompt: string;
+}
+
+export interface InteractiveSpec {
+  args: InteractiveArg[];
+  checkReadOnly: boolean; // Leading "*": signal an error in a read-only buffer
+}
+
+// Codes (interactive "...") understands
+const INTERACTIVE_CODES = new Set(['s', 'b', 'B', 'r', 'p', 'P', 'n', 'f', 'F', 'i']);
+
+// Parse an interactive spec such as "sSearch for: \nr". Each line is one
+// argument: a code letter followed by the prompt.
+export const parseInteractiveSpec = (spec: string): InteractiveSpec => {
+  let checkReadOnly = false;
+  let rest = spec;
+  while (rest.length > 0 && '*@^'.includes(rest[0])) {
+    if (rest[0] === '*') checkReadOnly = true;
+    rest = rest.slice(1);
+  }
+
+  const args = rest.split('\n').filter(line => line.length > 0).map(line => {
+    const code = line[0];
+    if (!INTERACTIVE_CODES.has(code)) throw new Error(`Invalid control letter "${code}" in interactive spec`);
+    return { code, prompt: line.slice(1) };
+  });
+  return { args, checkReadOnly };
+};
@@ -0,0 +1,91 @@
+// Minibuffer completion and history for React Emacs
+
+// Most history lists keep this many entries (history-length)
+export const HISTORY_LENGTH = 100;
+
+// --- Matching ---
+
+// Characters of pattern appear in candidate in order ("fl" matches "find-file")
+export const flexMatch = (pattern: string, candidate: string): boolean => {
+  let i = 0;
+  for (const ch of candidate) {
+    if (ch === pattern[i]) i++;
+    if (i === pattern.length) return true;
+  }
+  return pattern.length === 0;
+};
+
+export type CompletionStyle = 'prefix' | 'substring' | 'flex';
+
+// Candidates matching the input, trying the styles in order from most to
+// least strict; the first style with any match wins.
+export const completionMatches = (input: string, candidates: string[]): { style: CompletionStyle; matches: string[] } => {
+  const unique = Array.from(new Set(candidates));
+  const prefix = unique.filter(c => c.startsWith(input));
+  if (prefix.length > 0 || input === '') return { style: 'prefix', matches: prefix.sort() };
+
+  const substring = unique.filter(c => c.includes(input));
+  if (substring.length > 0) return { style: 'substring', matches: substring.sort() };
+
+  return { style: 'flex', matches: unique.filter(c => flexMatch(input, c)).sort() };
+};
+
+export const commonPrefix = (strings: string[]): string => {
+  if (strings.length === 0) return '';
+  let prefix = strings[0];
+  for (const s of strings.slice(1)) {
+    let i = 0;
+    while (i < prefix.length && i < s.length && prefix[i] === s[i]) i++;
+    prefix = prefix.slice(0, i);
+  }
+  return prefix;
+};
+
+export interface CompletionResult {
+  input: string; // New minibuffer input
+  matches: string[];
+  note?: string; // "[No match]", "[Sole completion]"...
+  showList: boolean; // Pop up *Completions*
+}
+
+// What TAB does: complete as far as the matches agree, or list them
+export const completeInput = (input: string, candidates: string[]): CompletionResult => {
+  const { style, matches } = completionMatches(input, candidates);
+  if (matches.length === 0) return { input, matches, note: '[No match]', showList: false };
+  if (matches.length === 1) {
+    return { input: matches[0], matches, note: matches[0] === input ? '[Sole completion]' : undefined, showList: false };
+  }
+
+  // Only prefix matches can be extended by their common prefix
+  const prefix = style === 'prefix' ? commonPrefix(matches) : '';
+  if (prefix.length > input.length) return { input: prefix, matches, showList: false };
+  return {
+    input,
+    matches,
+    note: matches.includes(input) ? '[Complete, but not unique]' : undefined,
+    showList: true,
+  };
+};
+
+// The answer RET accepts with require-match, or null if there is none
+export const exactCompletion = (input: string, candidates: string[]): string | null => {
+  if (candidates.includes(input)) return input;
+  const { matches } = completionMatches(input, candidates);
+  return matches.length === 1 ? matches[0] : null;
+};
+
+// --- Prompts and history ---
+
+// Emacs' format-prompt: "Switch to buffer (default foo): "
+export const formatPrompt = (prompt: string, defaultValue?: string): string => {
+  if (!defaultValue) return prompt;
+  const m = /^(.*?)(:?\s*)$/s.exec(prompt)!;
+  return `${m[1]} (default ${defaultValue})${m[2] || ': '}`;
+};
+
+// Add an answer to the front of a history list, dropping an identical
+// previous entry
+export const addToHistory = (history: string[], entry: string): string[] => {
+  if (entry === '') return history;
+  return [entry, ...history.filter(h => h !== entry)].slice(0, HISTORY_LENGTH);
+};
@@ -0,0 +1,106 @@
+// Buffer text primitives for React Emacs
+//
+// All programmatic edits go through here so they are recorded in the undo list
+// and keep point and mark pointing at the same text.
+
+import { Buffer, UndoChange } from '../types';
+import { diffContent, recordChanges, shiftUndoGroups } from './undo';
+
+// Shift a position across an applied change. Point inserted at advances past
+// the new text (like `insert`), the mark stays before it.
+export const adjustPosition = (pos: number, change: UndoChange, advance: boolean): number => {
+  const len = change.text.length;
+  if (change.kind === 'insert') {
+    if (pos > change.pos || (advance && pos === change.pos)) return pos + len;
+    return pos;
+  }
+  if (pos >= change.pos + len) return pos - len;
+  if (pos > change.pos) return change.pos;
+  return pos;
+};
+
+// Apply already-computed changes' effect on point, mark and markers
+export const adjustMarkers = (buf: Buffer, changes: UndoChange[]): Buffer => {
+  let mark = buf.mark;
+  let markers = buf.markers;
+  for (const change of changes) {
+    if (mark !== undefined && mark !== null) mark = adjustPosition(mark, change, false);
+    if (markers) {
+      markers = Object.fromEntries(Object.entries(markers).map(([id, pos]) => [id, adjustPosition(pos, change, false)]));
+    }
+  }
+  return { ...buf, mark, markers };
+};
+
+// Add a marker at pos, or remove it when pos is null
+export const setMarker = (buf: Buffer, id: string, pos: number | null): Buffer => {
+  const { [id]: _, ...others } = buf.markers || {};
+  return { ...buf, markers: pos === null ? others : { ...others, [id]: pos } };
+};
+
+export const insertText = (buf: Buffer, pos: number, text: string): Buffer => {
+  if (!text) return buf;
+  const change: UndoChange = { kind: 'insert', pos, text };
+  const updated: Buffer = adjustMarkers({
+    ...buf,
+    content: buf.content.slice(0, pos) + text + buf.content.slice(pos),
+    cursorPosition: adjustPosition(buf.cursorPosition, change, true),
+    isModified: true,
+  }, [change]);
+  return recordChanges(updated, [change], buf.cursorPosition);
+};
+
+export const deleteText = (buf: Buffer, start: number, end: number): Buffer => {
+  const from = Math.max(0, Math.min(start, end));
+  const to = Math.min(buf.content.length, Math.max(start, end));
+  if (from === to) return buf;
+  const change: UndoChange = { kind: 'delete', pos: from, text: buf.content.slice(from, to) };
+  const updated: Buffer = adjustMarkers({
+    ...buf,
+    content: buf.content.slice(0, from) + buf.content.slice(to),
+    cursorPosition: adjustPosition(buf.cursorPosition, change, false),
+    isModified: true,
+  }, [change]);
+  return recordChanges(updated, [change], buf.cursorPosition);
+};
+
+// Replace the whole text (e.g. revert-buffer), recording only the span that differs
+export const replaceContent = (buf: Buffer, content: string): Buffer => {
+  const changes = diffContent(buf.content, content);
+  let cursor = buf.cursorPosition;
+  for (const change of changes) cursor = adjustPosition(cursor, change, false);
+  const updated = adjustMarkers({ ...buf, content, cursorPosition: cursor, isModified: true }, changes);
+  return recordChanges(updated, changes, buf.cursorPosition);
+};
+
+// Insert text arriving over time at a marker that moves past it, leaving the
+// undo list to recordChangeAt once all of it is in. Point at the marker
+// follows the text.
+export const insertStreamed = (buf: Buffer, markerId: string, text: string, undoFrom: number): Buffer => {
+  const pos = buf.markers?.[markerId];
+  if (pos === undefined || !text) return buf;
+  const change: UndoChange = { kind: 'insert', pos, text };
+  const updated: Buffer = adjustMarkers({
+    ...buf,
+    content: buf.content.slice(0, pos) + text + buf.content.slice(pos),
+    cursorPosition: adjustPosition(buf.cursorPosition, change, true),
+    isModified: true,
+  }, [change]);
+  return setMarker(shiftUndoGroups(updated, undoFrom, change), markerId, pos + text.length);
+};
+
+// --- Region ---
+
+export const regionBounds = (buf: Buffer): [number, number] | null => {
+  if (buf.mark === undefined || buf.mark === null) return null;
+  return [Math.min(buf.mark, buf.cursorPosition), Math.max(buf.mark, buf.cursorPosition)];
+};
+
+// End of the text C-k kills: the rest of the line, or through the newline
+// when only blanks are left
+export const killLineEnd = (content: string, pos: number): number => {
+  const lineEnd = content.indexOf('\n', pos);
+  if (lineEnd === -1) return content.length;
+  if (/^[ \t]*$/.test(content.slice(pos, lineEnd))) return lineEnd + 1;
+  return lineEnd;
+};
@@ -0,0 +1,489 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createEditorCore } from './editorCore';
+import { VirtualFileSystem, MemoryBackend } from './fileSystem';
+import { AiProvider, echoProvider } from './ai';
+import { evalForms, printLisp } from './lisp';
+
+const createEditor = (fileSystem = new VirtualFileSystem(new MemoryBackend())) => createEditorCore({ fileSystem });
+
+// A fresh editor showing an empty buffer of its own
+const scratchEditor = async () => {
+  const editor = createEditor();
+  await editor.dispatchKeys('C-x b test RET');
+  return editor;
+};
+
+describe('buffers', () => {
+  it('switches buffers with C-x b', async () => {
+    const editor = createEditor();
+    expect(editor.snapshot().currentBuffer.name).toBe('*scratch*');
+    await editor.dispatchKeys('C-x b *Messages* RET');
+    const { currentBuffer, windows } = editor.snapshot();
+    expect(currentBuffer.name).toBe('*Messages*');
+    expect(currentBuffer.readOnly).toBe(true);
+    expect(windows).toEqual([{ id: 'win-1', buffer: '*Messages*' }]);
+  });
+
+  it('creates a buffer for a new name', async () => {
+    const editor = await scratchEditor();
+    expect(editor.snapshot().currentBuffer).toMatchObject({ name: 'test', content: '', point: 0 });
+  });
+
+  it('kills the current buffer with C-x k', async () => {
+    const editor = createEditor();
+    await editor.dispatchKeys('C-x b f i r s t RET a b c C-x b s e c o n d RET');
+    await editor.dispatchKeys('C-x k');
+    const { buffers, currentBuffer } = editor.snapshot();
+    expect(buffers.map(b => b.name)).not.toContain('second');
+    expect(currentBuffer).toMatchObject({ name: 'first', content: 'abc', point: 3 });
+  });
+});
+
+describe('editing', () => {
+  it('inserts typed text at point', async () => {
+    const editor = await scratchEditor();
+    await editor.dispatchKeys('h e l l o SPC w o r l d');
+    expect(editor.snapshot().currentBuffer).toMatchObject({ content: 'hello world', point: 11, modified: true });
+    await editor.dispatchKeys('<left> <left> <left> <left> <left> DEL');
+    expect(editor.snapshot().currentBuffer).toMatchObject({ content: 'helloworld', point: 5 });
+  });
+
+  it('moves between lines with C-n and C-p, keeping the column', async () => {
+    const editor = await scratchEditor();
+    await editor.dispatchKeys('a b c RET d e f RET g');
+    await editor.dispatchKeys('C-p C-p');
+    expect(editor.snapshot().currentBuffer.point).toBe(1);
+    await editor.dispatchKeys('C-n');
+    expect(editor.snapshot().currentBuffer.point).toBe(5);
+  });
+
+  it('kills and yanks the region', async () => {
+    const editor = await scratchEditor();
+    await editor.dispatchKeys('o n e SPC t w o');
+    editor.setCursor(4);
+    await editor.dispatchKeys('C-SPC');
+    editor.setCursor(7);
+    await editor.dispatchKeys('C-w');
+    expect(editor.snapshot().currentBuffer).toMatchObject({ content: 'one ', point: 4 });
+    editor.setCursor(0);
+    await editor.dispatchKeys('C-y');
+    expect(editor.snapshot().currentBuffer).toMatchObject({ content: 'twoone ', point: 3 });
+  });
+
+  it('undoes a command with C-/', async () => {
+    const editor = await scratchEditor();
+    await editor.dispatchKeys('a b c');
+    await editor.dispatchKeys('C-SPC');
+    editor.setCursor(0);
+    await editor.dispatchKeys('C-w');
+    expect(editor.snapshot().currentBuffer.content).toBe('');
+    await editor.dispatchKeys('C-/');
+    expect(editor.snapshot().currentBuffer.content).toBe('abc');
+  });
+
+  it('leaves read-only buffers alone', async () => {
+    const editor = createEditor();
+    await editor.dispatchKeys('C-x b *Messages* RET');
+    const before = editor.snapshot().currentBuffer.content;
+    await editor.dispatchKeys('x y z');
+    expect(editor.snapshot().currentBuffer.content).toBe(before);
+  });
+});
+
+describe('prefix keys and the minibuffer', () => {
+  it('reports an undefined key sequence', async () => {
+    const editor = createEditor();
+    await editor.dispatchKeys('C-x C-z');
+    expect(editor.snapshot().message).toBe('C-x C-z is undefined');
+  });
+
+  it('cancels the minibuffer with C-g', async () => {
+    const editor = createEditor();
+    await editor.dispatchKeys('M-x f o o');
+    expect(editor.snapshot().minibuffer).toEqual({ prompt: 'M-x ', input: 'foo' });
+    await editor.dispatchKeys('C-g');
+    expect(editor.snapshot().minibuffer).toBeNull();
+    expect(editor.snapshot().message).toBe('Quit');
+  });
+
+  it('evaluates an expression with M-:', async () => {
+    const editor = createEditor();
+    await editor.dispatchKeys('M-: ( + SPC 1 SPC 2 ) RET');
+    expect(editor.snapshot().message).toBe('3');
+  });
+});
+
+describe('windows', () => {
+  it('splits and cycles windows', async () => {
+    const editor = createEditor();
+    await editor.dispatchKeys('C-x 2');
+    const { windows, selectedWindow } = editor.snapshot();
+    expect(windows).toHaveLength(2);
+    await editor.dispatchKeys('C-x o');
+    expect(editor.snapshot().selectedWindow).not.toBe(selectedWindow);
+    await editor.dispatchKeys('C-x 1');
+    expect(editor.snapshot().windows).toHaveLength(1);
+  });
+});
+
+describe('files', () => {
+  it('visits and saves a file', async () => {
+    const fs = new VirtualFileSystem(new MemoryBackend());
+    const editor = createEditor(fs);
+    await editor.dispatchKeys('C-x C-f n o t e s . t x t RET');
+    expect(editor.snapshot().currentBuffer).toMatchObject({ name: 'notes.txt', filePath: '/home/user/notes.txt' });
+    await editor.dispatchKeys('h i C-x C-s');
+    expect(fs.readFile('/home/user/notes.txt')).toBe('hi');
+    expect(editor.snapshot().currentBuffer.modified).toBe(false);
+  });
+
+  it('starts the file name over at // or /~ after the offered directory', async () => {
+    const fs = new VirtualFileSystem(new MemoryBackend());
+    const editor = createEditor(fs);
+    await editor.dispatchKeys('C-x C-f / t m p / a . t x t RET');
+    expect(editor.snapshot().currentBuffer.filePath).toBe('/tmp/a.txt');
+    await editor.dispatchKeys('a C-x C-w / v a r / b . t x t RET');
+    expect(editor.snapshot().currentBuffer.filePath).toBe('/var/b.txt');
+    expect(fs.readFile('/var/b.txt')).toBe('a');
+    await editor.dispatchKeys('C-x C-f ~ / c . t x t RET');
+    expect(editor.snapshot().currentBuffer.filePath).toBe('/home/user/c.txt');
+  });
+
+  it('loads a Lisp file with load', async () => {
+    const fs = new VirtualFileSystem(new MemoryBackend());
+    fs.writeFile('/home/user/lib.el', '(defun lib-double (n) (* 2 n)) ; helper\n(defvar lib-loaded t)');
+    const editor = createEditor(fs);
+    const result = await evalForms(`(list (load "/home/user/lib") (lib-double 21) lib-loaded
+                                          (load "/home/user/missing" t)
+                                          (condition-case err (load "/home/user/missing") (file-missing (car err))))`, editor.lispEnv);
+    expect(printLisp(result)).toBe('(t 42 t nil file-missing)');
+    const messages = editor.snapshot().buffers.find(b => b.name === '*Messages*')!;
+    expect(messages.content).toContain('Loading /home/user/lib...done');
+  });
+
+  it('loads the init file at startup, logging errors to *Messages*', async () => {
+    const fs = new VirtualFileSystem(new MemoryBackend());
+    fs.writeFile('/home/user/.emacs.d/init.el', '(defvar init-value 42) ; set first\n(car 1)\n(defvar never-set t)');
+    const editor = createEditor(fs);
+    await editor.start();
+    expect(await evalForms('init-value', editor.lispEnv)).toMatchObject({ type: 'NUMBER', value: 42 });
+    await expect(evalForms('never-set', editor.lispEnv)).rejects.toThrow('void');
+    const messages = editor.snapshot().buffers.find(b => b.name === '*Messages*')!;
+    expect(messages.content).toContain('Error loading ~/.emacs.d/init.el: Wrong type argument: listp, 1');
+  });
+});
+
+describe('Lisp', () => {
+  it('binds keys to Lisp commands', async () => {
+    const editor = await scratchEditor();
+    await evalForms(`(defun insert-stars () (interactive) (insert "**"))
+                     (global-set-key (kbd "C-c s") 'insert-stars)`, editor.lispEnv);
+    await editor.dispatchKeys('C-c s C-c s');
+    expect(editor.snapshot().currentBuffer).toMatchObject({ content: '****', point: 4 });
+  });
+
+  it('returns the value of a command called with call-interactively', async () => {
+    const editor = await scratchEditor();
+    await evalForms(`(defun add-text () (interactive) (insert "added") 'done)
+                     (defun fail-loudly () (interactive) (error "Boom"))`, editor.lispEnv);
+    const result = await evalForms(`(list (call-interactively 'add-text) (buffer-string)
+                                          (condition-case err (call-interactively 'fail-loudly) (error (error-message-string err))))`, editor.lispEnv);
+    expect(printLisp(result)).toBe('(done "added" "Boom")');
+  });
+
+  it('edits another buffer without displaying it', async () => {
+    const editor = await scratchEditor();
+    await evalForms('(with-current-buffer (get-buffer-create "other") (insert "hidden") (goto-char 2))', editor.lispEnv);
+    const { currentBuffer, buffers } = editor.snapshot();
+    expect(currentBuffer.name).toBe('test');
+    expect(buffers.find(b => b.name === 'other')).toMatchObject({ content: 'hidden', point: 2 });
+  });
+
+  it('undoes in the buffer made current with with-current-buffer', async () => {
+    const editor = await scratchEditor();
+    await editor.dispatchKeys('h e l l o');
+    const result = await evalForms(`(list (with-current-buffer (get-buffer-create "other")
+                                            (insert "xyz") (undo-boundary) (undo) (buffer-string))
+                                          (condition-case err (with-current-buffer "*Messages*" (undo)) (buffer-read-only err)))`, editor.lispEnv);
+    expect(printLisp(result)).toBe('("" (buffer-read-only *Messages*))');
+    expect(editor.snapshot().currentBuffer).toMatchObject({ name: 'test', content: 'hello' });
+  });
+
+  it('copies the region but signals when killing in a read-only buffer', async () => {
+    const editor = await scratchEditor();
+    const result = await evalForms(`(with-current-buffer "*Messages*"
+                                      (list (condition-case err (kill-region 1 3) (buffer-read-only (car err)))
+                                            (equal (current-kill 0) (buffer-substring 1 3))
+                                            (condition-case err (yank) (buffer-read-only (car err)))))`, editor.lispEnv);
+    expect(printLisp(result)).toBe('(buffer-read-only t buffer-read-only)');
+  });
+
+  it('gives a derived mode the keymap defined for it beforehand', async () => {
+    const editor = await scratchEditor();
+    await evalForms(`(defvar notes-mode-map (make-sparse-keymap))
+                     (define-key notes-mode-map (kbd "C-c n") 'forward-char)
+                     (let ((unrelated t))
+                       (define-derived-mode notes-mode text-mode "Notes"))`, editor.lispEnv);
+    const result = await evalForms('(notes-mode) (key-binding (kbd "C-c n"))', editor.lispEnv);
+    expect(printLisp(result)).toBe('forward-char');
+  });
+
+  it('evaluates input in *ielm*', async () => {
+    const editor = createEditor();
+    await editor.dispatchKeys('M-x i e l m RET');
+    await editor.dispatchKeys('( * SPC 6 SPC 7 ) RET');
+    await editor.dispatchKeys('( l i s t SPC * RET 1 ) RET');
+    const { currentBuffer } = editor.snapshot();
+    expect(currentBuffer.name).toBe('*ielm*');
+    expect(currentBuffer.content).toContain('ELISP> (* 6 7)\n42\nELISP> (list *\n1)\n(42 1)\nELISP> ');
+    expect(currentBuffer.point).toBe(currentBuffer.content.length);
+  });
+});
+
+describe('ERT', () => {
+  it('runs tests with M-x ert and re-runs the one at point with r', async () => {
+    const editor = createEditor();
+    await evalForms(`(ert-deftest passes () (should t))
+                     (ert-deftest fails () (should (= (+ 1 1) 3)))`, editor.lispEnv);
+    await editor.dispatchKeys('M-x e r t RET RET');
+    const results = editor.snapshot().currentBuffer;
+    expect(results).toMatchObject({ name: '*ert*', majorMode: 'ert-results-mode', readOnly: true });
+    expect(results.content).toContain('Passed:  1\nSkipped: 0\nFailed:  1 (1 unexpected)\nTotal:   2/2');
+    expect(results.content).toContain('.F\n\nF fails\n    (ert-test-failed ((should (= (+ 1 1) 3)) :form (= 2 3) :value nil))');
+
+    await editor.dispatchKeys('n');
+    expect(editor.snapshot().currentBuffer.point).toBe(results.content.indexOf('F fails'));
+    await evalForms('(ert-deftest fails () (should (= (+ 1 1) 2)))', editor.lispEnv);
+    await editor.dispatchKeys('r');
+    expect(editor.snapshot().currentBuffer.content).toContain('Passed:  2\nSkipped: 0\nFailed:  0\nTotal:   2/2\n\nFinished.\n\n..\n');
+  });
+
+  it('reads the selector as Lisp', async () => {
+    const editor = createEditor();
+    await evalForms(`(ert-deftest math-add () (should t))
+                     (ert-deftest text-join () (should t))`, editor.lispEnv);
+    await editor.dispatchKeys('M-x e r t RET " ^ m a t h " RET');
+    expect(editor.snapshot().currentBuffer.content).toMatch(/^Selector: "\^math"\nPassed: {2}1\n/);
+  });
+});
+
+describe('*Messages*', () => {
+  const messages = (editor: ReturnType<typeof createEditor>) => editor.snapshot().buffers.find(b => b.name === '*Messages*')!.content;
+
+  it('logs echo area messages, counting repeats', async () => {
+    const editor = createEditor();
+    await editor.dispatchKeys('C-g C-g C-g');
+    await evalForms('(message "Sum: %d" (+ 1 2))', editor.lispEnv);
+    await editor.dispatchKeys('C-g');
+    expect(messages(editor)).toBe('React Emacs initialization complete.\nQuit [3 times]\nSum: 3\nQuit\n');
+  });
+
+  it('keeps message-log-max lines', async () => {
+    const editor = createEditor();
+    await evalForms('(setq message-log-max 2) (dotimes (i 4) (message "line %d" i))', editor.lispEnv);
+    expect(messages(editor)).toBe('line 2\nline 3\n');
+    await evalForms('(let ((message-log-max nil)) (message "unlogged"))', editor.lispEnv);
+    expect(editor.snapshot().message).toBe('unlogged');
+    expect(messages(editor)).toBe('line 2\nline 3\n');
+  });
+
+  it('logs multi-line messages whole', async () => {
+    const editor = createEditor();
+    await evalForms('(message "one\\ntwo") (message "one\\ntwo")', editor.lispEnv);
+    expect(messages(editor)).toMatch(/\none\ntwo \[2 times\]\n$/);
+    expect(editor.snapshot().message).toBe('one\ntwo');
+  });
+
+  it('clears the echo area at the next command', async () => {
+    const editor = await scratchEditor();
+    await editor.dispatchKeys('C-g');
+    expect(editor.snapshot().message).toBe('Quit');
+    await editor.dispatchKeys('a');
+    expect(editor.snapshot().message).toBe('');
+  });
+
+  it('follows new messages when point is at the end', async () => {
+    const editor = createEditor();
+    await editor.dispatchKeys('C-x b *Messages* RET');
+    editor.setCursor(editor.snapshot().currentBuffer.content.length);
+    await editor.dispatchKeys('C-g');
+    const { content, point } = editor.snapshot().currentBuffer;
+    expect(point).toBe(content.length);
+  });
+});
+
+describe('hooks', () => {
+  const value = async (editor: ReturnType<typeof createEditor>, expr: string) =>
+    printLisp(await evalForms(expr, editor.lispEnv));
+
+  it('calls after-change-functions with the changed range', async () => {
+    const editor = await scratchEditor();
+    await evalForms(`(defvar changes nil)
+                     (add-hook 'after-change-functions (lambda (beg end len) (push (list beg end len) changes)))`, editor.lispEnv);
+    await editor.dispatchKeys('a b <left> DEL');
+    expect(await value(editor, 'changes')).toBe('((0 0 1) (1 2 0) (0 1 0))');
+  });
+
+  it('calls after-change-functions at each change a command makes, but not for its own', async () => {
+    const editor = await scratchEditor();
+    await evalForms(`(defvar changes nil)
+                     (defun edit-three-times ()
+                       (interactive)
+                       (insert "middle")
+                       (goto-char 0) (insert "<<")
+                       (goto-char (point-max)) (insert ">>")
+                       (delete-region 3 5))
+                     (add-hook 'after-change-functions
+                               (lambda (beg end len)
+                                 (push (list beg end len (buffer-string)) changes)
+                                 (save-excursion (goto-char (point-max)) (insert "!"))))`, editor.lispEnv);
+    await editor.dispatchKeys('M-x e d i t - t h r e e - t i m e s RET');
+    expect(await value(editor, '(reverse changes)')).toBe(
+      '((0 6 0 "middle") (0 2 0 "<<middle!") (10 12 0 "<<middle!!>>") (3 3 2 "<<mdle!!>>!"))');
+    expect(editor.snapshot().currentBuffer.content).toBe('<<mdle!!>>!!');
+  });
+
+  it('runs a buffer-local hook only in its buffer', async () => {
+    const editor = await scratchEditor();
+    await evalForms(`(defvar local-count 0)
+                     (add-hook 'after-change-functions (lambda (&rest _) (setq local-count (1+ local-count))) nil t)`, editor.lispEnv);
+    await editor.dispatchKeys('x y');
+    await editor.dispatchKeys('C-x b other RET z');
+    expect(await value(editor, 'local-count')).toBe('2');
+  });
+
+  it('runs pre-command-hook and post-command-hook around commands', async () => {
+    const editor = await scratchEditor();
+    await evalForms(`(defvar command-log nil)
+                     (add-hook 'pre-command-hook (lambda () (push 'pre command-log)))
+                     (add-hook 'post-command-hook (lambda () (push (buffer-name) command-log)))`, editor.lispEnv);
+    await editor.dispatchKeys('C-x b other RET');
+    expect(await value(editor, '(reverse command-log)')).toBe('(pre "other")');
+  });
+
+  it('logs an error in a hook function and finishes the command', async () => {
+    const editor = await scratchEditor();
+    await evalForms(`(defun broken-hook () (error "Boom"))
+                     (add-hook 'post-command-hook 'broken-hook)`, editor.lispEnv);
+    await editor.dispatchKeys('C-x b other RET');
+    const { currentBuffer, buffers } = editor.snapshot();
+    expect(currentBuffer.name).toBe('other');
+    expect(buffers.find(b => b.name === '*Messages*')!.content).toContain('Error in post-command-hook (broken-hook): Boom\n');
+  });
+
+  it('runs the file hooks and mode hooks', async () => {
+    const fs = new VirtualFileSystem(new MemoryBackend());
+    const editor = createEditor(fs);
+    await evalForms(`(defvar file-log nil)
+                     (add-hook 'find-file-hook (lambda () (push (list 'found (buffer-name)) file-log)))
+                     (add-hook 'text-mode-hook (lambda () (push 'text-mode file-log)))
+                     (add-hook 'before-save-hook (lambda () (goto-char (point-max)) (insert "\\n")))
+                     (add-hook 'after-save-hook (lambda () (push (list 'saved (length (buffer-string))) file-log)))
+                     (add-hook 'kill-buffer-hook (lambda () (push (list 'killed (buffer-name)) file-log)))`, editor.lispEnv);
+    await editor.dispatchKeys('C-x C-f n o t e s . t x t RET h i C-x C-s C-x k');
+    expect(fs.readFile('/home/user/notes.txt')).toBe('hi\n');
+    expect(await value(editor, '(reverse file-log)')).toBe('(text-mode (found "notes.txt") (saved 3) (killed "notes.txt"))');
+  });
+});
+
+describe('AI commands', () => {
+  afterEach(() => vi.unstubAllEnvs());
+
+  // A provider whose response the test sends chunk by chunk; null ends it
+  const fakeProvider = () => {
+    const pending: (string | null)[] = [];
+    let wake = () => {};
+    const provider: AiProvider = {
+      ...echoProvider,
+      label: 'Fake',
+      models: ['fake'],
+      async *stream(_prompt, { signal }) {
+        signal!.addEventListener('abort', () => wake());
+        for (;;) {
+          while (pending.length === 0 && !signal!.aborted) await new Promise<void>(resolve => { wake = resolve; });
+          if (signal!.aborted) throw new DOMException('The operation was aborted.', 'AbortError');
+          const chunk = pending.shift()!;
+          if (chunk === null) return;
+          yield chunk;
+        }
+      },
+    };
+    const send = (chunk: string | null) => {
+      pending.push(chunk);
+      wake();
+    };
+    return { provider, send };
+  };
+
+  const aiEditor = async () => {
+    const fake = fakeProvider();
+    const editor = createEditorCore({ fileSystem: new VirtualFileSystem(new MemoryBackend()), aiProviders: { fake: fake.provider } });
+    await evalForms("(setq ai-provider 'fake)", editor.lispEnv);
+    await editor.dispatchKeys('C-x b test RET a b <left>');
+    return { editor, send: fake.send };
+  };
+
+  const askAi = async () => {
+    const { editor, send } = await aiEditor();
+    await editor.dispatchKeys('M-x a i - a s k RET h i RET');
+    const progress = () => editor.state.buffers.find(b => b.name === 'test')!.progress;
+    return { editor, send, progress };
+  };
+
+  it('streams the response in at point while editing goes on', async () => {
+    const { editor, send, progress } = await askAi();
+    expect(progress()).toBe('Fake: waiting');
+    send('Hel');
+    await vi.waitFor(() => expect(editor.snapshot().currentBuffer.content).toBe('aHelb'));
+    expect(progress()).toBe('Fake: 3 chars');
+
+    editor.setCursor(5);
+    await editor.dispatchKeys('c');
+    send('lo');
+    send(null);
+    await vi.waitFor(() => expect(progress()).toBeUndefined());
+    expect(editor.snapshot()).toMatchObject({ currentBuffer: { content: 'aHellobc' }, message: 'Fake response inserted.' });
+
+    await editor.dispatchKeys('C-/');
+    expect(editor.snapshot().currentBuffer.content).toBe('aHellob');
+    await editor.dispatchKeys('C-/');
+    expect(editor.snapshot().currentBuffer.content).toBe('ab');
+  });
+
+  it('stops with C-g, keeping the partial text as one change', async () => {
+    const { editor, send, progress } = await askAi();
+    send('Part');
+    await vi.waitFor(() => expect(editor.snapshot().currentBuffer.content).toBe('aPartb'));
+    await editor.dispatchKeys('C-g');
+    await vi.waitFor(() => expect(progress()).toBeUndefined());
+    send('ignored');
+    await editor.dispatchKeys('C-/');
+    expect(editor.snapshot().currentBuffer).toMatchObject({ content: 'ab', point: 1 });
+  });
+
+  it('switches models with M-x ai-select-model', async () => {
+    const { editor } = await aiEditor();
+    await editor.dispatchKeys('M-x a i - s e l e c t - m o d e l RET e c h o RET');
+    expect(editor.snapshot().message).toBe('AI model set to echo:echo');
+    await editor.dispatchKeys('M-x a i - a s k RET h e l l o SPC t h e r e RET');
+    await vi.waitFor(() => expect(editor.snapshot().message).toBe('Echo response inserted.'));
+    expect(editor.snapshot().currentBuffer.content).toBe('ahello thereb');
+  });
+
+  it('keeps ask-gemini as an obsolete alias of ai-ask', async () => {
+    const { editor } = await aiEditor();
+    await evalForms("(setq ai-provider 'echo)", editor.lispEnv);
+    await editor.dispatchKeys('M-x a s k - g e m i n i RET h i RET');
+    await vi.waitFor(() => expect(editor.snapshot().message).toBe('Echo response inserted.'));
+    expect(editor.snapshot().currentBuffer.content).toBe('ahib');
+  });
+
+  it('reports a missing API key as a user error', async () => {
+    vi.stubEnv('GEMINI_API_KEY', '');
+    const { editor } = await aiEditor();
+    await evalForms("(setq ai-provider 'gemini)", editor.lispEnv);
+    await editor.dispatchKeys('M-x a i - a s k RET h i RET');
+    await vi.waitFor(() => expect(editor.snapshot().message).toBe('No Gemini API key: set GEMINI_API_KEY in .env.local, or ai-api-key'));
+    expect(editor.snapshot().currentBuffer.content).toBe('ab');
+  });
+});
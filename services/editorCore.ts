@@ -0,0 +1,2531 @@
+// Headless editor core for React Emacs
+//
+// All editor behaviour lives here, operating on one mutable state object:
+// buffers, windows, the minibuffer, commands and the Lisp environment. The
+// React components only render the state and pass key events in, so the
+// core can also be driven directly, e.g. from tests.
+
+import {
+  Buffer, EditorMode, MinibufferType, EmacsState, SplitDirection, IsearchState, Highlight,
+  Keymap, Command, PrefixArg, ReadOptions, MajorMode, FaceSpan, UndoChange,
+} from '../types';
+import { INITIAL_BUFFERS, INITIAL_BUFFER_ID, INIT_FILE_NAMES, THEME } from '../constants';
+import { AiProvider, aiSettings, builtinAiProviders, explainCodePrompt, installAi, userError } from './ai';
+import {
+  createGlobalEnv, evalLisp, evalForms, callFunction, parse, printLisp, findLastSexp,
+  mkList, mkSym, mkStr, mkNum, mkNull, mkBool, listElements, LispEnv, LispVal, EmacsAPI,
+  LispError, lispError, toLispError, isTrue, errorConditions, formatBacktrace, requestQuit, hookFunctions,
+} from './lisp';
+import { diffContent, recordChanges, recordChangeAt, undoBoundary, undo, redo } from './undo';
+import {
+  adjustMarkers, insertText, insertStreamed, deleteText, replaceContent, setMarker, regionBounds, killLineEnd,
+} from './editing';
+import { emptyKillRing, killNew, killAppend, rotateKillRing, currentKill } from './killRing';
+import {
+  createFileSystem, VirtualFileSystem, HOME_DIRECTORY,
+  expandFileName, abbreviateFileName, fileNameDirectory, fileNameNondirectory,
+} from './fileSystem';
+import {
+  createWindow, listWindows, findWindow, nextWindowId, updateWindow, mapWindows,
+  splitWindow, deleteWindow, balanceWindows, enlargeWindow,
+} from './windows';
+import { createGlobalKeymap, keyBinding, parseKeySequence, formatKeySequence, isKeymap, whereIs } from './keymap';
+import {
+  bindDefaultKeys, universalArgument, digitArgument, prefixNumericValue, describePrefixArg,
+  parseInteractiveSpec, InteractiveSpec,
+} from './commands';
+import { completeInput, exactCompletion, formatPrompt, addToHistory } from './completion';
+import {
+  createBuiltinModes, modeChain, modeForFileName, toggleComment,
+  lineStartAt, lineEndAt, columnAt, indentationEnd,
+} from './modes';
+import { Fontification, refontify } from './fontLock';
+import {
+  IELM_BUFFER, IELM_PROMPT, IELM_BANNER, IELM_INPUT_MARKER, IELM_HISTORY, inputComplete, createIelmScope, ielmEval,
+} from './ielm';
+import {
+  ERT_BUFFER, ErtRun, ErtTest, installErt, ertTest, runErtTests, runErtTest, formatErtResults, ertTestAt, ertEntryPositions,
+} from './ert';
+import { appendMessage } from './messages';
+import { SearchMatch, searchForward, searchBackward, findAllMatches, expandReplacement, endOfNextWord } from './search';
+
+export interface EditorCoreOptions {
+  fileSystem?: VirtualFileSystem; // Defaults to browser storage, or memory outside a browser
+  aiProviders?: Record<string, AiProvider>; // Added to the built-in ones, e.g. a fake for tests
+}
+
+export interface BufferSnapshot {
+  name: string;
+  content: string;
+  point: number;
+  mark: number | null;
+  majorMode: string;
+  readOnly: boolean;
+  modified: boolean;
+  filePath?: string;
+}
+
+// A copy of the state that matters to a user, for tests and scripts
+export interface EditorSnapshot {
+  buffers: BufferSnapshot[];
+  currentBuffer: BufferSnapshot; // Shown in the selected window
+  windows: { id: string; buffer: string }[];
+  selectedWindow: string;
+  message: string;
+  minibuffer: { prompt: string; input: string } | null; // null when inactive
+}
+
+export interface EditorCore {
+  state: EmacsState; // Live and changed in place; subscribe to hear of changes
+  api: EmacsAPI;
+  lispEnv: LispEnv;
+  subscribe: (listener: () => void) => () => void; // Returns the unsubscribe function
+  start: () => Promise<void>; // Load storage and then the init file
+  reloadFiles: () => Promise<void>; // Re-read storage another tab may have written
+  // Keys in kbd notation, as typed in the buffer or the minibuffer. They
+  // return false for keys left to the text field, such as plain typing.
+  editorKey: (key: string) => boolean;
+  minibufferKey: (key: string) => boolean;
+  // Type a key sequence such as "C-x b *Messages* RET", doing what the text
+  // fields would do with unhandled keys, and wait for the commands it runs
+  dispatchKeys: (keys: string) => Promise<void>;
+  runCommand: (name: string) => Promise<void>;
+  snapshot: () => EditorSnapshot;
+  // Text field events
+  updateContent: (content: string, cursor: number) => void;
+  setCursor: (pos: number) => void;
+  selectWindow: (windowId: string) => void;
+  minibufferInput: (input: string) => void;
+  chooseCompletion: (candidate: string) => void;
+  // Display
+  fontLockFaces: (buf: Buffer) => FaceSpan[];
+  searchHighlights: () => Highlight[];
+}
+
+export const createEditorCore = (options: EditorCoreOptions = {}): EditorCore => {
+  // The authoritative state, changed in place so that Lisp operations can
+  // chain synchronously: (progn (insert "a") (insert "b"))
+  const state: EmacsState = {
+    buffers: INITIAL_BUFFERS.map(buf => ({ ...buf })), // Some are changed in place
+    activeBufferId: INITIAL_BUFFER_ID,
+    windowTree: createWindow('win-1', INITIAL_BUFFER_ID),
+    selectedWindowId: 'win-1',
+    editorMode: EditorMode.NORMAL,
+    chordStack: '',
+    keymaps: { global: createGlobalKeymap(), minor: {} },
+    modes: createBuiltinModes(),
+    minibuffer: {
+      type: MinibufferType.NONE,
+      prompt: '',
+      input: '',
+    },
+    message: 'For information about GNU Emacs and the GNU system, type C-h C-a.',
+    killRing: emptyKillRing(),
+    lastCommand: '',
+    thisCommand: '',
+    lastCommandEvent: '',
+    prefixArg: null,
+    lastSearch: { query: '', regexp: false },
+    history: {},
+  };
+
+  // Called after every change, e.g. to render the new state
+  const listeners = new Set<() => void>();
+  const refresh = () => {
+    queueChangeHooks();
+    listeners.forEach(listener => listener());
+  };
+
+  // --- Hooks ---
+
+  // Hooks run one after another on this queue, as do commands typed by the
+  // user between their pre-command-hook and post-command-hook
+  let hookWork: Promise<void> = Promise.resolve();
+  const queueHook = (run: () => Promise<void>) => {
+    hookWork = hookWork.then(run).catch(reportLispError);
+  };
+
+  // Buffer-local hook values, by buffer id
+  const localHooks = new Map<string, Map<string, LispVal>>();
+
+  // Each buffer's text when after-change-functions last saw it. Lisp code
+  // and typing report each change as they make it; other changes are
+  // compared on refresh, so several made at once are reported as one.
+  const seenContent = new Map<string, string>(state.buffers.map(b => [b.id, b.content]));
+  let changeHooksQueued = false;
+
+  const queueChangeHooks = () => {
+    if (changeHooksQueued || state.buffers.every(b => seenContent.get(b.id) === b.content)) return;
+    changeHooksQueued = true;
+    queueHook(runChangeHooks);
+  };
+
+  // Report a change just made to a buffer; call the result to run
+  // after-change-functions for it
+  const bufferChanged = (bufferId: string, start: number, end: number, oldLength: number) => {
+    const buf = state.buffers.find(b => b.id === bufferId);
+    if (buf) seenContent.set(bufferId, buf.content);
+    return () => runAfterChange(bufferId, start, end, oldLength);
+  };
+
+  // --- Filesystem ---
+
+  const fs = options.fileSystem || createFileSystem();
+
+  // --- Lisp Environment Setup ---
+
+  // The buffer Lisp code made current with set-buffer, without displaying it.
+  // null means the selected window's buffer; each command starts from there.
+  let lispBuffer: string | null = null;
+  let markerCount = 0;
+
+  const currentBufferIndex = (): number => {
+    const idx = lispBuffer === null ? -1 : state.buffers.findIndex(b => b.id === lispBuffer);
+    return idx !== -1 ? idx : state.buffers.findIndex(b => b.id === state.activeBufferId);
+  };
+
+  // Find or create a buffer by name, without displaying it
+  const getBufferCreate = (name: string): Buffer => {
+    const existing = state.buffers.find(b => b.name === name);
+    if (existing) return existing;
+    const newBuf: Buffer = {
+      id: name,
+      name: name,
+      content: '',
+      cursorPosition: 0,
+      ...modeFields('fundamental-mode'),
+      isModified: false
+    };
+    state.buffers.push(newBuf);
+    return newBuf;
+  };
+
+  const api: EmacsAPI = {
+    message: (msg: string) => echo(msg),
+    insert: (text: string) => {
+      const bufIdx = currentBufferIndex();
+      if (bufIdx === -1 || !text) return;
+
+      const buf = state.buffers[bufIdx];
+      const pos = buf.cursorPosition;
+      state.buffers[bufIdx] = insertText(buf, pos, text);
+      const runHooks = bufferChanged(buf.id, pos, pos + text.length, 0);
+      refresh();
+      return runHooks();
+    },
+    deleteRegion: (start: number, end: number) => {
+      const bufIdx = currentBufferIndex();
+      if (bufIdx === -1) return;
+      const buf = state.buffers[bufIdx];
+      const from = Math.max(0, Math.min(start, end));
+      const to = Math.min(buf.content.length, Math.max(start, end));
+      if (from === to) return;
+      state.buffers[bufIdx] = deleteText(buf, from, to);
+      const runHooks = bufferChanged(buf.id, from, from, to - from);
+      refresh();
+      return runHooks();
+    },
+    getBufferContent: () => {
+      const buf = state.buffers[currentBufferIndex()];
+      return buf ? buf.content : "";
+    },
+    getCursor: () => {
+      const buf = state.buffers[currentBufferIndex()];
+      return buf ? buf.cursorPosition : 0;
+    },
+    setCursor: (pos: number) => {
+      const idx = currentBufferIndex();
+      if (idx !== -1) {
+        state.buffers[idx].cursorPosition = Math.max(0, Math.min(pos, state.buffers[idx].content.length));
+        refresh();
+      }
+    },
+    switchBuffer: (name: string) => {
+      // Create if not exists (loose behavior for switch-to-buffer)
+      setActiveBuffer(getBufferCreate(name).id);
+      refresh();
+    },
+    setBuffer: (name: string) => {
+      const buf = state.buffers.find(b => b.name === name);
+      if (buf) lispBuffer = buf.id;
+    },
+    getBufferCreate: (name: string) => {
+      getBufferCreate(name);
+    },
+    currentBufferName: () => {
+      const buf = state.buffers[currentBufferIndex()];
+      return buf ? buf.name : "";
+    },
+    bufferReadOnly: () => !!state.buffers[currentBufferIndex()]?.readOnly,
+    saveExcursion: () => {
+      const idx = currentBufferIndex();
+      if (idx === -1) return () => {};
+      // Point is kept as a marker so edits in the body move it along
+      const bufferId = state.buffers[idx].id;
+      const markerId = `excursion-${markerCount++}`;
+      state.buffers[idx] = setMarker(state.buffers[idx], markerId, state.buffers[idx].cursorPosition);
+      return () => {
+        const i = state.buffers.findIndex(b => b.id === bufferId);
+        if (i === -1) return;
+        const buf = state.buffers[i];
+        state.buffers[i] = { ...setMarker(buf, markerId, null), cursorPosition: buf.markers?.[markerId] ?? buf.cursorPosition };
+        lispBuffer = bufferId;
+        refresh();
+      };
+    },
+    killBuffer: async (name: string) => {
+      if (state.buffers.length <= 1) return;
+      const killId = state.buffers.find(b => b.name === name)?.id;
+      if (!killId) return;
+      await runHookIn(killId, 'kill-buffer-hook');
+      // The hook may have killed it already
+      if (state.buffers.length <= 1 || !state.buffers.some(b => b.id === killId)) return;
+
+      state.buffers = state.buffers.filter(b => b.id !== killId);
+      localHooks.delete(killId);
+      replaceBufferInWindows(killId, state.buffers[0].id);
+      refresh();
+    },
+    undo: () => undoCurrentBuffer(),
+    undoBoundary: () => {
+      const idx = currentBufferIndex();
+      if (idx !== -1) state.buffers[idx] = undoBoundary(state.buffers[idx]);
+    },
+    getMark: () => {
+      const buf = state.buffers[currentBufferIndex()];
+      return buf && buf.mark !== undefined ? buf.mark : null;
+    },
+    setMark: (pos: number | null) => {
+      const idx = currentBufferIndex();
+      if (idx === -1) return;
+      const buf = state.buffers[idx];
+      state.buffers[idx] = pos === null
+        ? { ...buf, markActive: false }
+        : { ...buf, mark: Math.max(0, Math.min(pos, buf.content.length)), markActive: true };
+      refresh();
+    },
+    killRegion: (start: number, end: number) => killText(start, end, 'kill-region'),
+    copyRegionAsKill: (start: number, end: number) => {
+      const buf = state.buffers[currentBufferIndex()];
+      if (!buf) return;
+      state.killRing = killNew(state.killRing, buf.content.slice(Math.min(start, end), Math.max(start, end)));
+    },
+    yank: () => yank(),
+    killNew: (text: string) => {
+      state.killRing = killNew(state.killRing, text);
+    },
+    currentKill: (n: number) => {
+      state.killRing = rotateKillRing(state.killRing, n);
+      return currentKill(state.killRing);
+    },
+    findFile: async (path: string) => {
+      const buf = await findFile(path);
+      return buf ? buf.name : null;
+    },
+    saveBuffer: () => saveBuffer(),
+    fileExists: (path: string) => fs.exists(expandFileName(path, defaultDirectory())),
+    readFile: (path: string) => {
+      const expanded = expandFileName(path, defaultDirectory());
+      return fs.exists(expanded) && !fs.isDirectory(expanded) ? fs.readFile(expanded) : null;
+    },
+    directoryFiles: (path: string) => ['.', '..', ...fs.listDirectory(expandFileName(path, defaultDirectory()))],
+    deleteFile: (path: string) => fs.deleteFile(expandFileName(path, defaultDirectory())),
+    selectedWindow: () => state.selectedWindowId,
+    splitWindow: (windowId: string, direction: SplitDirection) => splitWindowCommand(direction, windowId),
+    windowBuffer: (windowId: string) => {
+      const win = findWindow(state.windowTree, windowId);
+      if (!win) throw new Error(`No such window: ${windowId}`);
+      return state.buffers.find(b => b.id === win.bufferId)?.name || "";
+    },
+    setWindowBuffer: (windowId: string, bufferName: string) => {
+      const buf = state.buffers.find(b => b.name === bufferName);
+      if (!buf) throw new Error(`No such buffer: ${bufferName}`);
+      if (!findWindow(state.windowTree, windowId)) throw new Error(`No such window: ${windowId}`);
+      if (windowId === state.selectedWindowId) {
+        setActiveBuffer(buf.id);
+      } else {
+        state.windowTree = updateWindow(state.windowTree, windowId, { bufferId: buf.id, point: buf.cursorPosition });
+      }
+      refresh();
+    },
+    windowList: () => listWindows(state.windowTree).map(w => w.id),
+    deleteWindow: (windowId: string) => deleteWindowCommand(windowId),
+    otherWindow: (count: number) => otherWindow(count),
+    globalMap: () => state.keymaps.global,
+    localMap: () => currentMajorMode().keymap,
+    minorModeMaps: () => minorModeKeymaps(),
+    keyBinding: (keys: string[]) => keyBinding(activeKeymaps(), keys),
+    commandp: (name: string) => lookupCommand(name) !== null,
+    callInteractively: (name: string) => callInteractively(name),
+    readFromMinibuffer: (prompt: string, options: ReadOptions) => readFromMinibuffer(prompt, options),
+    bufferNames: () => bufferNames(),
+    majorModes: () => state.modes,
+    currentMajorMode: () => state.buffers[currentBufferIndex()]?.majorMode || 'fundamental-mode',
+    setMajorMode: (name: string) => setMajorMode(name),
+    defineMajorMode: (mode: MajorMode) => {
+      state.modes[mode.name] = mode;
+    },
+    localHook: (name: string) => {
+      const buf = state.buffers[currentBufferIndex()];
+      return buf ? localHooks.get(buf.id)?.get(name) : undefined;
+    },
+    setLocalHook: (name: string, value: LispVal | null) => {
+      const buf = state.buffers[currentBufferIndex()];
+      if (!buf) return;
+      const hooks = localHooks.get(buf.id) || new Map<string, LispVal>();
+      if (value === null) hooks.delete(name);
+      else hooks.set(name, value);
+      localHooks.set(buf.id, hooks);
+    },
+    fontLockAddKeywords: (modeName: string, keywords, append: boolean) => {
+      const mode = state.modes[modeName];
+      mode.keywords = append ? [...mode.keywords, ...keywords] : [...keywords, ...mode.keywords];
+      // Refontify everything with the new rules
+      fontLock.clear();
+      refresh();
+    },
+  };
+
+  const lispEnv = createGlobalEnv(api);
+  installErt(lispEnv);
+  const aiProviders = { ...builtinAiProviders(), ...options.aiProviders };
+  installAi(lispEnv, aiProviders);
+
+  // --- Core Actions ---
+
+  // Show a message in the echo area until the next command, and log it to
+  // *Messages*. An empty message just clears the echo area.
+  const echo = (msg: string) => {
+    state.message = msg;
+    if (msg) logMessage(msg);
+    refresh();
+  };
+
+  // The number of lines *Messages* keeps: message-log-max, where nil means
+  // none and t no limit
+  const messageLogMax = (): number => {
+    try {
+      const max = lispEnv.get('message-log-max');
+      return max.type === 'NUMBER' ? max.value : isTrue(max) ? Infinity : 0;
+    } catch {
+      return 0;
+    }
+  };
+
+  // Append to *Messages*, recreating it if it was killed. Point at the end
+  // stays at the end.
+  const logMessage = (text: string) => {
+    const max = messageLogMax();
+    if (max <= 0) return;
+    let idx = state.buffers.findIndex(b => b.name === '*Messages*');
+    if (idx === -1) {
+      state.buffers.push({ id: 'messages', name: '*Messages*', content: '', cursorPosition: 0, ...modeFields('messages-buffer-mode'), isModified: false, readOnly: true });
+      idx = state.buffers.length - 1;
+    }
+    const buf = state.buffers[idx];
+    const content = appendMessage(buf.content, text, max);
+    const atEnd = buf.cursorPosition === buf.content.length;
+    state.buffers[idx] = { ...buf, content, cursorPosition: atEnd ? content.length : Math.min(buf.cursorPosition, content.length) };
+    // Logging is not a change for after-change-functions
+    if (seenContent.get(buf.id) === buf.content) seenContent.set(buf.id, content);
+    refresh();
+  };
+
+  const updateActiveBuffer = (updates: Partial<Buffer>) => {
+    const idx = state.buffers.findIndex(b => b.id === state.activeBufferId);
+    if (idx !== -1) {
+      state.buffers[idx] = { ...state.buffers[idx], ...updates };
+      refresh();
+    }
+  };
+
+  // Typed text arrives as the whole new textarea value; record it as a diff
+  const replaceActiveContent = (content: string, cursor: number) => {
+    const idx = state.buffers.findIndex(b => b.id === state.activeBufferId);
+    if (idx === -1) return;
+    const buf = state.buffers[idx];
+    const changes = diffContent(buf.content, content, cursor);
+    // Transient mark mode: typing deactivates the region
+    const updated = adjustMarkers({ ...buf, content, cursorPosition: cursor, isModified: true, markActive: false }, changes);
+    state.buffers[idx] = recordChanges(updated, changes, buf.cursorPosition, true);
+    if (changes.length > 0) queueHook(bufferChanged(buf.id, ...changeRange(changes)));
+    refresh();
+  };
+
+  // Seal the open change group of every buffer so each command undoes as one step
+  const undoBoundaryAll = () => {
+    state.buffers = state.buffers.map(undoBoundary);
+  };
+
+  // Start of a command loop iteration: undo boundary plus last-command bookkeeping.
+  // Keys that continue a prefix (C-x ...) belong to the command already started.
+  const beginCommand = () => {
+    undoBoundaryAll();
+    state.message = ''; // The echo area shows a message until the next key
+    // Lisp still running from an earlier command keeps its current buffer
+    if (lispEnv.evalState.depth === 0) lispBuffer = null;
+    if (state.editorMode === EditorMode.WAITING_FOR_CHORD) return;
+    state.lastCommand = state.thisCommand;
+    state.thisCommand = '';
+  };
+
+  // Undo the last change group of the current buffer, or with REDOING undo
+  // the last undo. Signals like the Lisp primitive; the commands echo.
+  const undoCurrentBuffer = (redoing = false) => {
+    const idx = currentBufferIndex();
+    if (idx === -1) return;
+    const buf = state.buffers[idx];
+    if (buf.readOnly && !isTrue(lispEnv.get('inhibit-read-only'))) {
+      throw new LispError('buffer-read-only', [mkSym(buf.name)]);
+    }
+    const reverted = (redoing ? redo : undo)(undoBoundary(buf));
+    if (!reverted) throw userError(`No further ${redoing ? 'redo' : 'undo'} information`);
+    state.buffers[idx] = reverted;
+    echo(redoing ? 'Redo' : 'Undo');
+  };
+
+  const undoCommand = (redoing: boolean) => {
+    try {
+      undoCurrentBuffer(redoing);
+    } catch (e) {
+      reportLispError(e);
+    }
+  };
+
+  // --- Mark, Region and Kill Ring ---
+
+  const setMarkCommand = () => {
+    const idx = state.buffers.findIndex(b => b.id === state.activeBufferId);
+    if (idx === -1) return;
+    const buf = state.buffers[idx];
+    state.thisCommand = 'set-mark-command';
+    if (state.lastCommand === 'set-mark-command' && buf.markActive) {
+      state.buffers[idx] = { ...buf, markActive: false };
+      echo("Mark deactivated");
+      return;
+    }
+    state.buffers[idx] = { ...buf, mark: buf.cursorPosition, markActive: true };
+    echo("Mark set");
+  };
+
+  const exchangePointAndMark = () => {
+    const idx = state.buffers.findIndex(b => b.id === state.activeBufferId);
+    if (idx === -1) return;
+    const buf = state.buffers[idx];
+    if (buf.mark === undefined || buf.mark === null) {
+      echo("No mark set in this buffer");
+      return;
+    }
+    state.buffers[idx] = { ...buf, mark: buf.cursorPosition, cursorPosition: buf.mark, markActive: true };
+    refresh();
+  };
+
+  // Kill text into the ring. Consecutive kills append to the same entry;
+  // killing backwards from point prepends, like Emacs' kill-append.
+  const killText = (start: number, end: number, command: string) => {
+    const idx = currentBufferIndex();
+    if (idx === -1) return;
+    const buf = state.buffers[idx];
+    const from = Math.max(0, Math.min(start, end));
+    const to = Math.min(buf.content.length, Math.max(start, end));
+    const text = buf.content.slice(from, to);
+    const appending = state.lastCommand === 'kill-region' || state.lastCommand === 'kill-line';
+
+    state.killRing = appending
+      ? killAppend(state.killRing, text, from < to && to === buf.cursorPosition)
+      : killNew(state.killRing, text);
+    state.thisCommand = command;
+
+    if (buf.readOnly) {
+      // Like kill-read-only-ok: the text is copied but the buffer is untouched
+      echo(`Buffer is read-only: ${buf.name}`);
+      return;
+    }
+    state.buffers[idx] = { ...deleteText(buf, from, to), markActive: false };
+    refresh();
+  };
+
+  const killRegionCommand = () => {
+    const buf = state.buffers.find(b => b.id === state.activeBufferId);
+    const region = buf && regionBounds(buf);
+    if (!region) {
+      echo("The mark is not set now, so there is no region");
+      return;
+    }
+    killText(region[0], region[1], 'kill-region');
+  };
+
+  const killRingSave = () => {
+    const idx = state.buffers.findIndex(b => b.id === state.activeBufferId);
+    if (idx === -1) return;
+    const region = regionBounds(state.buffers[idx]);
+    if (!region) {
+      echo("The mark is not set now, so there is no region");
+      return;
+    }
+    state.killRing = killNew(state.killRing, state.buffers[idx].content.slice(region[0], region[1]));
+    state.buffers[idx] = { ...state.buffers[idx], markActive: false };
+    state.thisCommand = 'kill-ring-save';
+    refresh();
+  };
+
+  const killLine = () => {
+    const buf = state.buffers.find(b => b.id === state.activeBufferId);
+    if (!buf) return;
+    if (buf.cursorPosition >= buf.content.length) {
+      echo("End of buffer");
+      return;
+    }
+    killText(buf.cursorPosition, killLineEnd(buf.content, buf.cursorPosition), 'kill-line');
+  };
+
+  // Insert the current kill, leaving the mark at its start (C-y)
+  const yank = () => {
+    const idx = currentBufferIndex();
+    if (idx === -1) return;
+    const buf = state.buffers[idx];
+    const text = currentKill(state.killRing);
+    if (text === null) {
+      echo("Kill ring is empty");
+      return;
+    }
+    if (buf.readOnly) {
+      echo(`Buffer is read-only: ${buf.name}`);
+      return;
+    }
+    const start = buf.cursorPosition;
+    state.buffers[idx] = insertText({ ...buf, mark: start, markActive: false }, start, text);
+    state.lastYank = { bufferId: buf.id, start, end: start + text.length };
+    state.thisCommand = 'yank';
+    refresh();
+  };
+
+  // Replace the just-yanked text with the next older kill (M-y)
+  const yankPop = () => {
+    const idx = state.buffers.findIndex(b => b.id === state.activeBufferId);
+    const lastYank = state.lastYank;
+    if (idx === -1 || !lastYank || lastYank.bufferId !== state.activeBufferId ||
+        (state.lastCommand !== 'yank' && state.lastCommand !== 'yank-pop')) {
+      echo("Previous command was not a yank");
+      return;
+    }
+    state.killRing = rotateKillRing(state.killRing, 1);
+    const text = currentKill(state.killRing)!;
+    const removed = deleteText(state.buffers[idx], lastYank.start, lastYank.end);
+    state.buffers[idx] = insertText({ ...removed, cursorPosition: lastYank.start, mark: lastYank.start }, lastYank.start, text);
+    state.lastYank = { ...lastYank, end: lastYank.start + text.length };
+    state.thisCommand = 'yank-pop';
+    refresh();
+  };
+
+  // --- Windows ---
+
+  // Show a buffer in the selected window and make it current
+  const setActiveBuffer = (bufferId: string) => {
+    const buf = state.buffers.find(b => b.id === bufferId);
+    state.activeBufferId = bufferId;
+    lispBuffer = null;
+    state.windowTree = updateWindow(state.windowTree, state.selectedWindowId, { bufferId, point: buf ? buf.cursorPosition : 0 });
+  };
+
+  // Windows showing a killed buffer switch to another one
+  const replaceBufferInWindows = (killedId: string, replacementId: string) => {
+    const replacement = state.buffers.find(b => b.id === replacementId);
+    state.windowTree = mapWindows(state.windowTree, w => w.bufferId === killedId
+      ? { ...w, bufferId: replacementId, point: replacement ? replacement.cursorPosition : 0 }
+      : w);
+    if (state.activeBufferId === killedId) state.activeBufferId = replacementId;
+  };
+
+  const selectWindow = (windowId: string) => {
+    if (windowId === state.selectedWindowId) return;
+    const target = findWindow(state.windowTree, windowId);
+    if (!target) return;
+
+    // Point belongs to the window we leave; the new window restores its own
+    const current = state.buffers.find(b => b.id === state.activeBufferId);
+    state.windowTree = updateWindow(state.windowTree, state.selectedWindowId, { point: current ? current.cursorPosition : 0 });
+    state.selectedWindowId = windowId;
+    state.activeBufferId = target.bufferId;
+    const idx = state.buffers.findIndex(b => b.id === target.bufferId);
+    if (idx !== -1) {
+      state.buffers[idx] = { ...state.buffers[idx], cursorPosition: Math.min(target.point, state.buffers[idx].content.length) };
+    }
+    refresh();
+  };
+
+  // Returns the new window's id
+  const splitWindowCommand = (direction: SplitDirection, windowId: string = state.selectedWindowId): string => {
+    const current = state.buffers.find(b => b.id === state.activeBufferId);
+    const tree = updateWindow(state.windowTree, state.selectedWindowId, { point: current ? current.cursorPosition : 0 });
+    const newId = nextWindowId(tree);
+    state.windowTree = splitWindow(tree, windowId, direction, newId);
+    refresh();
+    return newId;
+  };
+
+  const otherWindow = (count: number = 1) => {
+    const windows = listWindows(state.windowTree);
+    const idx = windows.findIndex(w => w.id === state.selectedWindowId);
+    const next = windows[(((idx + count) % windows.length) + windows.length) % windows.length];
+    selectWindow(next.id);
+  };
+
+  const deleteWindowCommand = (windowId: string = state.selectedWindowId) => {
+    if (listWindows(state.windowTree).length <= 1) {
+      echo("Attempt to delete minibuffer or sole ordinary window");
+      return;
+    }
+    if (windowId === state.selectedWindowId) otherWindow(1);
+    state.windowTree = deleteWindow(state.windowTree, windowId)!;
+    refresh();
+  };
+
+  const deleteOtherWindows = () => {
+    const current = state.buffers.find(b => b.id === state.activeBufferId);
+    const selected = findWindow(state.windowTree, state.selectedWindowId)!;
+    state.windowTree = { ...selected, point: current ? current.cursorPosition : 0 };
+    refresh();
+  };
+
+  const balanceWindowsCommand = () => {
+    state.windowTree = balanceWindows(state.windowTree);
+    refresh();
+  };
+
+  const enlargeWindowCommand = (delta: number, direction: SplitDirection) => {
+    state.windowTree = enlargeWindow(state.windowTree, state.selectedWindowId, delta, direction);
+    refresh();
+  };
+
+  const switchBuffer = (bufferId: string) => {
+    setActiveBuffer(bufferId);
+    echo(`Switched to buffer ${bufferId}`);
+    state.editorMode = EditorMode.NORMAL;
+    state.minibuffer = { type: MinibufferType.NONE, prompt: '', input: '' };
+    refresh();
+  };
+
+  const createBuffer = (name: string) => {
+    const existing = state.buffers.find(b => b.name === name);
+    if (existing) {
+      switchBuffer(existing.id);
+      return;
+    }
+    const newBuffer: Buffer = {
+      id: name,
+      name: name,
+      content: '',
+      cursorPosition: 0,
+      ...modeFields('fundamental-mode'),
+      isModified: false,
+    };
+    state.buffers.push(newBuffer);
+    setActiveBuffer(newBuffer.id);
+    state.editorMode = EditorMode.NORMAL;
+    echo('(New file)');
+    state.minibuffer = { type: MinibufferType.NONE, prompt: '', input: '' };
+    refresh();
+  };
+
+  // --- Files ---
+
+  // Relative file names resolve against the visited file's directory
+  const defaultDirectory = (): string => {
+    const buf = state.buffers.find(b => b.id === state.activeBufferId);
+    return buf && buf.filePath ? fileNameDirectory(buf.filePath) : HOME_DIRECTORY;
+  };
+
+  // Prompt options for reading a file name, starting in the default directory
+  const fileNameOptions = (): ReadOptions => ({
+    initialInput: abbreviateFileName(defaultDirectory()) + '/',
+    completions: fileCompletions,
+    history: 'file-name-history',
+  });
+
+  // Emacs-style "name<2>" when the name is already taken
+  const uniqueBufferName = (name: string): string => {
+    const taken = new Set(state.buffers.map(b => b.name));
+    if (!taken.has(name)) return name;
+    let n = 2;
+    while (taken.has(`${name}<${n}>`)) n++;
+    return `${name}<${n}>`;
+  };
+
+  const findFile = async (name: string): Promise<Buffer | null> => {
+    const path = expandFileName(name, defaultDirectory());
+
+    const visiting = state.buffers.find(b => b.filePath === path);
+    if (visiting) {
+      switchBuffer(visiting.id);
+      return visiting;
+    }
+    if (fs.isDirectory(path)) {
+      echo(`${abbreviateFileName(path)} is a directory`);
+      return null;
+    }
+
+    const entry = fs.stat(path);
+    const bufferName = uniqueBufferName(fileNameNondirectory(path) || path);
+    const newBuffer: Buffer = {
+      id: bufferName,
+      name: bufferName,
+      content: entry ? entry.content : '',
+      cursorPosition: 0,
+      ...modeFields('fundamental-mode'),
+      isModified: false,
+      filePath: path,
+      fileMtime: entry ? entry.mtime : undefined,
+    };
+    state.buffers.push(newBuffer);
+    setActiveBuffer(newBuffer.id);
+    state.editorMode = EditorMode.NORMAL;
+    echo(entry ? '' : '(New file)');
+    state.minibuffer = { type: MinibufferType.NONE, prompt: '', input: '' };
+    refresh();
+    try {
+      await setMajorMode(autoMode(path));
+    } catch (e) {
+      reportLispError(e);
+    }
+    await runHookIn(newBuffer.id, 'find-file-hook');
+    return newBuffer;
+  };
+
+  const writeBufferToFile = async (bufferId: string, path: string) => {
+    await runHookIn(bufferId, 'before-save-hook');
+    const idx = state.buffers.findIndex(b => b.id === bufferId);
+    if (idx === -1) return;
+    try {
+      const entry = fs.writeFile(path, state.buffers[idx].content);
+      state.buffers[idx] = { ...state.buffers[idx], filePath: path, fileMtime: entry.mtime, isModified: false };
+      echo(`Wrote ${abbreviateFileName(path)}`);
+    } catch (e) {
+      echo((e as Error).message);
+      return;
+    }
+    await runHookIn(bufferId, 'after-save-hook');
+  };
+
+  const saveBuffer = async () => {
+    const buf = state.buffers.find(b => b.id === state.activeBufferId);
+    if (!buf) return;
+    if (!buf.filePath) {
+      startMinibuffer(MinibufferType.WRITE_FILE, 'File to save in: ', fileNameOptions());
+      return;
+    }
+    if (!buf.isModified) {
+      echo("(No changes need to be saved)");
+      return;
+    }
+    const path = buf.filePath;
+    const onDisk = fs.stat(path);
+    if (onDisk && buf.fileMtime !== undefined && onDisk.mtime > buf.fileMtime) {
+      yOrNPrompt(`${buf.name} has changed since visited or saved.  Save anyway? (y or n) `,
+        () => track(writeBufferToFile(buf.id, path)));
+      return;
+    }
+    await writeBufferToFile(buf.id, path);
+  };
+
+  // C-x C-w: visit a new file name and save there
+  const writeFile = async (name: string) => {
+    const idx = state.buffers.findIndex(b => b.id === state.activeBufferId);
+    if (idx === -1) return;
+    const buf = state.buffers[idx];
+    let path = expandFileName(name, defaultDirectory());
+    if (fs.isDirectory(path)) path = `${path}/${buf.name}`;
+
+    const others = state.buffers.filter(b => b.id !== buf.id);
+    const baseName = fileNameNondirectory(path);
+    const newName = others.some(b => b.name === baseName) ? uniqueBufferName(baseName) : baseName;
+    state.buffers[idx] = { ...buf, name: newName };
+    await writeBufferToFile(buf.id, path);
+    // A new file name may call for another mode, e.g. *scratch* written to foo.md
+    const mode = autoMode(path);
+    if (mode !== 'fundamental-mode' && mode !== buf.majorMode) setMajorMode(mode).catch(reportLispError);
+  };
+
+  const revertBuffer = () => {
+    const buf = state.buffers.find(b => b.id === state.activeBufferId);
+    if (!buf) return;
+    const path = buf.filePath;
+    if (!path || !fs.exists(path)) {
+      echo("Buffer does not seem to be associated with any file");
+      return;
+    }
+    yOrNPrompt(`Revert buffer from file ${abbreviateFileName(path)}? (y or n) `, () => {
+      const idx = state.buffers.findIndex(b => b.id === buf.id);
+      if (idx === -1) return;
+      const entry = fs.stat(path)!;
+      state.buffers[idx] = {
+        ...replaceContent(state.buffers[idx], entry.content),
+        isModified: false,
+        fileMtime: entry.mtime,
+      };
+      echo(`Reverted ${abbreviateFileName(path)}`);
+    });
+  };
+
+  // Called after re-reading storage: warn about buffers whose file was rewritten elsewhere
+  const checkFilesOnDisk = () => {
+    const changed = state.buffers.filter(b => {
+      if (!b.filePath || b.fileMtime === undefined) return false;
+      const entry = fs.stat(b.filePath);
+      return entry !== null && entry.mtime > b.fileMtime;
+    });
+    if (changed.length > 0) {
+      echo(`File ${changed.map(b => b.name).join(', ')} changed on disk; M-x revert-buffer to reload`);
+    }
+  };
+
+  const killBuffer = async () => {
+    if (state.buffers.length <= 1) {
+      echo("Cannot kill the last buffer");
+      return;
+    }
+    const killedId = state.activeBufferId;
+    await runHookIn(killedId, 'kill-buffer-hook');
+    const idx = state.buffers.findIndex(b => b.id === killedId);
+    if (idx === -1 || state.buffers.length <= 1) return;
+    const nextBuffer = state.buffers[idx === 0 ? 1 : idx - 1];
+
+    state.buffers = state.buffers.filter(b => b.id !== killedId);
+    localHooks.delete(killedId);
+    replaceBufferInWindows(killedId, nextBuffer.id);
+    echo(`Killed buffer`);
+    state.editorMode = EditorMode.NORMAL;
+    state.chordStack = '';
+    refresh();
+  };
+
+  // --- Logic ---
+
+  const evalLastSexp = async () => {
+    const buf = state.buffers.find(b => b.id === state.activeBufferId)!;
+    const sexp = findLastSexp(buf.content, buf.cursorPosition);
+    if (sexp) {
+      await evalSexp(sexp);
+    } else {
+      echo("End of file or no sexp found");
+    }
+  };
+
+  // Errors that reach the command loop go to the echo area. With
+  // debug-on-error set they also pop up *Backtrace*, except quits and
+  // user errors.
+  const reportLispError = (e: unknown) => {
+    const err = toLispError(e);
+    const conditions = errorConditions(err.symbol);
+    if (!conditions.includes('quit') && !conditions.includes('user-error') && debugOnError()) {
+      showOutputBuffer('*Backtrace*', formatBacktrace(err), 'debugger-mode');
+    }
+    echo(err.message);
+  };
+
+  const debugOnError = (): boolean => {
+    try {
+      return isTrue(lispEnv.get('debug-on-error'));
+    } catch {
+      return false;
+    }
+  };
+
+  const evalSexp = async (code: string) => {
+    try {
+      const ast = parse(code);
+      const result = await evalLisp(ast, lispEnv);
+      undoBoundaryAll();
+      echo(printLisp(result));
+    } catch (e) {
+      reportLispError(e);
+    }
+  };
+
+  // Show text in a read-only buffer such as *Help*, replacing its old contents
+  const showOutputBuffer = (name: string, content: string, modeName: string) => {
+    const existing = state.buffers.find(b => b.id === name);
+    if (existing) {
+      existing.content = content;
+      existing.cursorPosition = 0;
+      existing.undoList = [];
+      existing.redoList = [];
+    } else {
+      const newBuf: Buffer = {
+        id: name,
+        name,
+        content,
+        cursorPosition: 0,
+        ...modeFields(modeName),
+        isModified: false,
+        readOnly: true
+      };
+      state.buffers.push(newBuf);
+    }
+    switchBuffer(name);
+    setMajorMode(modeName).catch(reportLispError);
+  };
+
+  // --- AI ---
+
+  // Configuration problems are user errors; a failed request shows the
+  // provider's message
+  const reportAiError = (label: string, e: unknown) => {
+    if (e instanceof LispError) reportLispError(e);
+    else echo(`${label} error: ${(e as Error).message}`);
+  };
+
+  // The request whose response is streaming in, if any; C-g aborts it
+  let aiRequest: AbortController | null = null;
+
+  // Insert the model's answer at point as it streams in. Editing goes on
+  // meanwhile: the answer stays where point was and undoes as one change.
+  const aiAsk = async (prompt: string) => {
+    const idx = state.buffers.findIndex(b => b.id === state.activeBufferId);
+    if (idx === -1) return;
+    const { provider, request } = aiSettings(lispEnv, aiProviders);
+    aiRequest?.abort();
+    const controller = new AbortController();
+    aiRequest = controller;
+    const bufferId = state.buffers[idx].id;
+    const markerId = `ai-${markerCount++}`;
+    const start = state.buffers[idx].cursorPosition;
+    state.buffers[idx] = setMarker(undoBoundary(state.buffers[idx]), markerId, start);
+    const undoFrom = state.buffers[idx].undoList?.length || 0;
+    let text = '';
+
+    // Change the buffer unless it was killed meanwhile
+    const update = (change: (buf: Buffer) => Buffer): boolean => {
+      const i = state.buffers.findIndex(b => b.id === bufferId);
+      if (i !== -1) state.buffers[i] = change(state.buffers[i]);
+      refresh();
+      return i !== -1;
+    };
+
+    update(buf => ({ ...buf, progress: `${provider.label}: waiting` }));
+    echo(`${provider.label} is thinking... (C-g to cancel)`);
+    try {
+      for await (const chunk of provider.stream(prompt, { ...request, signal: controller.signal })) {
+        if (controller.signal.aborted) break;
+        text += chunk;
+        if (!update(buf => ({ ...insertStreamed(buf, markerId, chunk, undoFrom), progress: `${provider.label}: ${text.length} chars` }))) {
+          controller.abort();
+          break;
+        }
+      }
+      if (!controller.signal.aborted) echo(`${provider.label} response inserted.`);
+    } catch (e) {
+      if (!controller.signal.aborted) reportAiError(provider.label, e);
+    } finally {
+      if (aiRequest === controller) aiRequest = null;
+      update(buf => ({
+        ...setMarker(recordChangeAt(buf, undoFrom, { kind: 'insert', pos: start, text }), markerId, null),
+        progress: undefined,
+      }));
+    }
+  };
+
+  const aiExplainCode = async () => {
+    const buf = state.buffers.find(b => b.id === state.activeBufferId);
+    if (!buf) return;
+    const { provider, request } = aiSettings(lispEnv, aiProviders);
+    echo(`${provider.label} is thinking...`);
+    try {
+      const explanation = await provider.generate(explainCodePrompt(buf.content), request);
+      showOutputBuffer('*AI-Explain*', explanation, 'markdown-mode');
+    } catch (e) {
+      reportAiError(provider.label, e);
+    }
+  };
+
+  // Read PROVIDER:MODEL, or just a provider or a model of the current one,
+  // and set ai-provider and ai-model to it
+  const aiSelectModel = async () => {
+    const vars = lispEnv.global().vars;
+    const choices = Object.entries(aiProviders).flatMap(([name, provider]) => provider.models.map(model => `${name}:${model}`));
+    let current: string | undefined;
+    try {
+      const { name, request } = aiSettings(lispEnv, aiProviders);
+      current = `${name}:${request.model}`;
+    } catch {
+      // ai-provider is unset or unknown; there is no default
+    }
+    const input = await readFromMinibuffer('AI model: ', { default: current, history: 'ai-model-history', completions: () => choices });
+    const colon = input.indexOf(':');
+    const [name, model] = aiProviders[input] ? [input, '']
+      : colon !== -1 ? [input.slice(0, colon), input.slice(colon + 1)]
+      : [current?.slice(0, current.indexOf(':')) || '', input];
+    const provider = aiProviders[name];
+    if (!provider) throw userError(`Unknown AI provider ${name || 'nil'}; choose one of ${Object.keys(aiProviders).join(', ')}`);
+    vars.set('ai-provider', mkSym(name));
+    vars.set('ai-model', model ? mkStr(model) : mkNull());
+    echo(`AI model set to ${name}:${model || provider.models[0]}`);
+  };
+
+  // --- Major Modes ---
+
+  const currentMajorMode = (): MajorMode => {
+    const buf = state.buffers.find(b => b.id === state.activeBufferId);
+    return (buf && state.modes[buf.majorMode]) || state.modes['fundamental-mode'];
+  };
+
+  // Mode fields for a new buffer; setMajorMode runs the mode's setup afterwards
+  const modeFields = (name: string): Pick<Buffer, 'majorMode' | 'mode'> => {
+    const mode = state.modes[name];
+    return { majorMode: name, mode: mode ? mode.modeName : name };
+  };
+
+  // The mode auto-mode-alist picks for a file name
+  const autoMode = (path: string): string => {
+    let alist: [string, string][] = [];
+    try {
+      // Entries are (REGEXP . MODE); the older (REGEXP MODE) form works too
+      alist = listElements(lispEnv.get('auto-mode-alist'))
+        .filter(e => e.type === 'CONS' && e.car!.type === 'STRING')
+        .map(e => [e.car!.value, e.cdr!.type === 'CONS' ? e.cdr!.car!.name! : e.cdr!.name!]);
+    } catch {
+      // auto-mode-alist was unbound or not a list
+    }
+    const mode = modeForFileName(alist, path);
+    return mode && state.modes[mode] ? mode : 'fundamental-mode';
+  };
+
+  // Call each function of a hook in the current buffer. A failing function
+  // is logged and stops neither the rest nor the command that ran the hook.
+  const runHook = async (name: string, args: LispVal[] = []) => {
+    const env = lispEnv;
+    for (const fn of hookFunctions(env, name)) {
+      try {
+        await callFunction(fn, args, env);
+      } catch (e) {
+        echo(`Error in ${name} (${printLisp(fn)}): ${toLispError(e).message}`);
+      }
+    }
+  };
+
+  // Run a hook with another buffer current for Lisp, e.g. the one being saved
+  const runHookIn = async (bufferId: string, name: string, args: LispVal[] = []) => {
+    const saved = lispBuffer;
+    lispBuffer = bufferId;
+    try {
+      await runHook(name, args);
+    } finally {
+      lispBuffer = saved;
+    }
+  };
+
+  // Call after-change-functions for a change: the start and end of the new
+  // text and the length of the text it replaced. They run with
+  // inhibit-modification-hooks bound to t, so their own changes are not reported.
+  const runAfterChange = async (bufferId: string, start: number, end: number, oldLength: number) => {
+    const vars = lispEnv.global().vars;
+    const inhibit = vars.get('inhibit-modification-hooks') || mkNull();
+    if (isTrue(inhibit)) return;
+    vars.set('inhibit-modification-hooks', mkBool(true));
+    try {
+      await runHookIn(bufferId, 'after-change-functions', [mkNum(start), mkNum(end), mkNum(oldLength)]);
+    } finally {
+      vars.set('inhibit-modification-hooks', inhibit);
+    }
+  };
+
+  // The start, end and old length of the text a diff replaced
+  const changeRange = (changes: UndoChange[]): [number, number, number] => {
+    const start = changes[0].pos;
+    const oldLength = changes.find(c => c.kind === 'delete')?.text.length || 0;
+    const newLength = changes.find(c => c.kind === 'insert')?.text.length || 0;
+    return [start, start + newLength, oldLength];
+  };
+
+  // Call after-change-functions for each buffer changed since they last saw
+  // it by a command that did not report its changes
+  const runChangeHooks = async () => {
+    changeHooksQueued = false;
+    for (const id of seenContent.keys()) {
+      if (!state.buffers.some(b => b.id === id)) seenContent.delete(id);
+    }
+    for (const buf of [...state.buffers]) {
+      const before = seenContent.get(buf.id);
+      if (before === buf.content) continue;
+      seenContent.set(buf.id, buf.content);
+      // A new buffer's text is not a change
+      if (before === undefined) continue;
+      const changes = diffContent(before, buf.content);
+      if (changes.length === 0) continue;
+      await runAfterChange(buf.id, ...changeRange(changes));
+    }
+    for (const buf of state.buffers) seenContent.set(buf.id, buf.content);
+  };
+
+  // A command the user invoked runs after the hooks already queued, between
+  // pre-command-hook and post-command-hook. One that reads from the
+  // minibuffer finishes when the input is given.
+  let commandReading = false;
+  const finishCommand = async () => {
+    commandReading = state.minibuffer.type !== MinibufferType.NONE;
+    if (commandReading) return;
+    await runChangeHooks();
+    await runHook('post-command-hook');
+  };
+
+  const runCommandWithHooks = (name: string): Promise<void> => {
+    queueHook(async () => {
+      // Searches end without a minibuffer exit of their own
+      if (commandReading) await finishCommand();
+      await runHook('pre-command-hook');
+      await executeCommand(name);
+      await finishCommand();
+    });
+    return hookWork;
+  };
+
+  // The minibuffer was exited or quit, finishing the command that read from
+  // it. M-x first runs the command it read as part of its own.
+  const exitCommandMinibuffer = (run?: () => Promise<void>): Promise<void> => {
+    queueHook(async () => {
+      if (run) await run();
+      if (commandReading) await finishCommand();
+    });
+    return hookWork;
+  };
+
+  // Switch the current buffer to a major mode, then run the setup of each
+  // mode it derives from and their hooks, most basic first
+  const setMajorMode = async (name: string) => {
+    const chain = modeChain(state.modes, name);
+    if (chain.length === 0) throw new LispError('void-function', [mkSym(name)]);
+    const mode = chain[chain.length - 1];
+    const buf = state.buffers.find(b => b.id === state.activeBufferId);
+    updateActiveBuffer({ majorMode: name, mode: mode.modeName, readOnly: mode.readOnly || buf?.readOnly });
+    for (const m of chain) {
+      if (m.setup) await m.setup();
+    }
+    for (const m of chain) await runHook(`${m.name}-hook`);
+    refresh();
+  };
+
+  // Reindent the current line as the major mode says; point in the
+  // indentation moves to its end
+  const indentForTab = () => {
+    const idx = state.buffers.findIndex(b => b.id === state.activeBufferId);
+    if (idx === -1) return;
+    const buf = state.buffers[idx];
+    if (buf.readOnly) {
+      echo(`Buffer is read-only: ${buf.name}`);
+      return;
+    }
+    const mode = currentMajorMode();
+    const start = lineStartAt(buf.content, buf.cursorPosition);
+    const end = indentationEnd(buf.content, start);
+    const column = mode.indent(buf.content, start, mode.syntaxTable);
+
+    let updated = buf;
+    if (buf.content.slice(start, end) !== ' '.repeat(column)) {
+      updated = insertText(deleteText(buf, start, end), start, ' '.repeat(column));
+    }
+    if (updated.cursorPosition < start + column) updated = { ...updated, cursorPosition: start + column };
+    state.buffers[idx] = updated;
+    refresh();
+  };
+
+  // Toggle comments on the lines of the region, or on the current line and
+  // move to the next one
+  const commentLine = () => {
+    const idx = state.buffers.findIndex(b => b.id === state.activeBufferId);
+    if (idx === -1) return;
+    const buf = state.buffers[idx];
+    const mode = currentMajorMode();
+    if (buf.readOnly) {
+      echo(`Buffer is read-only: ${buf.name}`);
+      return;
+    }
+    if (!mode.commentStart) {
+      echo("No comment syntax is defined");
+      return;
+    }
+    const region = buf.markActive ? regionBounds(buf) : null;
+    const [start, end] = region || [buf.cursorPosition, buf.cursorPosition];
+    const updated = replaceContent(buf, toggleComment(buf.content, start, end, mode));
+    if (region) {
+      state.buffers[idx] = { ...updated, markActive: false };
+    } else {
+      const lineEnd = lineEndAt(updated.content, lineStartAt(updated.content, updated.cursorPosition));
+      state.buffers[idx] = { ...updated, cursorPosition: Math.min(lineEnd + 1, updated.content.length) };
+    }
+    refresh();
+  };
+
+  // Evaluate the sexp before point and insert its value on the next line
+  const evalPrintLastSexp = async () => {
+    const buf = state.buffers.find(b => b.id === state.activeBufferId)!;
+    const sexp = findLastSexp(buf.content, buf.cursorPosition);
+    if (!sexp) {
+      echo("End of file or no sexp found");
+      return;
+    }
+    try {
+      const result = await evalLisp(parse(sexp), lispEnv);
+      await api.insert(`\n${printLisp(result)}\n`);
+      undoBoundaryAll();
+    } catch (e) {
+      reportLispError(e);
+    }
+  };
+
+  // Evaluate each top-level form in turn (eval-buffer, eval-region)
+  const evalText = async (code: string) => {
+    try {
+      await evalForms(code, lispEnv);
+      undoBoundaryAll();
+    } catch (e) {
+      reportLispError(e);
+    }
+  };
+
+  const evalRegion = async () => {
+    const buf = state.buffers.find(b => b.id === state.activeBufferId)!;
+    const region = regionBounds(buf);
+    if (!region) {
+      echo("The mark is not set now, so there is no region");
+      return;
+    }
+    await evalText(buf.content.slice(region[0], region[1]));
+  };
+
+  // Evaluate the user's init file once storage has loaded. An error stops
+  // the rest of the file but not startup, and is logged to *Messages*.
+  let initFileLoaded = false;
+  const loadInitFile = async () => {
+    if (initFileLoaded) return;
+    initFileLoaded = true;
+    const path = INIT_FILE_NAMES.map(name => expandFileName(name)).find(p => fs.exists(p) && !fs.isDirectory(p));
+    if (!path) return;
+    const env = lispEnv;
+    env.set('user-init-file', mkStr(path));
+    try {
+      await evalForms(fs.readFile(path), env);
+    } catch (e) {
+      logMessage(`Error loading ${abbreviateFileName(path)}: ${toLispError(e).message}`);
+      echo(`Error in init file ${abbreviateFileName(path)}; see *Messages*`);
+    }
+  };
+
+  // --- IELM ---
+
+  let ielmScope: LispEnv | null = null;
+  // Position in the input history during M-p / M-n, -1 for the new input
+  let ielmHistoryPosition = { index: -1, draft: '' };
+
+  // Show *ielm*, starting it with a banner and a prompt the first time
+  const ielm = async () => {
+    if (!ielmScope) ielmScope = createIelmScope(lispEnv);
+    const existing = state.buffers.find(b => b.name === IELM_BUFFER);
+    if (existing) {
+      switchBuffer(existing.id);
+      return;
+    }
+    const content = IELM_BANNER + IELM_PROMPT;
+    state.buffers.push({
+      id: IELM_BUFFER,
+      name: IELM_BUFFER,
+      content,
+      cursorPosition: content.length,
+      ...modeFields('inferior-emacs-lisp-mode'),
+      isModified: false,
+      markers: { [IELM_INPUT_MARKER]: content.length },
+    });
+    switchBuffer(IELM_BUFFER);
+    await setMajorMode('inferior-emacs-lisp-mode');
+  };
+
+  // RET: evaluate the input once it is complete, else continue it on a new line
+  const ielmReturn = async () => {
+    const buf = state.buffers.find(b => b.id === state.activeBufferId)!;
+    const inputStart = buf.markers?.[IELM_INPUT_MARKER];
+    const input = inputStart === undefined ? '' : buf.content.slice(inputStart);
+    if (inputStart === undefined || buf.cursorPosition < inputStart || !inputComplete(input)) {
+      updateActiveBuffer(insertText(buf, buf.cursorPosition, '\n'));
+      return;
+    }
+    ielmHistoryPosition = { index: -1, draft: '' };
+    if (input.trim()) state.history[IELM_HISTORY] = addToHistory(state.history[IELM_HISTORY] || [], input.trim());
+    const output = input.trim() ? await ielmEval(input, ielmScope!) : null;
+    // The buffer may have changed while the input was evaluated
+    const idx = state.buffers.findIndex(b => b.id === buf.id);
+    if (idx === -1) return;
+    const current = state.buffers[idx];
+    const text = `\n${output === null ? '' : output + '\n'}${IELM_PROMPT}`;
+    const updated = insertText(current, current.content.length, text);
+    state.buffers[idx] = setMarker({ ...updated, cursorPosition: updated.content.length }, IELM_INPUT_MARKER, updated.content.length);
+    undoBoundaryAll();
+    refresh();
+  };
+
+  // M-p (delta 1) and M-n (delta -1): replace the input with an older or newer one
+  const ielmHistory = (delta: number) => {
+    const buf = state.buffers.find(b => b.id === state.activeBufferId)!;
+    const inputStart = buf.markers?.[IELM_INPUT_MARKER];
+    if (inputStart === undefined) return;
+    const list = state.history[IELM_HISTORY] || [];
+    const browsing = state.lastCommand === 'comint-previous-input' || state.lastCommand === 'comint-next-input';
+    const history = browsing ? ielmHistoryPosition : { index: -1, draft: '' };
+    const next = history.index + delta;
+    if (next >= list.length) {
+      echo("Beginning of history; no preceding item");
+      return;
+    }
+    if (next < -1) {
+      echo("End of history; no next item");
+      return;
+    }
+    if (history.index === -1) history.draft = buf.content.slice(inputStart);
+    ielmHistoryPosition = { index: next, draft: history.draft };
+    const replaced = insertText(deleteText(buf, inputStart, buf.content.length), inputStart, next === -1 ? history.draft : list[next]);
+    updateActiveBuffer({ ...replaced, cursorPosition: replaced.content.length });
+  };
+
+  // --- ERT ---
+
+  // The run shown in *ert*, for the re-run keys
+  let ertRun: ErtRun | null = null;
+
+  // Update *ert* as a run progresses, showing it when the run starts
+  const showErtResults = (run: ErtRun) => {
+    ertRun = run;
+    const existing = state.buffers.find(b => b.id === ERT_BUFFER);
+    if (run.completed === 0 || !existing) {
+      showOutputBuffer(ERT_BUFFER, formatErtResults(run), 'ert-results-mode');
+      return;
+    }
+    existing.content = formatErtResults(run);
+    existing.cursorPosition = Math.min(existing.cursorPosition, existing.content.length);
+    refresh();
+  };
+
+  const ert = async (selector: LispVal) => {
+    try {
+      await runErtTests(selector, lispEnv, showErtResults);
+    } catch (e) {
+      reportLispError(e);
+    }
+  };
+
+  const ertTestAtPoint = (): ErtTest | undefined => {
+    const buf = state.buffers.find(b => b.id === state.activeBufferId)!;
+    if (!ertRun || buf.id !== ERT_BUFFER) return undefined;
+    return ertTestAt(ertRun, buf.content, buf.cursorPosition);
+  };
+
+  // r: run the test at point again, with its current definition
+  const ertRerunTestAtPoint = async () => {
+    const test = ertTestAtPoint();
+    if (!test) {
+      echo("No test at point");
+      return;
+    }
+    const run = ertRun!;
+    const current = ertTest(lispEnv, test.name);
+    if (!current) {
+      echo(`Test ${test.name} is no longer defined`);
+      return;
+    }
+    run.tests = run.tests.map(t => (t === test ? current : t));
+    try {
+      await runErtTest(current, lispEnv);
+    } catch (e) {
+      reportLispError(e);
+    }
+    showErtResults(run);
+  };
+
+  // n and p: move to the next or previous test entry
+  const ertMoveToTest = (delta: 1 | -1) => {
+    const buf = state.buffers.find(b => b.id === state.activeBufferId)!;
+    const positions = ertEntryPositions(buf.content);
+    const lineStart = lineStartAt(buf.content, buf.cursorPosition);
+    const target = delta > 0 ? positions.find(p => p > lineStart) : positions.reverse().find(p => p < lineStart);
+    if (target === undefined) {
+      echo(delta > 0 ? "No tests below" : "No tests above");
+      return;
+    }
+    updateActiveBuffer({ cursorPosition: target });
+  };
+
+  const ertBacktrace = () => {
+    const test = ertTestAtPoint();
+    if (!test) {
+      echo("No test at point");
+      return;
+    }
+    const condition = test.result?.condition;
+    if (!condition || !condition.backtrace) {
+      echo(`Test ${test.name} has no backtrace`);
+      return;
+    }
+    showOutputBuffer('*Backtrace*', formatBacktrace(condition), 'debugger-mode');
+  };
+
+  // q in special-mode buffers: show another buffer in the selected window
+  const quitWindow = () => {
+    const other = state.buffers.find(b => b.name === otherBufferName());
+    if (!other) return;
+    setActiveBuffer(other.id);
+    refresh();
+  };
+
+  // --- Commands ---
+
+  // Built-in commands with their default bindings. Lisp defuns with an
+  // (interactive ...) form are looked up alongside these.
+  const builtinCommands: Command[] = [
+    // Help and Lisp
+    { name: 'execute-extended-command', docstring: "Read a command name in the minibuffer and call it.", keys: ['M-x'],
+      execute: arg => {
+        startMinibuffer(MinibufferType.COMMAND, arg ? `${describePrefixArg(arg).slice(0, -1)} M-x ` : 'M-x ', {
+          completions: commandNames,
+          requireMatch: true,
+          history: 'extended-command-history',
+        });
+        state.prefixArg = arg; // Passed on to the command read
+      } },
+    { name: 'eval-expression', docstring: "Read a Lisp expression in the minibuffer, evaluate it and show the value.", keys: ['M-:'],
+      execute: () => startMinibuffer(MinibufferType.EVAL, 'Eval: ', { history: 'read-expression-history' }) },
+    { name: 'eval-last-sexp', docstring: "Evaluate the sexp before point and show the value in the echo area.", keys: ['C-x C-e'],
+      execute: () => evalLastSexp() },
+    { name: 'eval-print-last-sexp', docstring: "Evaluate the sexp before point and insert its value on the next line.",
+      execute: () => evalPrintLastSexp() },
+    { name: 'ielm', docstring: "Interactively evaluate Emacs Lisp expressions in the *ielm* buffer.",
+      execute: () => ielm() },
+    { name: 'ielm-return', docstring: "Evaluate the input if it is a complete expression, else insert a newline.",
+      execute: () => ielmReturn() },
+    { name: 'comint-previous-input', docstring: "Replace the input with the previous one from the history.",
+      execute: () => ielmHistory(1) },
+    { name: 'comint-next-input', docstring: "Replace the input with the next one from the history.",
+      execute: () => ielmHistory(-1) },
+    { name: 'ert', docstring: "Run the ERT tests a selector chooses and show the results in the *ert* buffer.\nThe selector is read as Lisp: t runs every test, a string those whose names match it.",
+      execute: async () => {
+        try {
+          const input = await readFromMinibuffer('Run tests: ', { default: 't', history: 'ert--selector-history' });
+          await ert(parse(input || 't'));
+        } catch (e) {
+          reportLispError(e);
+        }
+      } },
+    { name: 'ert-results-rerun-test-at-point', docstring: "Run the test at point again and update its result.",
+      execute: () => ertRerunTestAtPoint() },
+    { name: 'ert-results-rerun-all-tests', docstring: "Run all tests of the selector shown in *ert* again.",
+      execute: () => (ertRun ? ert(ertRun.selector) : echo("No test results to re-run")) },
+    { name: 'ert-results-next-test', docstring: "Move point to the next test in the results.",
+      execute: () => ertMoveToTest(1) },
+    { name: 'ert-results-previous-test', docstring: "Move point to the previous test in the results.",
+      execute: () => ertMoveToTest(-1) },
+    { name: 'ert-results-pop-to-backtrace-for-test-at-point', docstring: "Show the backtrace of the failure of the test at point.",
+      execute: () => ertBacktrace() },
+    { name: 'eval-buffer', docstring: "Evaluate every top-level form in the current buffer.",
+      execute: () => evalText(state.buffers.find(b => b.id === state.activeBufferId)!.content) },
+    { name: 'eval-region', docstring: "Evaluate every top-level form in the region.",
+      execute: () => evalRegion() },
+    { name: 'describe-function', docstring: "Display the documentation of a command or function.", keys: ['C-h f'],
+      execute: () => {
+        startMinibuffer(MinibufferType.READ, 'Describe function: ', {
+          completions: functionNames,
+          requireMatch: true,
+          history: 'help-function-history',
+        });
+        state.minibuffer.callback = describeFunction;
+      } },
+    { name: 'keyboard-quit', docstring: "Cancel the current command and deactivate the mark.\nA running Lisp evaluation is stopped with a quit signal, and a streaming\nAI response is cut off.", keys: ['C-g'],
+      execute: () => {
+        requestQuit(lispEnv);
+        aiRequest?.abort();
+        updateActiveBuffer({ markActive: false });
+        echo("Quit");
+      } },
+    { name: 'universal-argument', docstring: "Begin a numeric argument for the following command.\nEach C-u multiplies the argument by four; digits after it set the argument.", keys: ['C-u'],
+      execute: arg => setPrefixArg(universalArgument(arg)) },
+    { name: 'digit-argument', docstring: "Part of the numeric argument for the next command.", keys: ['M-0', 'M-1', 'M-2', 'M-3', 'M-4', 'M-5', 'M-6', 'M-7', 'M-8', 'M-9'],
+      execute: arg => setPrefixArg(digitArgument(arg, state.lastCommandEvent.replace(/^M-/, ''))) },
+    { name: 'negative-argument', docstring: "Begin a negative numeric argument for the next command.", keys: ['M--'],
+      execute: arg => setPrefixArg(digitArgument(arg, '-')) },
+
+    // Motion, mark and kill ring
+    { name: 'next-line', docstring: "Move cursor vertically down one line.", keys: ['C-n'],
+      execute: () => moveCursorLine(1) },
+    { name: 'previous-line', docstring: "Move cursor vertically up one line.", keys: ['C-p'],
+      execute: () => moveCursorLine(-1) },
+    { name: 'set-mark-command', docstring: "Set the mark where point is and activate the region.\nRepeating the command deactivates the region again.", keys: ['C-SPC', 'C-@'],
+      execute: () => setMarkCommand() },
+    { name: 'exchange-point-and-mark', docstring: "Put the mark where point is now, and point where the mark is now.", keys: ['C-x C-x'],
+      execute: () => exchangePointAndMark() },
+    { name: 'kill-region', docstring: "Kill (\"cut\") the text between point and mark and save it in the kill ring.", keys: ['C-w'],
+      execute: () => killRegionCommand() },
+    { name: 'kill-ring-save', docstring: "Save the region as if killed, but don't kill it.", keys: ['M-w'],
+      execute: () => killRingSave() },
+    { name: 'kill-line', docstring: "Kill the rest of the current line; at the end of a line, kill the newline.", keys: ['C-k'],
+      execute: () => killLine() },
+    { name: 'yank', docstring: "Reinsert (\"paste\") the last stretch of killed text.", keys: ['C-y'],
+      execute: () => yank() },
+    { name: 'yank-pop', docstring: "Replace the just-yanked text with an earlier kill.", keys: ['M-y'],
+      execute: () => yankPop() },
+    { name: 'undo', docstring: "Undo some previous changes.", keys: ['C-/', 'C-_', 'C-x u'],
+      execute: () => undoCommand(false) },
+    { name: 'undo-redo', docstring: "Undo the last undo.", keys: ['C-?', 'C-M-_'],
+      execute: () => undoCommand(true) },
+
+    // Indentation and comments
+    { name: 'indent-for-tab-command', docstring: "Indent the current line according to the major mode.", keys: ['TAB'],
+      execute: () => indentForTab() },
+    { name: 'comment-line', docstring: "Comment or uncomment the current line, or the lines of the region.", keys: ['C-x C-;'],
+      execute: () => commentLine() },
+
+    // Searching
+    { name: 'isearch-forward', docstring: "Do incremental search forward.", keys: ['C-s'],
+      execute: () => startIsearch(true, false) },
+    { name: 'isearch-backward', docstring: "Do incremental search backward.", keys: ['C-r'],
+      execute: () => startIsearch(false, false) },
+    { name: 'isearch-forward-regexp', docstring: "Do incremental search forward for a regular expression.", keys: ['C-M-s'],
+      execute: () => startIsearch(true, true) },
+    { name: 'isearch-backward-regexp', docstring: "Do incremental search backward for a regular expression.", keys: ['C-M-r'],
+      execute: () => startIsearch(false, true) },
+    { name: 'query-replace', docstring: "Replace some occurrences of a string, asking about each one.", keys: ['M-%'],
+      execute: () => queryReplaceCommand(false) },
+    { name: 'query-replace-regexp', docstring: "Replace some matches of a regexp, asking about each one.", keys: ['C-M-%'],
+      execute: () => queryReplaceCommand(true) },
+
+    // Files and buffers
+    { name: 'find-file', docstring: "Edit file FILENAME, visiting it in a buffer of its own.", keys: ['C-x C-f'],
+      execute: () => startMinibuffer(MinibufferType.FIND_FILE, 'Find file: ', fileNameOptions()) },
+    { name: 'save-buffer', docstring: "Save the current buffer in its visited file, if it has been modified.", keys: ['C-x C-s'],
+      execute: () => saveBuffer() },
+    { name: 'write-file', docstring: "Write the current buffer into file FILENAME and visit that file.", keys: ['C-x C-w'],
+      execute: () => startMinibuffer(MinibufferType.WRITE_FILE, 'Write file: ', fileNameOptions()) },
+    { name: 'revert-buffer', docstring: "Replace the current buffer's text with the text of the visited file.",
+      execute: () => revertBuffer() },
+    { name: 'switch-to-buffer', docstring: "Display buffer BUFFER-OR-NAME in the selected window, creating it if needed.", keys: ['C-x b'],
+      execute: () => startMinibuffer(MinibufferType.SWITCH_BUFFER, 'Switch to buffer: ', {
+        default: otherBufferName(),
+        completions: bufferNames,
+        history: 'buffer-name-history',
+      }) },
+    { name: 'kill-buffer', docstring: "Kill the current buffer.", keys: ['C-x k'],
+      execute: () => killBuffer() },
+    { name: 'quit-window', docstring: "Quit the selected window and show another buffer in it.",
+      execute: () => quitWindow() },
+
+    // Windows
+    { name: 'split-window-below', docstring: "Split the selected window into two windows, one above the other.", keys: ['C-x 2'],
+      execute: () => { splitWindowCommand('vertical'); } },
+    { name: 'split-window-right', docstring: "Split the selected window into two side-by-side windows.", keys: ['C-x 3'],
+      execute: () => { splitWindowCommand('horizontal'); } },
+    { name: 'other-window', docstring: "Select another window in cyclic ordering of windows.\nA prefix argument selects the COUNTth next window.", keys: ['C-x o'],
+      execute: arg => otherWindow(prefixNumericValue(arg)) },
+    { name: 'delete-window', docstring: "Delete the selected window.", keys: ['C-x 0'],
+      execute: () => deleteWindowCommand() },
+    { name: 'delete-other-windows', docstring: "Make the selected window fill its frame.", keys: ['C-x 1'],
+      execute: () => deleteOtherWindows() },
+    { name: 'balance-windows', docstring: "Make all windows the same size.", keys: ['C-x +'],
+      execute: () => balanceWindowsCommand() },
+    { name: 'enlarge-window', docstring: "Make the selected window taller.", keys: ['C-x ^'],
+      execute: arg => enlargeWindowCommand(prefixNumericValue(arg), 'vertical') },
+    { name: 'shrink-window', docstring: "Make the selected window shorter.",
+      execute: arg => enlargeWindowCommand(-prefixNumericValue(arg), 'vertical') },
+    { name: 'enlarge-window-horizontally', docstring: "Make the selected window wider.", keys: ['C-x }'],
+      execute: arg => enlargeWindowCommand(prefixNumericValue(arg), 'horizontal') },
+    { name: 'shrink-window-horizontally', docstring: "Make the selected window narrower.", keys: ['C-x {'],
+      execute: arg => enlargeWindowCommand(-prefixNumericValue(arg), 'horizontal') },
+
+    // AI
+    { name: 'ai-ask', docstring: "Ask the AI model a question and insert the answer at point as it streams in.\nai-provider and ai-model choose the model; C-g stops the answer.",
+      execute: () => {
+        try {
+          const { provider } = aiSettings(lispEnv, aiProviders);
+          startMinibuffer(MinibufferType.AI_PROMPT, `Ask ${provider.label}: `, { history: 'ai-prompt-history' });
+        } catch (e) {
+          reportLispError(e);
+        }
+      } },
+    { name: 'ai-explain-code', docstring: "Ask the AI model to explain the code in the current buffer.",
+      execute: () => aiExplainCode().catch(reportLispError) },
+    { name: 'ai-select-model', docstring: "Choose the AI provider and model, read as PROVIDER:MODEL.\nThis sets ai-provider and ai-model.",
+      execute: () => aiSelectModel().catch(reportLispError) },
+    // The names from when Gemini was the only model
+    { name: 'ask-gemini', docstring: "This command is obsolete; use ai-ask instead.",
+      execute: arg => commands.get('ai-ask')!.execute(arg) },
+    { name: 'gemini-explain', docstring: "This command is obsolete; use ai-explain-code instead.",
+      execute: arg => commands.get('ai-explain-code')!.execute(arg) },
+  ];
+
+  const commands = new Map(builtinCommands.map(c => [c.name, c]));
+  bindDefaultKeys(state.keymaps.global, builtinCommands);
+
+  // Global definition of a Lisp function, or null
+  const lispFunction = (name: string): LispVal | null => {
+    try {
+      const fn = lispEnv.get(name);
+      return fn.type === 'FUNC' || fn.type === 'PRIMITIVE' || fn.type === 'MACRO' ? fn : null;
+    } catch {
+      return null;
+    }
+  };
+
+  // A built-in command, or a Lisp function declared (interactive ...)
+  const lookupCommand = (name: string): Command | null => {
+    const builtin = commands.get(name);
+    if (builtin) return builtin;
+    const fn = lispFunction(name);
+    if (!fn || !fn.interactive) return null;
+    return {
+      name,
+      docstring: fn.doc || '',
+      execute: async prefixArg => {
+        try {
+          await callLispInteractively(fn, prefixArg);
+        } catch (e) {
+          reportLispError(e);
+        }
+      },
+    };
+  };
+
+  const executeCommand = async (cmdName: string) => {
+    const prefixArg = state.prefixArg;
+    state.prefixArg = null;
+
+    const command = lookupCommand(cmdName);
+    if (!command) {
+      echo(lispFunction(cmdName) ? `Wrong type argument: commandp, ${cmdName}` : `Command not found: ${cmdName}`);
+      return;
+    }
+    state.thisCommand = cmdName;
+    await command.execute(prefixArg);
+  };
+
+  // A command called from Lisp: a Lisp command's value is returned and its
+  // errors are left to the caller. Built-in commands return nil.
+  const callInteractively = async (cmdName: string): Promise<LispVal> => {
+    const prefixArg = state.prefixArg;
+    state.prefixArg = null;
+    state.thisCommand = cmdName;
+    const builtin = commands.get(cmdName);
+    if (builtin) {
+      await builtin.execute(prefixArg);
+      return mkNull();
+    }
+    return callLispInteractively(lispFunction(cmdName)!, prefixArg);
+  };
+
+  // Prefix argument commands leave last-command alone, so C-u C-y still
+  // follows the command before it
+  const setPrefixArg = (arg: PrefixArg) => {
+    state.prefixArg = arg;
+    state.thisCommand = state.lastCommand;
+    // Echoed like a key sequence being typed, not logged
+    state.message = describePrefixArg(arg);
+    refresh();
+  };
+
+  const describeFunction = (name: string) => {
+    const command = lookupCommand(name);
+    const fn = lispFunction(name);
+    if (!command && !fn) {
+      echo(`Symbol's function definition is void: ${name}`);
+      return;
+    }
+
+    const builtin = commands.has(name);
+    const kind = command
+      ? `an interactive ${builtin ? 'built-in command' : 'Lisp function'}`
+      : `a ${fn!.type === 'PRIMITIVE' ? 'built-in function' : fn!.type === 'MACRO' ? 'Lisp macro' : 'Lisp function'}`;
+    const keys = whereIs(state.keymaps.global, name).map(formatKeySequence);
+    const bound = keys.length > 0 ? `, bound to ${keys.join(', ')}` : '';
+    const doc = command ? command.docstring : fn!.doc || '';
+    showOutputBuffer('*Help*', `${name} is ${kind}${bound}.\n\n${doc || 'Not documented.'}\n`, 'help-mode');
+  };
+
+  // --- Interactive Lisp Commands ---
+
+  // Prompt for each argument of an interactive spec
+  const readInteractiveArgs = async (spec: InteractiveSpec, prefixArg: PrefixArg | null): Promise<LispVal[]> => {
+    const buf = state.buffers.find(b => b.id === state.activeBufferId)!;
+    if (spec.checkReadOnly && buf.readOnly) throw new LispError('buffer-read-only', [mkSym(buf.name)]);
+    const args: LispVal[] = [];
+
+    for (const { code, prompt } of spec.args) {
+      switch (code) {
+        case 's':
+          args.push(mkStr(await readFromMinibuffer(prompt)));
+          break;
+        case 'n': {
+          let input = await readFromMinibuffer(prompt);
+          while (!/^\s*-?\d+(\.\d+)?\s*$/.test(input)) {
+            input = await readFromMinibuffer(`Please enter a number.  ${prompt}`);
+          }
+          args.push(mkNum(parseFloat(input)));
+          break;
+        }
+        case 'b':
+        case 'B':
+          args.push(mkStr(await readFromMinibuffer(prompt, {
+            default: buf.name,
+            completions: bufferNames,
+            requireMatch: code === 'b',
+            history: 'buffer-name-history',
+          })));
+          break;
+        case 'f':
+        case 'F': {
+          const input = await readFromMinibuffer(prompt, {
+            initialInput: abbreviateFileName(defaultDirectory()) + '/',
+            completions: fileCompletions,
+            requireMatch: code === 'f',
+            history: 'file-name-history',
+          });
+          args.push(mkStr(expandFileName(input, defaultDirectory())));
+          break;
+        }
+        case 'r': {
+          const current = state.buffers.find(b => b.id === state.activeBufferId)!;
+          const region = regionBounds(current);
+          if (!region) throw lispError("The mark is not set now, so there is no region");
+          args.push(mkNum(region[0]), mkNum(region[1]));
+          break;
+        }
+        case 'p':
+          args.push(mkNum(prefixNumericValue(prefixArg)));
+          break;
+        case 'P':
+          args.push(rawPrefixArg(prefixArg));
+          break;
+        case 'i':
+          args.push(mkNull());
+          break;
+      }
+    }
+    return args;
+  };
+
+  // The raw prefix argument as Lisp sees it: nil, (4), - or a number
+  const rawPrefixArg = (arg: PrefixArg | null): LispVal => {
+    if (!arg) return mkNull();
+    if (arg.digits === null) return mkList([mkNum(arg.value)]);
+    if (arg.digits === '-') return mkSym('-');
+    return mkNum(arg.value);
+  };
+
+  const callLispInteractively = async (fn: LispVal, prefixArg: PrefixArg | null): Promise<LispVal> => {
+    const env = lispEnv;
+    const spec = fn.interactive!;
+    let args: LispVal[] = [];
+    if (spec.type === 'STRING') {
+      args = await readInteractiveArgs(parseInteractiveSpec(spec.value), prefixArg);
+    } else if (spec.type !== 'NULL') {
+      // (interactive (list ...)): a form that computes the argument list
+      args = listElements(await evalLisp(spec, env));
+    }
+    const value = await callFunction(fn, args, env);
+    undoBoundaryAll();
+    return value;
+  };
+
+  // --- Minibuffer ---
+
+  const startMinibuffer = (type: MinibufferType, prompt: string, options: ReadOptions = {}) => {
+    state.editorMode = EditorMode.MINIBUFFER;
+    state.minibuffer = {
+      type,
+      prompt: formatPrompt(prompt, options.default),
+      input: options.initialInput || '',
+      options,
+    };
+    state.chordStack = '';
+    refresh();
+  };
+
+  // Read a string for Lisp or an interactive spec. The promise rejects with
+  // a quit signal if the user types C-g.
+  const readFromMinibuffer = (prompt: string, options: ReadOptions = {}): Promise<string> => {
+    return new Promise((resolve, reject) => {
+      if (state.minibuffer.type !== MinibufferType.NONE) {
+        reject(lispError("Command attempted to use minibuffer while in minibuffer"));
+        return;
+      }
+      startMinibuffer(MinibufferType.READ, prompt, options);
+      state.minibuffer.callback = resolve;
+      state.minibuffer.onQuit = () => reject(new LispError('quit'));
+    });
+  };
+
+  // --- Completion Tables ---
+
+  const bufferNames = (): string[] => state.buffers.map(b => b.name);
+
+  // The buffer C-x b offers by default: the first one not shown in the selected window
+  const otherBufferName = (): string | undefined => {
+    return state.buffers.find(b => b.id !== state.activeBufferId)?.name;
+  };
+
+  const commandNames = (): string[] => {
+    const names: string[] = Array.from(commands.keys());
+    for (const [name, val] of lispEnv.vars) {
+      if ((val.type === 'FUNC' || val.type === 'PRIMITIVE') && val.interactive) names.push(name);
+    }
+    return names;
+  };
+
+  const functionNames = (): string[] => {
+    const names: string[] = Array.from(commands.keys());
+    for (const [name, val] of lispEnv.vars) {
+      if (val.type === 'FUNC' || val.type === 'PRIMITIVE' || val.type === 'MACRO') names.push(name);
+    }
+    return names;
+  };
+
+  // Files in the directory part of the input, keeping that part as typed;
+  // directories end in a slash so completion can continue into them
+  const fileCompletions = (input: string): string[] => {
+    const dirPart = input.slice(0, input.lastIndexOf('/') + 1);
+    const dir = expandFileName(dirPart || '.', defaultDirectory());
+    if (!fs.isDirectory(dir)) return [];
+    return fs.listDirectory(dir).map(name => {
+      const isDir = fs.isDirectory(expandFileName(name, dir));
+      return dirPart + name + (isDir ? '/' : '');
+    });
+  };
+
+  // Ask a y-or-n question; onYes runs only on an affirmative answer
+  const yOrNPrompt = (prompt: string, onYes: () => void) => {
+    startMinibuffer(MinibufferType.YES_NO, prompt);
+    state.minibuffer.callback = (answer: string) => {
+      const a = answer.trim().toLowerCase();
+      if (a === 'y' || a === 'yes') onYes();
+      else if (a === 'n' || a === 'no') echo('');
+      else yOrNPrompt(prompt.startsWith('Please answer') ? prompt : `Please answer y or n.  ${prompt}`, onYes);
+    };
+  };
+
+  // --- Incremental Search ---
+
+  const isearchPrompt = (is: IsearchState): string => {
+    const words = [is.failing && 'failing', is.wrapped && 'wrapped', is.regexp && 'regexp', 'I-search'].filter(Boolean).join(' ');
+    return `${words[0].toUpperCase()}${words.slice(1)}${is.forward ? '' : ' backward'}: `;
+  };
+
+  const startIsearch = (forward: boolean, regexp: boolean) => {
+    const buf = state.buffers.find(b => b.id === state.activeBufferId);
+    if (!buf) return;
+    state.isearch = { forward, regexp, query: '', origin: buf.cursorPosition, match: null, failing: false, wrapped: false };
+    startMinibuffer(MinibufferType.ISEARCH, isearchPrompt(state.isearch));
+  };
+
+  // Search from `from` in the isearch direction and move point to the match
+  const isearchFrom = (from: number) => {
+    const is = state.isearch;
+    const buf = state.buffers.find(b => b.id === state.activeBufferId);
+    if (!is || !buf) return;
+
+    if (!is.query) {
+      is.match = null;
+      is.failing = false;
+      updateActiveBuffer({ cursorPosition: is.origin });
+    } else {
+      const m = is.forward
+        ? searchForward(buf.content, is.query, from, is.regexp)
+        : searchBackward(buf.content, is.query, from, is.regexp);
+      if (m) {
+        is.match = { start: m.start, end: m.end };
+        is.failing = false;
+        updateActiveBuffer({ cursorPosition: is.forward ? m.end : m.start });
+      } else {
+        is.failing = true;
+      }
+    }
+    state.minibuffer.prompt = isearchPrompt(is);
+    refresh();
+  };
+
+  // The search string was edited: try to extend the current match in place
+  const isearchUpdate = (query: string) => {
+    const is = state.isearch;
+    if (!is) return;
+    is.query = query;
+    state.minibuffer.input = query;
+    if (!is.match) isearchFrom(is.origin);
+    else isearchFrom(is.forward ? is.match.start : is.match.start + 1);
+  };
+
+  // C-s / C-r inside isearch: next match, wrapping after a failure
+  const isearchRepeat = (forward: boolean) => {
+    const is = state.isearch;
+    const buf = state.buffers.find(b => b.id === state.activeBufferId);
+    if (!is || !buf) return;
+
+    if (!is.query) {
+      // C-s C-s searches for the previous search string
+      if (!state.lastSearch.query) return;
+      is.query = state.lastSearch.query;
+      state.minibuffer.input = is.query;
+      isearchFrom(is.origin);
+      return;
+    }
+    if (is.forward !== forward) {
+      is.forward = forward;
+      is.failing = false;
+      state.minibuffer.prompt = isearchPrompt(is);
+      refresh();
+      return;
+    }
+    if (is.failing) {
+      is.wrapped = true;
+      isearchFrom(forward ? 0 : buf.content.length + 1);
+    } else if (is.match) {
+      isearchFrom(forward ? Math.max(is.match.end, is.match.start + 1) : is.match.start);
+    } else {
+      isearchFrom(is.origin);
+    }
+  };
+
+  // C-w: add the rest of the word after point to the search string
+  const isearchYankWord = () => {
+    const is = state.isearch;
+    const buf = state.buffers.find(b => b.id === state.activeBufferId);
+    if (!is || !buf) return;
+    const pos = buf.cursorPosition;
+    const text = buf.content.slice(pos, endOfNextWord(buf.content, pos));
+    const quoted = is.regexp ? text.replace(/[.*+?^$[\\]/g, '\\$&') : text;
+    isearchUpdate(is.query + quoted);
+  };
+
+  const isearchExit = () => {
+    const is = state.isearch;
+    if (!is) return;
+    if (is.query) state.lastSearch = { query: is.query, regexp: is.regexp };
+    state.isearch = undefined;
+    state.editorMode = EditorMode.NORMAL;
+    state.minibuffer = { type: MinibufferType.NONE, prompt: '', input: '' };
+
+    const buf = state.buffers.find(b => b.id === state.activeBufferId);
+    if (buf && buf.cursorPosition !== is.origin) {
+      updateActiveBuffer({ mark: is.origin, markActive: false });
+      echo("Mark saved where search started");
+    } else {
+      echo('');
+    }
+  };
+
+  const isearchAbort = () => {
+    const is = state.isearch;
+    if (!is) return;
+    state.isearch = undefined;
+    state.editorMode = EditorMode.NORMAL;
+    state.minibuffer = { type: MinibufferType.NONE, prompt: '', input: '' };
+    updateActiveBuffer({ cursorPosition: is.origin });
+    echo("Quit");
+  };
+
+  const isearchKey = (key: string): boolean => {
+    switch (key) {
+      case 'C-s':
+        isearchRepeat(true);
+        return true;
+      case 'C-r':
+        isearchRepeat(false);
+        return true;
+      case 'C-w':
+        isearchYankWord();
+        return true;
+      case 'C-g':
+        isearchAbort();
+        return true;
+      case 'RET':
+        isearchExit();
+        return true;
+    }
+    if (/^(C-|M-)/.test(key)) {
+      // Any other command ends the search and then runs in the buffer
+      isearchExit();
+      return editorKey(key);
+    }
+    return false;
+  };
+
+  // --- Query Replace ---
+
+  const queryReplaceCommand = (regexp: boolean) => {
+    startMinibuffer(MinibufferType.QUERY_REPLACE_FROM, regexp ? 'Query replace regexp: ' : 'Query replace: ', { history: 'query-replace-history' });
+    state.queryReplace = { from: '', to: '', regexp, searchFrom: 0, match: null, count: 0 };
+  };
+
+  // Move to the next match and ask what to do with it
+  const queryReplaceNext = () => {
+    const q = state.queryReplace;
+    const buf = state.buffers.find(b => b.id === state.activeBufferId);
+    if (!q || !buf) return;
+
+    const m = searchForward(buf.content, q.from, q.searchFrom, q.regexp);
+    if (!m) {
+      finishQueryReplace();
+      return;
+    }
+    q.match = { start: m.start, end: m.end };
+    updateActiveBuffer({ cursorPosition: m.end });
+    startMinibuffer(MinibufferType.YES_NO,
+      `Query replacing ${q.regexp ? 'regexp ' : ''}${q.from} with ${q.to}: (y, n, !, ., q) `);
+    state.minibuffer.callback = (answer: string) => queryReplaceAnswer(answer, m);
+  };
+
+  const replaceMatch = (m: SearchMatch) => {
+    const q = state.queryReplace!;
+    const idx = state.buffers.findIndex(b => b.id === state.activeBufferId);
+    const text = q.regexp ? expandReplacement(q.to, m) : q.to;
+    const removed = deleteText({ ...state.buffers[idx], cursorPosition: m.start }, m.start, m.end);
+    state.buffers[idx] = insertText(removed, m.start, text);
+    q.count++;
+    // An empty match must not be found again at the same spot
+    q.searchFrom = m.start + text.length + (m.start === m.end ? 1 : 0);
+  };
+
+  const queryReplaceAnswer = (answer: string, m: SearchMatch) => {
+    const q = state.queryReplace;
+    if (!q) return;
+
+    switch (answer) {
+      case 'y':
+      case ' ':
+        replaceMatch(m);
+        queryReplaceNext();
+        break;
+      case 'n':
+        q.searchFrom = Math.max(m.end, m.start + 1);
+        queryReplaceNext();
+        break;
+      case '!': {
+        replaceMatch(m);
+        let next: SearchMatch | null;
+        while ((next = searchForward(state.buffers.find(b => b.id === state.activeBufferId)!.content, q.from, q.searchFrom, q.regexp))) {
+          replaceMatch(next);
+        }
+        finishQueryReplace();
+        break;
+      }
+      case '.':
+        replaceMatch(m);
+        finishQueryReplace();
+        break;
+      case 'q':
+      case '':
+        finishQueryReplace();
+        break;
+      default:
+        queryReplaceNext(); // Unknown answer: ask again about the same match
+    }
+  };
+
+  const finishQueryReplace = () => {
+    const count = state.queryReplace ? state.queryReplace.count : 0;
+    state.queryReplace = undefined;
+    echo(`Replaced ${count} occurrence${count === 1 ? '' : 's'}`);
+  };
+
+  const handleMinibufferCommit = async (value: string) => {
+    const type = state.minibuffer.type;
+    const callback = state.minibuffer.callback;
+
+    // Reset mode
+    state.minibuffer = { type: MinibufferType.NONE, prompt: '', input: '' };
+    state.editorMode = EditorMode.NORMAL;
+    refresh();
+
+    if (type === MinibufferType.COMMAND) {
+      await exitCommandMinibuffer(() => executeCommand(value));
+    } else if (type === MinibufferType.FIND_FILE) {
+      await findFile(value);
+    } else if (type === MinibufferType.WRITE_FILE) {
+      await writeFile(value);
+    } else if (type === MinibufferType.YES_NO || type === MinibufferType.READ) {
+      callback?.(value);
+    } else if (type === MinibufferType.QUERY_REPLACE_FROM) {
+      const q = state.queryReplace;
+      if (!q || !value) {
+        state.queryReplace = undefined;
+        return;
+      }
+      q.from = value;
+      startMinibuffer(MinibufferType.QUERY_REPLACE_TO, `Query replace ${q.regexp ? 'regexp ' : ''}${value} with: `, { history: 'query-replace-history' });
+    } else if (type === MinibufferType.QUERY_REPLACE_TO) {
+      const q = state.queryReplace;
+      const buf = state.buffers.find(b => b.id === state.activeBufferId);
+      if (!q || !buf) return;
+      q.to = value;
+      q.searchFrom = buf.cursorPosition;
+      state.lastSearch = { query: q.from, regexp: q.regexp };
+      queryReplaceNext();
+    } else if (type === MinibufferType.SWITCH_BUFFER) {
+      const target = state.buffers.find(b => b.name === value);
+      if(target) switchBuffer(target.id);
+      else createBuffer(value);
+    } else if (type === MinibufferType.AI_PROMPT) {
+      // Not awaited: the response streams in while editing goes on
+      aiAsk(value).catch(reportLispError);
+    } else if (type === MinibufferType.EVAL) {
+      await evalSexp(value);
+    }
+  };
+
+  // --- Key Handling ---
+
+  const minorModeKeymaps = (): Keymap[] => {
+    const buf = state.buffers.find(b => b.id === state.activeBufferId);
+    return (buf?.minorModes || []).map(mode => state.keymaps.minor[mode]).filter(Boolean);
+  };
+
+  // Keymaps in order of precedence: enabled minor modes, the major mode, global
+  const activeKeymaps = (): Keymap[] => {
+    const buf = state.buffers.find(b => b.id === state.activeBufferId);
+    const major = buf && state.modes[buf.majorMode];
+    return [...minorModeKeymaps(), ...(major ? [major.keymap] : []), state.keymaps.global];
+  };
+
+  // The command or minibuffer input a key started, which may still be running
+  let pendingWork: Promise<void> = Promise.resolve();
+  const track = (work: Promise<void> | void) => {
+    if (work) pendingWork = work;
+  };
+
+  // A key typed in the buffer, in kbd notation. Returns false for keys left
+  // to the text area: plain typing and unbound keys.
+  const editorKey = (key: string): boolean => {
+    beginCommand();
+
+    state.lastCommandEvent = key;
+    const keys = state.chordStack ? [...state.chordStack.split(' '), key] : [key];
+    const inPrefix = keys.length > 1;
+
+    // Digits and "-" right after C-u make up the prefix argument
+    if (state.prefixArg && !inPrefix && /^[0-9-]$/.test(key)) {
+      track(runCommandWithHooks('digit-argument'));
+      return true;
+    }
+    const endPrefix = () => {
+      state.editorMode = EditorMode.NORMAL;
+      state.chordStack = '';
+    };
+
+    // C-g cancels a partially typed key sequence
+    if (inPrefix && key === 'C-g') {
+      endPrefix();
+      echo("Quit");
+      return true;
+    }
+
+    const binding = keyBinding(activeKeymaps(), keys);
+    if (binding === undefined) {
+      // Unbound single keys (typing, C-f, arrows...) are left to the textarea.
+      // Its change arrives after this returns, so post-command-hook waits a tick.
+      if (!inPrefix) {
+        state.prefixArg = null;
+        queueHook(() => runHook('pre-command-hook'));
+        setTimeout(() => queueHook(async () => {
+          await runChangeHooks();
+          await runHook('post-command-hook');
+        }), 0);
+        return false;
+      }
+      endPrefix();
+      echo(`${formatKeySequence(keys)} is undefined`);
+      return true;
+    }
+
+    if (isKeymap(binding)) {
+      state.editorMode = EditorMode.WAITING_FOR_CHORD;
+      state.chordStack = formatKeySequence(keys);
+      refresh();
+      return true;
+    }
+
+    endPrefix();
+    refresh();
+    track(runCommandWithHooks(binding));
+    return true;
+  };
+
+  const moveCursorLine = (dir: number) => {
+    const buf = state.buffers.find(b => b.id === state.activeBufferId);
+    if (!buf) return;
+
+    const content = buf.content;
+    const currentPos = buf.cursorPosition;
+
+    // Find start of current line
+    const lineStart = content.lastIndexOf('\n', currentPos - 1) + 1;
+    const offset = currentPos - lineStart;
+
+    let newPos = currentPos;
+
+    if (dir === -1) { // Up
+      if (lineStart === 0) return;
+      const prevLineEnd = lineStart - 1;
+      const prevLineStart = content.lastIndexOf('\n', prevLineEnd - 1) + 1;
+      const prevLineLength = prevLineEnd - prevLineStart;
+      newPos = prevLineStart + Math.min(offset, prevLineLength);
+    } else { // Down
+      const lineEnd = content.indexOf('\n', currentPos);
+      if (lineEnd === -1) return;
+      const nextLineStart = lineEnd + 1;
+      const nextLineEnd = content.indexOf('\n', nextLineStart);
+      const actualNextEnd = nextLineEnd === -1 ? content.length : nextLineEnd;
+      const nextLineLength = actualNextEnd - nextLineStart;
+      newPos = nextLineStart + Math.min(offset, nextLineLength);
+    }
+
+    buf.cursorPosition = newPos;
+    refresh();
+  };
+
+  // A key typed in the minibuffer; false for keys left to the input field
+  const minibufferKey = (key: string): boolean => {
+    const type = state.minibuffer.type;
+    if (type === MinibufferType.ISEARCH) return isearchKey(key);
+    // y-or-n-p and query-replace answer with a single key, no RET needed
+    if (type === MinibufferType.YES_NO && (key.length === 1 || key === 'SPC')) {
+      beginCommand();
+      track(handleMinibufferCommit(key === 'SPC' ? ' ' : key).then(() => exitCommandMinibuffer()));
+      return true;
+    }
+
+    switch (key) {
+      case 'RET':
+        beginCommand();
+        track(exitMinibuffer().then(() => exitCommandMinibuffer()));
+        return true;
+      case 'TAB':
+        minibufferComplete();
+        return true;
+      case 'M-p':
+      case '<up>':
+        minibufferHistory(1);
+        return true;
+      case 'M-n':
+      case '<down>':
+        minibufferHistory(-1);
+        return true;
+      case 'C-g': {
+        const onQuit = state.minibuffer.onQuit;
+        state.editorMode = EditorMode.NORMAL;
+        state.minibuffer = { type: MinibufferType.NONE, prompt: '', input: '' };
+        state.queryReplace = undefined;
+        state.prefixArg = null;
+        echo("Quit");
+        onQuit?.();
+        track(exitCommandMinibuffer());
+        return true;
+      }
+    }
+    return false;
+  };
+
+  // RET: accept the input, or the default when it is empty. With
+  // require-match only a completion is accepted.
+  const exitMinibuffer = async () => {
+    const { input, options = {} } = state.minibuffer;
+    let value = input === '' && options.default !== undefined ? options.default : input;
+    if (options.requireMatch && options.completions) {
+      const match = exactCompletion(value, options.completions(value));
+      if (match === null) {
+        state.minibuffer.note = '[No match]';
+        refresh();
+        return;
+      }
+      value = match;
+    }
+    if (options.history) {
+      state.history[options.history] = addToHistory(state.history[options.history] || [], value);
+    }
+    return handleMinibufferCommit(value);
+  };
+
+  // TAB: complete as far as possible, or list the candidates in *Completions*
+  const minibufferComplete = () => {
+    const mb = state.minibuffer;
+    if (!mb.options?.completions) return;
+    const result = completeInput(mb.input, mb.options.completions(mb.input));
+    mb.input = result.input;
+    mb.note = result.note;
+    mb.completionsShown = result.showList ? result.matches : undefined;
+    refresh();
+  };
+
+  // M-p (delta 1) and M-n (delta -1). Going forward from the new input
+  // offers the default value.
+  const minibufferHistory = (delta: number) => {
+    const mb = state.minibuffer;
+    const options = mb.options || {};
+    const list = options.history ? state.history[options.history] || [] : [];
+    const index = mb.historyIndex ?? -1;
+    const next = index + delta;
+
+    if (next >= list.length) {
+      mb.note = '[Beginning of history; no preceding item]';
+    } else if (next < -1) {
+      if (options.default !== undefined && mb.input !== options.default) {
+        mb.input = options.default;
+      } else {
+        mb.note = '[End of history; no default available]';
+      }
+    } else {
+      if (index === -1) mb.historyDraft = mb.input;
+      mb.historyIndex = next;
+      mb.input = next === -1 ? mb.historyDraft || '' : list[next];
+      mb.note = undefined;
+    }
+    refresh();
+  };
+
+  const handleMinibufferChange = (val: string) => {
+    if (state.minibuffer.type === MinibufferType.ISEARCH) {
+      isearchUpdate(val);
+      return;
+    }
+    state.minibuffer.input = val;
+    state.minibuffer.note = undefined;
+    refresh();
+  };
+
+  // Clicking a candidate in *Completions* chooses it
+  const chooseCompletion = (candidate: string) => {
+    const mb = state.minibuffer;
+    mb.input = candidate;
+    mb.completionsShown = undefined;
+    mb.note = undefined;
+    // A directory is only a step towards a file name
+    if (candidate.endsWith('/')) refresh();
+    else exitMinibuffer();
+  };
+
+  // Font-lock faces of a displayed buffer, updated incrementally from the
+  // previous render
+  const fontLock = new Map<string, Fontification>();
+  const fontLockFaces = (buf: Buffer): FaceSpan[] => {
+    const mode = state.modes[buf.majorMode];
+    if (!mode) return [];
+    const fontified = refontify(fontLock.get(buf.id), buf.content, mode);
+    fontLock.set(buf.id, fontified);
+    return fontified.spans;
+  };
+
+  // Live search highlighting: every match, with the current one on top
+  const searchHighlights = (): Highlight[] => {
+    const buf = state.buffers.find(b => b.id === state.activeBufferId);
+    const search = state.isearch
+      ? { query: state.isearch.query, regexp: state.isearch.regexp, match: state.isearch.match }
+      : state.queryReplace && state.queryReplace.match
+        ? { query: state.queryReplace.from, regexp: state.queryReplace.regexp, match: state.queryReplace.match }
+        : null;
+    if (!buf || !search || !search.query) return [];
+    const lazy = findAllMatches(buf.content, search.query, search.regexp)
+      .map(m => ({ start: m.start, end: m.end, className: THEME.lazyHighlight }));
+    if (!search.match) return lazy;
+    return [...lazy, { ...search.match, className: THEME.isearch, current: true }];
+  };
+
+  // --- Headless Driving ---
+
+  // What a text field does with a key no command handled: insert or delete
+  // a character, or move point
+  const typeKey = (key: string) => {
+    const text = key === 'SPC' ? ' ' : key === 'RET' ? '\n' : key.length === 1 ? key : null;
+    if (state.minibuffer.type !== MinibufferType.NONE) {
+      const input = state.minibuffer.input;
+      if (key === 'DEL') handleMinibufferChange(input.slice(0, -1));
+      else if (text && text !== '\n') handleMinibufferChange(input + text);
+      return;
+    }
+    const buf = state.buffers.find(b => b.id === state.activeBufferId);
+    if (!buf) return;
+    const { content, cursorPosition: point } = buf;
+    if (key === '<left>' || key === '<right>') {
+      updateActiveBuffer({ cursorPosition: Math.max(0, Math.min(point + (key === '<left>' ? -1 : 1), content.length)) });
+    } else if (key === '<up>' || key === '<down>') {
+      moveCursorLine(key === '<up>' ? -1 : 1);
+    } else if (buf.readOnly) {
+      return;
+    } else if (key === 'DEL') {
+      if (point > 0) replaceActiveContent(content.slice(0, point - 1) + content.slice(point), point - 1);
+    } else if (key === '<delete>') {
+      if (point < content.length) replaceActiveContent(content.slice(0, point) + content.slice(point + 1), point);
+    } else if (text) {
+      replaceActiveContent(content.slice(0, point) + text + content.slice(point), point + text.length);
+    }
+  };
+
+  // Wait for the work the last key started and the hooks it ran, unless it
+  // waits for minibuffer input that is still to be typed
+  const settle = async () => {
+    const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+    for (;;) {
+      const [work, hooks] = [pendingWork, hookWork];
+      let done = false;
+      Promise.all([work, hooks]).then(() => { done = true; }, () => { done = true; });
+      while (!done && state.minibuffer.type === MinibufferType.NONE) await tick();
+      if (state.minibuffer.type !== MinibufferType.NONE) return;
+      // Typed keys queue their post-command-hook on a timer
+      await tick();
+      if (work === pendingWork && hooks === hookWork) return;
+    }
+  };
+
+  const dispatchKeys = async (keys: string) => {
+    for (const key of parseKeySequence(keys)) {
+      const handled = state.minibuffer.type === MinibufferType.NONE ? editorKey(key) : minibufferKey(key);
+      if (!handled) typeKey(key);
+      await settle();
+    }
+  };
+
+  const snapshotBuffer = (buf: Buffer): BufferSnapshot => ({
+    name: buf.name,
+    content: buf.content,
+    point: buf.cursorPosition,
+    mark: buf.mark ?? null,
+    majorMode: buf.majorMode,
+    readOnly: !!buf.readOnly,
+    modified: buf.isModified,
+    filePath: buf.filePath,
+  });
+
+  return {
+    state,
+    api,
+    lispEnv,
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    start: () => fs.load().then(loadInitFile),
+    reloadFiles: () => fs.load().then(checkFilesOnDisk),
+    editorKey,
+    minibufferKey,
+    dispatchKeys,
+    runCommand: async name => {
+      beginCommand();
+      track(runCommandWithHooks(name));
+      await settle();
+    },
+    snapshot: () => ({
+      buffers: state.buffers.map(snapshotBuffer),
+      currentBuffer: snapshotBuffer(state.buffers.find(b => b.id === state.activeBufferId)!),
+      windows: listWindows(state.windowTree).map(w => ({ id: w.id, buffer: state.buffers.find(b => b.id === w.bufferId)?.name || '' })),
+      selectedWindow: state.selectedWindowId,
+      message: state.message,
+      minibuffer: state.minibuffer.type === MinibufferType.NONE ? null : { prompt: state.minibuffer.prompt, input: state.minibuffer.input },
+    }),
+    updateContent: replaceActiveContent,
+    setCursor: pos => updateActiveBuffer({ cursorPosition: pos }),
+    selectWindow,
+    minibufferInput: handleMinibufferChange,
+    chooseCompletion,
+    fontLockFaces,
+    searchHighlights,
+  };
+};
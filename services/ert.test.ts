@@ -0,0 +1,211 @@
+import { describe, it, expect } from 'vitest';
+import { createBatchEnv, runErtBatch, runErtTests, formatErtResults, selectTests, ertTests } from './ert';
+import { evalForms, parse, printLisp, mkList, mkSym } from './lisp';
+
+// A batch environment with the given Lisp evaluated in it
+const load = async (source: string) => {
+  const log: string[] = [];
+  const env = createBatchEnv({ log: line => log.push(line) });
+  await evalForms(source, env);
+  return { env, log };
+};
+
+// The condition a single test failed with, as printed
+const failure = async (body: string): Promise<string> => {
+  const { env } = await load(`(ert-deftest test () ${body})`);
+  const run = await runErtTests(parse('t'), env);
+  const { status, condition } = run.tests[0].result!;
+  expect(status).toBe('failed');
+  return printLisp(mkList([mkSym(condition!.symbol), ...condition!.data]));
+};
+
+describe('ert-deftest', () => {
+  it('defines tests with a docstring and tags', async () => {
+    const { env } = await load(`
+      (ert-deftest first () "Adds." :tags '(quick math) (should (= 2 (+ 1 1))))
+      (ert-deftest second () (should t))`);
+    expect(ertTests(env).map(t => [t.name, t.doc, t.tags])).toEqual([
+      ['first', 'Adds.', ['quick', 'math']],
+      ['second', undefined, []],
+    ]);
+  });
+
+  it('keeps the position of a redefined test', async () => {
+    const { env } = await load(`
+      (ert-deftest a () (should nil))
+      (ert-deftest b () (should t))
+      (ert-deftest a () (should t))`);
+    expect(ertTests(env).map(t => t.name)).toEqual(['a', 'b']);
+    const run = await runErtTests(parse('t'), env);
+    expect(run.tests.map(t => t.result!.status)).toEqual(['passed', 'passed']);
+  });
+
+  it('closes over the lexical environment', async () => {
+    const { env } = await load(`(let ((n 3)) (ert-deftest closure () (should (= n 3))))`);
+    const run = await runErtTests(parse('t'), env);
+    expect(run.tests[0].result!.status).toBe('passed');
+  });
+});
+
+describe('should', () => {
+  it('shows the evaluated arguments of a failed call', async () => {
+    expect(await failure('(should (< (+ 1 2) 2))')).toBe('(ert-test-failed ((should (< (+ 1 2) 2)) :form (< 3 2) :value nil))');
+  });
+
+  it('explains why values are not equal', async () => {
+    expect(await failure(`(should (equal (list 'a 'b 'c) '(a b d)))`)).toContain(':explanation (list-elt 2 (different-atoms c d))');
+    expect(await failure(`(should (equal '(1 2) '(1 2 3)))`))
+      .toContain(':explanation (proper-lists-of-different-length 2 3 (1 2) (1 2 3) first-mismatch-at 2)');
+    expect(await failure(`(should (string= "abc" "abd"))`))
+      .toContain(':explanation (array-elt 2 (different-atoms (99 "#x63" "?c") (100 "#x64" "?d")))');
+    expect(await failure(`(should (equal 1 "1"))`)).toContain(':explanation (different-types 1 "1")');
+  });
+
+  it('evaluates other forms as they are', async () => {
+    expect(await failure('(should (and t nil))')).toBe('(ert-test-failed ((should (and t nil)) :form (and t nil) :value nil))');
+  });
+
+  it('fails should-not on a non-nil value', async () => {
+    expect(await failure('(should-not (memq 2 (list 1 2)))')).toBe('(ert-test-failed ((should-not (memq 2 (list 1 2))) :form (memq 2 (1 2)) :value (2)))');
+  });
+
+  it('returns the value', async () => {
+    const { env } = await load(`(ert-deftest value () (should (= 5 (should (+ 2 3)))))`);
+    expect((await runErtTests(parse('t'), env)).tests[0].result!.status).toBe('passed');
+  });
+});
+
+describe('should-error', () => {
+  it('returns the error', async () => {
+    const { env } = await load(`
+      (ert-deftest caught ()
+        (should (equal (should-error (car 1) :type 'wrong-type-argument) '(wrong-type-argument listp 1)))
+        (should-error (error "Boom") :type '(arith-error error)))`);
+    expect((await runErtTests(parse('t'), env)).tests[0].result!.status).toBe('passed');
+  });
+
+  it('fails when no error is signaled', async () => {
+    expect(await failure('(should-error (+ 1 2))'))
+      .toBe('(ert-test-failed ((should-error (+ 1 2)) :form (+ 1 2) :value 3 :fail-reason "did not signal an error"))');
+  });
+
+  it('fails when the error has another type', async () => {
+    expect(await failure(`(should-error (/ 1 0) :type 'wrong-type-argument)`)).toBe(
+      `(ert-test-failed ((should-error (/ 1 0) :type 'wrong-type-argument) :form (/ 1 0) :condition (arith-error) :fail-reason "the error signaled did not have the expected type"))`);
+  });
+});
+
+describe('selectors', () => {
+  const suite = `
+    (ert-deftest math-add () :tags '(quick) (should (= 2 (+ 1 1))))
+    (ert-deftest math-div () (should (= 2 (/ 5 2))))
+    (ert-deftest text-upcase () :tags '(quick) (should (equal "A" (upcase "b"))))
+    (ert-deftest known-bug () :expected-result :failed (should nil))`;
+  const names = (selector: string, env: Parameters<typeof selectTests>[1]) => selectTests(parse(selector), env).map(t => t.name);
+
+  it('selects by name, regexp and tag', async () => {
+    const { env } = await load(suite);
+    expect(names('t', env)).toHaveLength(4);
+    expect(names('nil', env)).toEqual([]);
+    expect(names('"^math-"', env)).toEqual(['math-add', 'math-div']);
+    expect(names('text-upcase', env)).toEqual(['text-upcase']);
+    expect(names('(tag quick)', env)).toEqual(['math-add', 'text-upcase']);
+    expect(names('(member math-div known-bug)', env)).toEqual(['math-div', 'known-bug']);
+    expect(names('(and "^math" (not (tag quick)))', env)).toEqual(['math-div']);
+    expect(names('(or (eql known-bug) (tag quick))', env)).toEqual(['math-add', 'text-upcase', 'known-bug']);
+  });
+
+  it('selects by the last result', async () => {
+    const { env } = await load(suite);
+    expect(names(':new', env)).toHaveLength(4);
+    await runErtTests(parse('"^math"'), env);
+    expect(names(':new', env)).toEqual(['text-upcase', 'known-bug']);
+    await runErtTests(parse('t'), env);
+    expect(names(':passed', env)).toEqual(['math-add', 'math-div']);
+    expect(names(':failed', env)).toEqual(['text-upcase', 'known-bug']);
+    expect(names(':unexpected', env)).toEqual(['text-upcase']);
+    expect(names(':expected', env)).toEqual(['math-add', 'math-div', 'known-bug']);
+  });
+
+  it('rejects an invalid selector', async () => {
+    const { env } = await load(suite);
+    expect(() => selectTests(parse('(frob)'), env)).toThrow('Invalid test selector: (frob)');
+  });
+});
+
+describe('results', () => {
+  it('formats counts, progress and failures', async () => {
+    const { env } = await load(`
+      (ert-deftest passes () (should t))
+      (ert-deftest fails () "Checks addition." (should (= (+ 1 2) 4)))
+      (ert-deftest skips () (skip-unless nil))
+      (ert-deftest known-bug () :expected-result :failed (should nil))`);
+    const run = await runErtTests(parse('t'), env);
+    expect(formatErtResults(run)).toBe([
+      'Selector: t',
+      'Passed:  1',
+      'Skipped: 1',
+      'Failed:  2 (1 unexpected)',
+      'Total:   4/4',
+      '',
+      'Finished.',
+      '',
+      '.Fsf',
+      '',
+      'F fails',
+      '    Checks addition.',
+      '    (ert-test-failed ((should (= (+ 1 2) 4)) :form (= 3 4) :value nil))',
+      '',
+      's skips',
+      '    (ert-test-skipped ((skip-unless nil) :form nil :value nil))',
+      '',
+      'f known-bug',
+      '    (ert-test-failed ((should nil) :form nil :value nil))',
+      '',
+    ].join('\n'));
+  });
+});
+
+describe('batch mode', () => {
+  it('logs a line per test and a summary', async () => {
+    const { env, log } = await load(`
+      (ert-deftest passes () (should t))
+      (ert-deftest fails () (should (= 1 2)))`);
+    expect(await runErtBatch(env, parse('t'), line => log.push(line))).toBe(false);
+    expect(log).toEqual([
+      'Running 2 tests',
+      '   passed  1/2  passes',
+      'Test fails condition:\n    (ert-test-failed ((should (= 1 2)) :form (= 1 2) :value nil))',
+      '   FAILED  2/2  fails',
+      '',
+      'Ran 2 tests, 1 results as expected, 1 unexpected',
+      '',
+      '1 unexpected results:',
+      '   FAILED  fails',
+    ]);
+  });
+
+  it('succeeds when every result is expected', async () => {
+    const { env, log } = await load(`
+      (ert-deftest passes () (should t))
+      (ert-deftest skips () (skip-unless nil))`);
+    expect(await runErtBatch(env, parse('t'), line => log.push(line))).toBe(true);
+    expect(log[log.length - 1]).toBe('Ran 2 tests, 1 results as expected, 0 unexpected, 1 skipped');
+  });
+
+  it('edits buffers through the stub API', async () => {
+    const { env, log } = await load(`
+      (ert-deftest buffers ()
+        (with-current-buffer (get-buffer-create "work")
+          (insert "hello world")
+          (goto-char 5)
+          (should (looking-at " world"))
+          (delete-region 5 (point-max))
+          (should (equal (buffer-string) "hello")))
+        (should (equal (buffer-name) "*scratch*")))
+      (ert-deftest windows () (should-error (split-window) :type 'error))
+      (message "loaded")`);
+    expect(log).toEqual(['loaded']);
+    expect(await runErtBatch(env, parse('t'), line => log.push(line))).toBe(true);
+  });
+});
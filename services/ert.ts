@@ -0,0 +1,536 @@
+// ERT, the Emacs Lisp Regression Testing tool, for React Emacs
+//
+// ert-deftest adds a test to a table kept per global environment. should,
+// should-not and should-error signal ert-test-failed with the form, its
+// value and, for equal and string=, an explanation of the difference. The
+// editor runs tests with M-x ert; runErtBatch runs them from Node against a
+// stub EmacsAPI, as emacs -batch does.
+
+import { EmacsAPI, LispEnv, LispError, LispThrow, LispVal, createGlobalEnv, defineError, defineMacro, definePrimitive, errorConditions,
+  callFunction, resolveFunction, evalLisp, listElements, isEqual, isTrue, toLispError, lispError, printLisp, prettyPrintLisp,
+  mkBool, mkCons, mkList, mkNull, mkNum, mkStr, mkSym } from './lisp';
+import { makeSparseKeymap } from './keymap';
+import { createBuiltinModes, lineStartAt, lineEndAt } from './modes';
+import { emacsRegexpToJs } from './search';
+
+export const ERT_BUFFER = '*ert*';
+
+export type ErtStatus = 'passed' | 'failed' | 'skipped';
+
+export interface ErtResult {
+  status: ErtStatus;
+  condition?: LispError; // What a failed or skipped test signaled
+}
+
+export interface ErtTest {
+  name: string;
+  doc?: string;
+  tags: string[];
+  expectedResult: 'passed' | 'failed'; // From :expected-result
+  body: LispVal; // A function of no arguments
+  result?: ErtResult; // Of the last run
+}
+
+// The tests a selector chose, in definition order. The first `completed`
+// have run, and their results are on them.
+export interface ErtRun {
+  selector: LispVal;
+  tests: ErtTest[];
+  completed: number;
+}
+
+// --- Defining tests ---
+
+const registries = new WeakMap<LispEnv, Map<string, ErtTest>>();
+
+const registry = (env: LispEnv): Map<string, ErtTest> => {
+  const global = env.global();
+  if (!registries.has(global)) registries.set(global, new Map());
+  return registries.get(global)!;
+};
+
+export const ertTests = (env: LispEnv): ErtTest[] => [...registry(env).values()];
+
+export const ertTest = (env: LispEnv, name: string): ErtTest | undefined => registry(env).get(name);
+
+const ERT_MACROS = [
+  `(defmacro ert-deftest (name args &rest body)
+     "Define NAME as a test: (ert-deftest NAME () [DOCSTRING] [:tags TAGS] [:expected-result TYPE] BODY...)."
+     \`(ert--define-test ',name ',body))`,
+  `(defmacro should (form)
+     "Evaluate FORM. If it returns nil, fail the current test."
+     (ert--expand-should 'should form))`,
+  `(defmacro should-not (form)
+     "Evaluate FORM. If it returns non-nil, fail the current test."
+     (ert--expand-should 'should-not form))`,
+  `(defmacro skip-unless (form)
+     "Evaluate FORM. If it returns nil, skip the current test."
+     (ert--expand-should 'skip-unless form))`,
+  `(defmacro should-error (form &rest keys)
+     "Evaluate FORM and fail the current test unless it signals an error.
+KEYS may give :type, an error symbol or a list of them one of which the
+error must have as a condition. Returns the error as (ERROR-SYMBOL . DATA)."
+     \`(ert--should-error '(should-error ,form ,@keys) (lambda () ,form) (list ,@keys)))`,
+];
+
+// Why two values are not equal, as ERT's explainer for equal puts it, or
+// null if they are
+const explainEqual = (a: LispVal, b: LispVal): LispVal | null => {
+  if (isEqual(a, b)) return null;
+  const isList = (v: LispVal) => v.type === 'CONS' || v.type === 'NULL';
+  if (a.type !== b.type && !(isList(a) && isList(b))) return mkList([mkSym('different-types'), a, b]);
+  const mismatch = (kind: string, as: LispVal[], bs: LispVal[], explain: (x: LispVal, y: LispVal) => LispVal | null) => {
+    if (as.length !== bs.length) {
+      let i = 0;
+      while (i < Math.min(as.length, bs.length) && isEqual(as[i], bs[i])) i++;
+      return mkList([mkSym(`${kind}-of-different-length`), mkNum(as.length), mkNum(bs.length), a, b, mkSym('first-mismatch-at'), mkNum(i)]);
+    }
+    const i = as.findIndex((x, j) => !isEqual(x, bs[j]));
+    return mkList([mkSym(kind === 'proper-lists' ? 'list-elt' : 'array-elt'), mkNum(i), explain(as[i], bs[i])!]);
+  };
+  if (isList(a)) {
+    let as: LispVal[], bs: LispVal[];
+    try {
+      [as, bs] = [listElements(a), listElements(b)];
+    } catch {
+      // Dotted: compare the cars, then the cdrs
+      const car = explainEqual(a.car || mkNull(), b.car || mkNull());
+      if (car) return mkList([mkSym('car-mismatch'), car]);
+      return mkList([mkSym('cdr-mismatch'), explainEqual(a.cdr || mkNull(), b.cdr || mkNull())!]);
+    }
+    return mismatch('proper-lists', as, bs, explainEqual);
+  }
+  if (a.type === 'VECTOR') return mismatch('arrays', a.elements!, b.elements!, explainEqual);
+  if (a.type === 'STRING') {
+    // Characters are shown as (CODE "#xHEX" "?C")
+    const chars = (s: string) => [...s].map(c => mkNum(c.codePointAt(0)!));
+    const describe = (c: LispVal) => mkList([c, mkStr(`#x${c.value.toString(16)}`), mkStr(`?${String.fromCodePoint(c.value)}`)]);
+    return mismatch('arrays', chars(a.value), chars(b.value), (x, y) => mkList([mkSym('different-atoms'), describe(x), describe(y)]));
+  }
+  return mkList([mkSym('different-atoms'), a, b]);
+};
+
+const EXPLAINERS: Record<string, (a: LispVal, b: LispVal) => LispVal | null> = {
+  'equal': explainEqual,
+  'string=': explainEqual,
+  'string-equal': explainEqual,
+};
+
+// Add the test macros and the functions behind them to a global environment
+export const installErt = (env: LispEnv) => {
+  const register = (name: string, min: number, max: number, fn: (args: LispVal[], env: LispEnv) => LispVal | Promise<LispVal>) =>
+    definePrimitive(env, name, min, max, fn);
+  const quote = (val: LispVal) => mkList([mkSym('quote'), val]);
+
+  defineError('ert-test-failed', 'Test failed');
+  defineError('ert-test-skipped', 'Test skipped');
+  for (const source of ERT_MACROS) defineMacro(env, source);
+
+  register('ert--define-test', 2, 2, async (args, scope) => {
+    // BODY may start with a docstring, then :tags and :expected-result, whose values are evaluated
+    const [name, body] = args;
+    let forms = listElements(body);
+    const test: ErtTest = { name: name.name!, tags: [], expectedResult: 'passed', body: mkNull() };
+    if (forms.length > 0 && forms[0].type === 'STRING') {
+      test.doc = forms[0].value;
+      forms = forms.slice(1);
+    }
+    while (forms.length > 1 && forms[0].type === 'SYMBOL' && forms[0].name!.startsWith(':')) {
+      const [keyword, value] = [forms[0].name!, await evalLisp(forms[1], scope)];
+      if (keyword === ':tags') test.tags = listElements(value).map(tag => tag.name!);
+      else if (keyword === ':expected-result') test.expectedResult = value.name === ':failed' ? 'failed' : 'passed';
+      else throw lispError(`Unknown keyword in ert-deftest: ${keyword}`);
+      forms = forms.slice(2);
+    }
+    test.body = await evalLisp(mkList([mkSym('lambda'), mkNull(), ...forms]), scope);
+    registry(scope).set(test.name, test);
+    return name;
+  });
+
+  // should and friends: a call of a function is expanded so the failure
+  // can show the arguments' values; any other form is just evaluated
+  register('ert--expand-should', 2, 2, (args, scope) => {
+    const [kind, form] = args;
+    const head = form.type === 'CONS' ? form.car! : null;
+    let isCall = false;
+    try {
+      isCall = head !== null && head.type === 'SYMBOL' && !!resolveFunction(head, scope);
+    } catch {
+      // Not a function: a special form, a macro or unbound
+    }
+    if (isCall) return mkList([mkSym('ert--check-call'), quote(kind), quote(form), quote(head!), mkCons(mkSym('list'), form.cdr!)]);
+    return mkList([mkSym('ert--check-value'), quote(kind), quote(form), form]);
+  });
+
+  const check = (kind: LispVal, form: LispVal, value: LispVal, details: LispVal[]): LispVal => {
+    const negated = kind.name === 'should-not';
+    if (isTrue(value) !== negated) return negated ? mkNull() : value;
+    const info = mkList([mkList([kind, form]), ...details]);
+    throw new LispError(kind.name === 'skip-unless' ? 'ert-test-skipped' : 'ert-test-failed', [info]);
+  };
+  register('ert--check-call', 4, 4, async (args, scope) => {
+    const [kind, form, fn, fnArgs] = args;
+    const value = await callFunction(fn, listElements(fnArgs), scope);
+    const details = [mkSym(':form'), mkCons(fn, fnArgs), mkSym(':value'), value];
+    const explainer = EXPLAINERS[fn.name!];
+    if (kind.name === 'should' && !isTrue(value) && explainer) {
+      const [a, b] = listElements(fnArgs);
+      const explanation = a && b ? explainer(a, b) : null;
+      if (explanation) details.push(mkSym(':explanation'), explanation);
+    }
+    return check(kind, form, value, details);
+  });
+  register('ert--check-value', 3, 3, args => check(args[0], args[1], args[2], [mkSym(':form'), args[1], mkSym(':value'), args[2]]));
+
+  register('ert--should-error', 3, 3, async (args, scope) => {
+    const [whole, thunk, keys] = args;
+    const form = listElements(whole)[1];
+    const plist = listElements(keys);
+    const typeIndex = plist.findIndex((key, i) => i % 2 === 0 && key.name === ':type');
+    const type = typeIndex === -1 ? mkNull() : plist[typeIndex + 1] || mkNull();
+    const types = type.type === 'CONS' ? listElements(type).map(t => t.name!) : type.type === 'SYMBOL' ? [type.name!] : [];
+    const fail = (details: LispVal[]) => new LispError('ert-test-failed', [mkList([whole, mkSym(':form'), form, ...details])]);
+    let value: LispVal;
+    try {
+      value = await callFunction(thunk, [], scope);
+    } catch (e) {
+      if (e instanceof LispThrow) throw e;
+      const err = toLispError(e);
+      const conditions = errorConditions(err.symbol);
+      if (!conditions.includes('error')) throw err; // A quit is not an error
+      const condition = mkList([mkSym(err.symbol), ...err.data]);
+      if (types.length > 0 && !types.some(t => conditions.includes(t))) {
+        throw fail([mkSym(':condition'), condition, mkSym(':fail-reason'), mkStr('the error signaled did not have the expected type')]);
+      }
+      return condition;
+    }
+    throw fail([mkSym(':value'), value, mkSym(':fail-reason'), mkStr('did not signal an error')]);
+  });
+
+  register('ert-fail', 1, 1, args => {
+    throw new LispError('ert-test-failed', [args[0]]);
+  });
+  register('ert-skip', 1, 1, args => {
+    throw new LispError('ert-test-skipped', [args[0]]);
+  });
+  register('ert-test-boundp', 1, 1, (args, scope) => mkBool(args[0].type === 'SYMBOL' && registry(scope).has(args[0].name!)));
+  register('ert-delete-test', 1, 1, (args, scope) => {
+    registry(scope).delete(args[0].name!);
+    return args[0];
+  });
+  register('ert-delete-all-tests', 0, 0, (_, scope) => {
+    registry(scope).clear();
+    return mkBool(true);
+  });
+};
+
+// --- Running tests ---
+
+// Skipping is never unexpected; otherwise the status must match :expected-result
+export const isExpected = (test: ErtTest): boolean =>
+  !!test.result && (test.result.status === 'skipped' || test.result.status === test.expectedResult);
+
+// Whether a selector chooses a test. Selectors are t, nil, a regexp
+// matching names, a test name, :new, :passed, :failed, :skipped,
+// :expected, :unexpected, (member TESTS...), (eql TEST), (tag TAG),
+// (not SELECTOR), (and SELECTORS...) and (or SELECTORS...).
+const selects = (selector: LispVal, test: ErtTest): boolean => {
+  switch (selector.type) {
+    case 'BOOL': return true;
+    case 'NULL': return false;
+    case 'STRING': return new RegExp(emacsRegexpToJs(selector.value)).test(test.name);
+    case 'SYMBOL':
+      switch (selector.name) {
+        case ':new': return !test.result;
+        case ':passed': case ':failed': case ':skipped': return test.result?.status === selector.name.slice(1);
+        case ':expected': return !!test.result && isExpected(test);
+        case ':unexpected': return !!test.result && !isExpected(test);
+        default: return selector.name === test.name;
+      }
+    case 'CONS': {
+      const [op, ...operands] = listElements(selector);
+      switch (op.name) {
+        case 'member': case 'eql': return operands.some(name => name.name === test.name);
+        case 'tag': return operands.some(tag => test.tags.includes(tag.name!));
+        case 'not': return !selects(operands[0], test);
+        case 'and': return operands.every(s => selects(s, test));
+        case 'or': return operands.some(s => selects(s, test));
+      }
+    }
+  }
+  throw lispError(`Invalid test selector: ${printLisp(selector)}`);
+};
+
+export const selectTests = (selector: LispVal, env: LispEnv): ErtTest[] => ertTests(env).filter(test => selects(selector, test));
+
+// Run one test, recording its result on it. A quit stops the run rather
+// than failing the test.
+export const runErtTest = async (test: ErtTest, env: LispEnv): Promise<ErtResult> => {
+  let result: ErtResult;
+  try {
+    await callFunction(test.body, [], env.global());
+    result = { status: 'passed' };
+  } catch (e) {
+    const condition = toLispError(e);
+    if (condition.symbol === 'quit') throw condition;
+    result = { status: condition.symbol === 'ert-test-skipped' ? 'skipped' : 'failed', condition };
+  }
+  test.result = result;
+  return result;
+};
+
+// Run the tests a selector chooses, calling onProgress as the run starts
+// and after each test
+export const runErtTests = async (selector: LispVal, env: LispEnv, onProgress?: (run: ErtRun) => void): Promise<ErtRun> => {
+  const run: ErtRun = { selector, tests: selectTests(selector, env), completed: 0 };
+  onProgress?.(run);
+  for (const test of run.tests) {
+    await runErtTest(test, env);
+    run.completed++;
+    onProgress?.(run);
+  }
+  return run;
+};
+
+// --- Results ---
+
+// The character for a result in the progress line: . passed, F failed and
+// s skipped; P and f are the unexpected pass and expected failure of a
+// test whose :expected-result is :failed
+const resultChar = (test: ErtTest): string => {
+  const { status } = test.result!;
+  if (status === 'skipped') return 's';
+  if (status === 'passed') return isExpected(test) ? '.' : 'P';
+  return isExpected(test) ? 'f' : 'F';
+};
+
+const conditionText = (condition: LispError, indent: number): string =>
+  ' '.repeat(indent) + prettyPrintLisp(mkList([mkSym(condition.symbol), ...condition.data]), 70, indent);
+
+// An entry in the results: a result character and the test name
+const ENTRY = /^[.PfFs] (\S+)$/;
+
+// The *ert* buffer's text: the counts, a character per finished test, then
+// an entry for each test that did not simply pass with its condition
+export const formatErtResults = (run: ErtRun): string => {
+  const done = run.tests.slice(0, run.completed);
+  const tally = (status: ErtStatus): string => {
+    const tests = done.filter(t => t.result!.status === status);
+    const unexpected = tests.filter(t => !isExpected(t)).length;
+    return `${tests.length}${unexpected > 0 ? ` (${unexpected} unexpected)` : ''}`;
+  };
+  const lines = [
+    `Selector: ${printLisp(run.selector)}`,
+    `Passed:  ${tally('passed')}`,
+    `Skipped: ${tally('skipped')}`,
+    `Failed:  ${tally('failed')}`,
+    `Total:   ${run.completed}/${run.tests.length}`,
+    '',
+    run.completed < run.tests.length ? 'Running...' : 'Finished.',
+    '',
+    done.map(resultChar).join(''),
+    '',
+  ];
+  for (const test of done.filter(t => resultChar(t) !== '.')) {
+    lines.push(`${resultChar(test)} ${test.name}`);
+    if (test.doc) lines.push(`    ${test.doc.split('\n')[0]}`);
+    if (test.result!.condition) lines.push(conditionText(test.result!.condition, 4));
+    lines.push('');
+  }
+  return lines.join('\n');
+};
+
+// The test at pos in the *ert* buffer: the one whose entry is on that
+// line, or whose character in the progress line is there
+export const ertTestAt = (run: ErtRun, content: string, pos: number): ErtTest | undefined => {
+  const start = lineStartAt(content, pos);
+  const line = content.slice(start, lineEndAt(content, pos));
+  const done = run.tests.slice(0, run.completed);
+  if (line !== '' && line === done.map(resultChar).join('')) return done[Math.min(pos - start, done.length - 1)];
+  const entry = ENTRY.exec(line);
+  return entry ? run.tests.find(test => test.name === entry[1]) : undefined;
+};
+
+// Where each test entry starts in the *ert* buffer, for n and p
+export const ertEntryPositions = (content: string): number[] => {
+  const positions: number[] = [];
+  let start = 0;
+  for (const line of content.split('\n')) {
+    if (ENTRY.test(line)) positions.push(start);
+    start += line.length + 1;
+  }
+  return positions;
+};
+
+// --- Batch mode ---
+
+export interface BatchOptions {
+  readFile?: (path: string) => string | null; // For load; null if there is no such file
+  log?: (line: string) => void; // Where messages and results go
+}
+
+// An EmacsAPI without an editor, for running Lisp from Node as emacs -batch
+// does. Buffers hold text, point and mark; windows, files, keymaps, undo
+// and the minibuffer are not available.
+export const createStubApi = (options: BatchOptions = {}): EmacsAPI => {
+  const log = options.log || console.log;
+  const readFile = options.readFile || (() => null);
+  const unavailable = (what: string) => (): never => {
+    throw lispError(`${what} is not available in batch mode`);
+  };
+
+  interface StubBuffer { content: string; point: number; mark: number | null; mode: string; hooks: Map<string, LispVal> }
+  const newBuffer = (): StubBuffer => ({ content: '', point: 0, mark: null, mode: 'fundamental-mode', hooks: new Map() });
+  const buffers = new Map<string, StubBuffer>([['*scratch*', newBuffer()]]);
+  let current = '*scratch*';
+  const buf = () => buffers.get(current)!;
+  const killRing: string[] = [];
+  const modes = createBuiltinModes();
+  const globalMap = makeSparseKeymap();
+
+  const insert = (text: string) => {
+    const b = buf();
+    b.content = b.content.slice(0, b.point) + text + b.content.slice(b.point);
+    b.point += text.length;
+  };
+  const deleteRegion = (start: number, end: number) => {
+    const b = buf();
+    const [from, to] = [Math.min(start, end), Math.max(start, end)];
+    b.content = b.content.slice(0, from) + b.content.slice(to);
+    const shift = (pos: number) => (pos > to ? pos - (to - from) : Math.min(pos, from));
+    b.point = shift(b.point);
+    if (b.mark !== null) b.mark = shift(b.mark);
+  };
+  const getBufferCreate = (name: string) => {
+    if (!buffers.has(name)) buffers.set(name, newBuffer());
+  };
+  const killNew = (text: string) => {
+    killRing.unshift(text);
+  };
+
+  return {
+    message: msg => log(msg),
+    insert,
+    deleteRegion,
+    getBufferContent: () => buf().content,
+    getCursor: () => buf().point,
+    setCursor: pos => {
+      buf().point = Math.max(0, Math.min(pos, buf().content.length));
+    },
+    switchBuffer: name => {
+      getBufferCreate(name);
+      current = name;
+    },
+    setBuffer: name => {
+      current = name;
+    },
+    getBufferCreate,
+    currentBufferName: () => current,
+    bufferReadOnly: () => false,
+    saveExcursion: () => {
+      const [name, point] = [current, buf().point];
+      return () => {
+        if (!buffers.has(name)) return;
+        current = name;
+        buf().point = Math.min(point, buf().content.length);
+      };
+    },
+    killBuffer: async name => {
+      buffers.delete(name);
+      if (buffers.size === 0) buffers.set('*scratch*', newBuffer());
+      if (!buffers.has(current)) current = buffers.keys().next().value!;
+    },
+    undo: unavailable('Undo'),
+    undoBoundary: () => {},
+    getMark: () => buf().mark,
+    setMark: pos => {
+      buf().mark = pos;
+    },
+    killRegion: (start, end) => {
+      killNew(buf().content.slice(Math.min(start, end), Math.max(start, end)));
+      deleteRegion(start, end);
+    },
+    copyRegionAsKill: (start, end) => killNew(buf().content.slice(Math.min(start, end), Math.max(start, end))),
+    yank: () => {
+      if (killRing.length === 0) throw lispError('Kill ring is empty');
+      buf().mark = buf().point;
+      insert(killRing[0]);
+    },
+    killNew,
+    currentKill: n => (killRing.length > 0 ? killRing[((n % killRing.length) + killRing.length) % killRing.length] : null),
+    findFile: unavailable('Visiting files'),
+    saveBuffer: unavailable('Saving buffers'),
+    fileExists: path => readFile(path) !== null,
+    readFile,
+    directoryFiles: unavailable('Listing directories'),
+    deleteFile: unavailable('Deleting files'),
+    selectedWindow: unavailable('Windows'),
+    splitWindow: unavailable('Windows'),
+    windowBuffer: unavailable('Windows'),
+    setWindowBuffer: unavailable('Windows'),
+    windowList: unavailable('Windows'),
+    deleteWindow: unavailable('Windows'),
+    otherWindow: unavailable('Windows'),
+    globalMap: () => globalMap,
+    localMap: () => modes[buf().mode].keymap,
+    minorModeMaps: () => [],
+    keyBinding: () => undefined,
+    commandp: () => false,
+    callInteractively: unavailable('Calling commands'),
+    readFromMinibuffer: async () => unavailable('The minibuffer')(),
+    bufferNames: () => [...buffers.keys()],
+    majorModes: () => modes,
+    currentMajorMode: () => buf().mode,
+    setMajorMode: async name => {
+      buf().mode = name;
+    },
+    defineMajorMode: mode => {
+      modes[mode.name] = mode;
+    },
+    fontLockAddKeywords: () => {},
+    localHook: name => buf().hooks.get(name),
+    setLocalHook: (name, value) => {
+      if (value === null) buf().hooks.delete(name);
+      else buf().hooks.set(name, value);
+    },
+  };
+};
+
+// A global environment with ERT over a stub EmacsAPI
+export const createBatchEnv = (options: BatchOptions = {}): LispEnv => {
+  const env = createGlobalEnv(createStubApi(options));
+  installErt(env);
+  return env;
+};
+
+const statusWord = (test: ErtTest): string => {
+  const { status } = test.result!;
+  if (status === 'skipped') return 'skipped';
+  return isExpected(test) ? status : status.toUpperCase();
+};
+
+// Run the tests a selector chooses and log as ert-run-tests-batch does: a
+// line per test, the condition of each failure and a summary. Says whether
+// every result was as expected.
+export const runErtBatch = async (env: LispEnv, selector: LispVal = mkBool(true), log: (line: string) => void = console.log): Promise<boolean> => {
+  const run = await runErtTests(selector, env, ({ tests, completed }) => {
+    if (completed === 0) {
+      log(`Running ${tests.length} tests`);
+      return;
+    }
+    const test = tests[completed - 1];
+    if (test.result!.condition && !isExpected(test)) log(`Test ${test.name} condition:\n${conditionText(test.result!.condition, 4)}`);
+    log(`${statusWord(test).padStart(9)}  ${completed}/${tests.length}  ${test.name}`);
+  });
+  const total = run.tests.length;
+  const unexpected = run.tests.filter(test => !isExpected(test));
+  const skipped = run.tests.filter(test => test.result!.status === 'skipped').length;
+  log('');
+  log(`Ran ${total} tests, ${total - unexpected.length - skipped} results as expected, ${unexpected.length} unexpected${skipped > 0 ? `, ${skipped} skipped` : ''}`);
+  if (unexpected.length > 0) {
+    log('');
+    log(`${unexpected.length} unexpected results:`);
+    for (const test of unexpected) log(`${statusWord(test).padStart(9)}  ${test.name}`);
+  }
+  return unexpected.length === 0;
+};
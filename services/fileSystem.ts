@@ -0,0 +1,236 @@
+// Virtual Filesystem for React Emacs
+//
+// Files are kept in memory so Lisp can read and write them synchronously.
+// Every change is written through to a StorageBackend: IndexedDB in the
+// browser, a plain in-memory store in tests or where IndexedDB is missing.
+
+export const HOME_DIRECTORY = '/home/user';
+
+export interface FileEntry {
+  path: string; // Absolute, normalized
+  type: 'file' | 'directory';
+  content: string;
+  mtime: number; // Milliseconds, strictly increasing per path
+}
+
+export interface StorageBackend {
+  loadAll: () => Promise<FileEntry[]>;
+  put: (entry: FileEntry) => Promise<void>;
+  remove: (path: string) => Promise<void>;
+}
+
+// --- Paths ---
+
+// Resolve "~", ".", ".." and relative names against a directory. As in
+// Emacs, "//" or "/~" starts the name over, so a path typed after the
+// directory a prompt offers replaces it: "~//tmp/a" is "/tmp/a".
+export const expandFileName = (name: string, directory: string = HOME_DIRECTORY): string => {
+  let path = name.trim().replace(/^.*\/(?=\/|~(?:\/|$))/, '');
+  if (path === '~' || path.startsWith('~/')) path = HOME_DIRECTORY + path.slice(1);
+  if (!path.startsWith('/')) path = `${directory}/${path}`;
+
+  const parts: string[] = [];
+  for (const part of path.split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part === '..') parts.pop();
+    else parts.push(part);
+  }
+  return '/' + parts.join('/');
+};
+
+// Show paths under the home directory as "~/..."
+export const abbreviateFileName = (path: string): string => {
+  if (path === HOME_DIRECTORY) return '~';
+  if (path.startsWith(HOME_DIRECTORY + '/')) return '~' + path.slice(HOME_DIRECTORY.length);
+  return path;
+};
+
+export const fileNameDirectory = (path: string): string => {
+  const idx = path.lastIndexOf('/');
+  return idx <= 0 ? '/' : path.slice(0, idx);
+};
+
+export const fileNameNondirectory = (path: string): string => path.slice(path.lastIndexOf('/') + 1);
+
+// --- Backends ---
+
+export class MemoryBackend implements StorageBackend {
+  private store = new Map<string, FileEntry>();
+
+  async loadAll() {
+    return Array.from(this.store.values()).map(e => ({ ...e }));
+  }
+
+  async put(entry: FileEntry) {
+    this.store.set(entry.path, { ...entry });
+  }
+
+  async remove(path: string) {
+    this.store.delete(path);
+  }
+}
+
+const DB_NAME = 'react-emacs';
+const STORE_NAME = 'files';
+
+export class IndexedDBBackend implements StorageBackend {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, 1);
+        req.onupgradeneeded = () => {
+          req.result.createObjectStore(STORE_NAME, { keyPath: 'path' });
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+    }
+    return this.db;
+  }
+
+  private async request<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const req = fn(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  }
+
+  async loadAll() {
+    return this.request<FileEntry[]>('readonly', store => store.getAll());
+  }
+
+  async put(entry: FileEntry) {
+    await this.request('readwrite', store => store.put(entry));
+  }
+
+  async remove(path: string) {
+    await this.request('readwrite', store => store.delete(path));
+  }
+}
+
+// --- Filesystem ---
+
+export class FileError extends Error {
+  path: string;
+
+  constructor(message: string, path: string) {
+    super(`${message}: ${path}`);
+    this.path = path;
+  }
+}
+
+export class VirtualFileSystem {
+  private entries = new Map<string, FileEntry>();
+  private pending: Promise<void> = Promise.resolve();
+  backend: StorageBackend;
+
+  constructor(backend: StorageBackend) {
+    this.backend = backend;
+    this.ensureRoots();
+  }
+
+  // (Re)read everything from the backend, e.g. at startup or when another tab may have written
+  async load() {
+    await this.pending;
+    const stored = await this.backend.loadAll();
+    this.entries = new Map(stored.map(e => [e.path, e]));
+    this.ensureRoots();
+  }
+
+  // Resolves once all writes so far have reached the backend
+  flush(): Promise<void> {
+    return this.pending;
+  }
+
+  stat(path: string): FileEntry | null {
+    const entry = this.entries.get(path);
+    return entry ? { ...entry } : null;
+  }
+
+  exists(path: string): boolean {
+    return this.entries.has(path);
+  }
+
+  isDirectory(path: string): boolean {
+    return this.entries.get(path)?.type === 'directory';
+  }
+
+  readFile(path: string): string {
+    const entry = this.entries.get(path);
+    if (!entry) throw new FileError('No such file or directory', path);
+    if (entry.type === 'directory') throw new FileError('Is a directory', path);
+    return entry.content;
+  }
+
+  // Missing parent directories are created, like `mkdir -p` before saving
+  writeFile(path: string, content: string): FileEntry {
+    const existing = this.entries.get(path);
+    if (existing?.type === 'directory') throw new FileError('Is a directory', path);
+    this.makeDirectory(fileNameDirectory(path));
+    return this.putEntry({ path, type: 'file', content, mtime: this.nextMtime(existing) });
+  }
+
+  makeDirectory(path: string) {
+    if (path === '/') return;
+    const existing = this.entries.get(path);
+    if (existing?.type === 'file') throw new FileError('File exists', path);
+    if (existing) return;
+    this.makeDirectory(fileNameDirectory(path));
+    this.putEntry({ path, type: 'directory', content: '', mtime: this.nextMtime() });
+  }
+
+  deleteFile(path: string) {
+    const entry = this.entries.get(path);
+    if (!entry) throw new FileError('No such file or directory', path);
+    if (entry.type === 'directory') {
+      if (this.listDirectory(path).length > 0) throw new FileError('Directory not empty', path);
+    }
+    this.entries.delete(path);
+    this.persist(() => this.backend.remove(path));
+  }
+
+  // Names (not paths) of the direct children of a directory, sorted
+  listDirectory(path: string): string[] {
+    if (!this.isDirectory(path)) throw new FileError('Not a directory', path);
+    const prefix = path === '/' ? '/' : path + '/';
+    const names: string[] = [];
+    for (const childPath of this.entries.keys()) {
+      if (childPath.startsWith(prefix) && childPath !== path && !childPath.slice(prefix.length).includes('/')) {
+        names.push(childPath.slice(prefix.length));
+      }
+    }
+    return names.sort();
+  }
+
+  private ensureRoots() {
+    if (!this.entries.has('/')) {
+      this.entries.set('/', { path: '/', type: 'directory', content: '', mtime: 0 });
+    }
+    if (!this.entries.has(HOME_DIRECTORY)) this.makeDirectory(HOME_DIRECTORY);
+  }
+
+  private nextMtime(previous?: FileEntry): number {
+    return Math.max(Date.now(), previous ? previous.mtime + 1 : 0);
+  }
+
+  private putEntry(entry: FileEntry): FileEntry {
+    this.entries.set(entry.path, entry);
+    this.persist(() => this.backend.put({ ...entry }));
+    return { ...entry };
+  }
+
+  private persist(write: () => Promise<void>) {
+    this.pending = this.pending.then(write).catch(error => {
+      console.error("Filesystem write error:", error);
+    });
+  }
+}
+
+export const createFileSystem = (): VirtualFileSystem => {
+  const backend = typeof indexedDB !== 'undefined' ? new IndexedDBBackend() : new MemoryBackend();
+  return new VirtualFileSystem(backend);
+};
@@ -0,0 +1,165 @@
+// Font-lock for React Emacs: split buffer text into faces per major mode
+//
+// Text is fontified in chunks that start at the beginning of a line outside
+// any string or comment. A syntactic pass finds strings and comments, then
+// the mode's keyword rules run over the rest. After an edit only the chunks
+// from the change up to the first chunk boundary the old result shares are
+// redone.
+
+import { MajorMode, FaceSpan, FontLockKeyword, Face } from '../types';
+import { stringEnd, commentEnd } from './modes';
+import { emacsRegexpToJs } from './search';
+
+export interface Fontification {
+  content: string;
+  modeName: string; // Mode it was computed for
+  spans: FaceSpan[]; // Sorted and non-overlapping
+  chunkStarts: number[]; // Sorted
+}
+
+// Face symbols as written in Lisp
+export const FACE_NAMES: Record<string, Face> = {
+  'font-lock-comment-face': 'comment',
+  'font-lock-string-face': 'string',
+  'font-lock-keyword-face': 'keyword',
+  'font-lock-function-name-face': 'function-name',
+  'font-lock-variable-name-face': 'variable-name',
+  'font-lock-type-face': 'type',
+  'font-lock-constant-face': 'constant',
+};
+
+// A keyword rule from an Emacs regexp, as font-lock-add-keywords takes it
+export const makeKeyword = (regexp: string, group: number, face: Face): FontLockKeyword => ({
+  regexp: new RegExp(emacsRegexpToJs(regexp), 'dgm'),
+  highlights: [[group, face]],
+});
+
+// --- Fontifying ---
+
+// Strings and comments from a top-level line start to the end of the line
+// where scanning is back at top level
+const syntacticChunk = (content: string, from: number, mode: MajorMode): { spans: FaceSpan[]; end: number } => {
+  const syntax = mode.syntaxTable;
+  const spans: FaceSpan[] = [];
+  let i = from;
+  while (i < content.length && content[i] !== '\n') {
+    const afterComment = commentEnd(content, i, syntax);
+    if (afterComment > i) {
+      spans.push({ start: i, end: afterComment, face: 'comment' });
+      i = afterComment;
+    } else if (syntax.stringQuotes.includes(content[i])) {
+      const end = stringEnd(content, i, syntax);
+      spans.push({ start: i, end, face: 'string' });
+      i = end;
+    } else if (content[i] === syntax.escape) {
+      i += 2;
+    } else {
+      i++;
+    }
+  }
+  return { spans, end: Math.min(i, content.length) };
+};
+
+// Apply the keyword rules to content[from, to), skipping anything that
+// overlaps a face already assigned
+const keywordSpans = (content: string, from: number, to: number, syntactic: FaceSpan[], keywords: FontLockKeyword[]): FaceSpan[] => {
+  const taken = [...syntactic];
+  const overlaps = (start: number, end: number) => taken.some(s => s.start < end && s.end > start);
+  const text = content.slice(from, to);
+
+  for (const { regexp, highlights } of keywords) {
+    regexp.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = regexp.exec(text)) !== null) {
+      if (match[0].length === 0) regexp.lastIndex++;
+      for (const [group, face] of highlights) {
+        const range = match.indices?.[group];
+        if (!range || range[0] === range[1]) continue;
+        const [start, end] = [from + range[0], from + range[1]];
+        if (!overlaps(start, end)) taken.push({ start, end, face });
+      }
+    }
+  }
+  return taken.sort((a, b) => a.start - b.start);
+};
+
+// Fontify chunks starting at from until canStop accepts a chunk start
+const fontifyFrom = (
+  content: string,
+  from: number,
+  mode: MajorMode,
+  canStop: (pos: number) => boolean,
+): { spans: FaceSpan[]; chunkStarts: number[]; end: number } => {
+  const spans: FaceSpan[] = [];
+  const chunkStarts: number[] = [];
+  let pos = from;
+  while (pos < content.length) {
+    if (pos > from && canStop(pos)) return { spans, chunkStarts, end: pos };
+    chunkStarts.push(pos);
+    const chunk = syntacticChunk(content, pos, mode);
+    spans.push(...keywordSpans(content, pos, chunk.end, chunk.spans, mode.keywords));
+    pos = chunk.end + 1;
+  }
+  return { spans, chunkStarts, end: content.length };
+};
+
+export const fontify = (content: string, mode: MajorMode): Fontification => {
+  const { spans, chunkStarts } = fontifyFrom(content, 0, mode, () => false);
+  return { content, modeName: mode.name, spans, chunkStarts };
+};
+
+// Largest element of a sorted array that is <= pos
+const floorIndex = (sorted: number[], pos: number): number => {
+  let lo = 0, hi = sorted.length - 1, found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (sorted[mid] <= pos) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+};
+
+// Update a previous fontification for new content, redoing only the
+// chunks around the changed text
+export const refontify = (prev: Fontification | undefined, content: string, mode: MajorMode): Fontification => {
+  if (!prev || prev.modeName !== mode.name) return fontify(content, mode);
+  if (prev.content === content) return prev;
+
+  // The changed text is [changeStart, oldEnd) before and [changeStart, newEnd) after
+  const old = prev.content;
+  let changeStart = 0;
+  const maxPrefix = Math.min(old.length, content.length);
+  while (changeStart < maxPrefix && old[changeStart] === content[changeStart]) changeStart++;
+  let suffix = 0;
+  while (suffix < maxPrefix - changeStart && old[old.length - 1 - suffix] === content[content.length - 1 - suffix]) suffix++;
+  const delta = content.length - old.length;
+  const newEnd = content.length - suffix;
+
+  const restartIndex = floorIndex(prev.chunkStarts, changeStart);
+  const restart = restartIndex === -1 ? 0 : prev.chunkStarts[restartIndex];
+
+  // Stop at a chunk start past the change that was also a chunk start before it
+  const oldStarts = new Set(prev.chunkStarts);
+  const redone = fontifyFrom(content, restart, mode, pos => pos >= newEnd && oldStarts.has(pos - delta));
+  const stopOld = redone.end - delta;
+
+  return {
+    content,
+    modeName: mode.name,
+    spans: [
+      ...prev.spans.filter(s => s.end <= restart),
+      ...redone.spans,
+      ...prev.spans.filter(s => s.start >= stopOld && redone.end < content.length)
+        .map(s => ({ ...s, start: s.start + delta, end: s.end + delta })),
+    ],
+    chunkStarts: [
+      ...prev.chunkStarts.slice(0, Math.max(0, restartIndex)),
+      ...redone.chunkStarts,
+      ...prev.chunkStarts.filter(p => p >= stopOld && redone.end < content.length).map(p => p + delta),
+    ],
+  };
+};
@@ -0,0 +1,54 @@
+// Interactive Emacs Lisp mode (M-x ielm) for React Emacs
+//
+// The *ielm* buffer holds a transcript of prompts, inputs and results. The
+// input is the text after the last prompt, found through a marker so edits
+// above it don't lose track.
+
+import { LispEnv, LispError, LispVal, parseAll, evalLisp, prettyPrintLisp, toLispError, mkNull } from './lisp';
+
+export const IELM_BUFFER = '*ielm*';
+export const IELM_PROMPT = 'ELISP> ';
+export const IELM_BANNER = '*** Welcome to IELM ***  Type (describe-mode) for help.\n';
+export const IELM_INPUT_MARKER = 'ielm-input';
+export const IELM_HISTORY = 'ielm-input-history';
+
+// Input is complete unless it ends inside a list or string, in which case
+// RET starts another line of it
+export const inputComplete = (input: string): boolean => {
+  try {
+    parseAll(input);
+    return true;
+  } catch (e) {
+    return !(e instanceof LispError && e.symbol === 'end-of-file');
+  }
+};
+
+// The evaluation scope: a child of the global environment where *, ** and
+// *** hold the last three values. Binding them here rather than globally
+// keeps the function * working.
+export const createIelmScope = (global: LispEnv): LispEnv => {
+  const scope = new LispEnv(global.api, global);
+  for (const name of ['*', '**', '***']) scope.define(name, mkNull());
+  return scope;
+};
+
+// Evaluate one input and return the text shown after it: the value
+// pretty-printed, or the error
+export const ielmEval = async (input: string, scope: LispEnv): Promise<string> => {
+  let forms: LispVal[];
+  try {
+    forms = parseAll(input);
+  } catch (e) {
+    return `*** Read error ***  ${toLispError(e).message}`;
+  }
+  if (forms.length !== 1) return '*** IELM error ***  More than one sexp in input';
+  try {
+    const value = await evalLisp(forms[0], scope);
+    scope.define('***', scope.get('**'));
+    scope.define('**', scope.get('*'));
+    scope.define('*', value);
+    return prettyPrintLisp(value);
+  } catch (e) {
+    return `*** Eval error ***  ${toLispError(e).message}`;
+  }
+};
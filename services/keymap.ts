@@ -0,0 +1,186 @@
+// Keymaps for React Emacs
+//
+// A key sequence is an array of single-key descriptions in kbd notation,
+// e.g. ["C-x", "C-f"]. Keymaps bind a key to a command name or to another
+// keymap, which makes that key a prefix.
+
+import { Keymap, KeyBinding } from '../types';
+
+// Modifiers in the order Emacs prints them
+const MODIFIERS = ['A', 'C', 'H', 'M', 'S', 's'];
+
+// Keys written as words in kbd notation
+const NAMED_KEYS = new Set(['SPC', 'RET', 'TAB', 'ESC', 'DEL', 'NUL', 'LFD']);
+
+// Browser KeyboardEvent.key values for non-character keys
+const BROWSER_KEYS: Record<string, string> = {
+  ' ': 'SPC',
+  Enter: 'RET',
+  Tab: 'TAB',
+  Escape: 'ESC',
+  Backspace: 'DEL',
+  Delete: '<delete>',
+  Insert: '<insert>',
+  ArrowLeft: '<left>',
+  ArrowRight: '<right>',
+  ArrowUp: '<up>',
+  ArrowDown: '<down>',
+  Home: '<home>',
+  End: '<end>',
+  PageUp: '<prior>',
+  PageDown: '<next>',
+};
+
+const formatKey = (modifiers: Set<string>, base: string): string => {
+  return MODIFIERS.filter(m => modifiers.has(m)).map(m => `${m}-`).join('') + base;
+};
+
+// --- kbd ---
+
+// Parse kbd notation such as "C-x C-f", "M-<" or "C-c <f5>" into a key sequence.
+// A word without modifiers that is not a key name stands for its characters.
+export const parseKeySequence = (description: string): string[] => {
+  const keys: string[] = [];
+  for (const word of description.trim().split(/\s+/).filter(w => w.length > 0)) {
+    const modifiers = new Set<string>();
+    let rest = word;
+    while (rest.length > 2 && rest[1] === '-' && MODIFIERS.includes(rest[0])) {
+      modifiers.add(rest[0]);
+      rest = rest.slice(2);
+    }
+
+    if (rest.length === 1 || NAMED_KEYS.has(rest) || /^<[\w-]+>$/.test(rest)) {
+      keys.push(formatKey(modifiers, rest));
+    } else if (modifiers.size === 0) {
+      keys.push(...Array.from(rest));
+    } else {
+      throw new Error(`${word} is not a valid key`);
+    }
+  }
+  if (keys.length === 0) throw new Error("Empty key sequence");
+  return keys;
+};
+
+export const formatKeySequence = (keys: string[]): string => keys.join(' ');
+
+interface KeyEventLike {
+  key: string;
+  ctrlKey: boolean;
+  altKey: boolean;
+  metaKey: boolean;
+  shiftKey: boolean;
+}
+
+// Describe a keydown event, or return null for a bare modifier or unknown key.
+// On macOS Meta is the Command key, elsewhere it is Alt.
+export const keyEventToDescription = (e: KeyEventLike, isMac: boolean): string | null => {
+  const modifiers = new Set<string>();
+  if (e.ctrlKey) modifiers.add('C');
+  if (isMac ? e.metaKey : e.altKey) modifiers.add('M');
+
+  let base = e.key;
+  if (BROWSER_KEYS[base]) {
+    base = BROWSER_KEYS[base];
+    if (e.shiftKey) modifiers.add('S');
+  } else if (/^F\d{1,2}$/.test(base)) {
+    base = `<f${base.slice(1)}>`;
+    if (e.shiftKey) modifiers.add('S');
+  } else if (base.length !== 1) {
+    return null;
+  } else if (/[A-Z]/.test(base) && modifiers.size > 0) {
+    // Shift is part of printing characters, but C-S-a is a key of its own
+    base = base.toLowerCase();
+    modifiers.add('S');
+  }
+  return formatKey(modifiers, base);
+};
+
+// --- Keymaps ---
+
+export const makeSparseKeymap = (parent?: Keymap): Keymap => ({ kind: 'keymap', bindings: {}, parent });
+
+export const isKeymap = (binding: KeyBinding | undefined): binding is Keymap => {
+  return typeof binding === 'object' && binding.kind === 'keymap';
+};
+
+// Binding of a single key in a map or its parents
+const lookupOne = (map: Keymap, key: string): KeyBinding | undefined => {
+  for (let m: Keymap | undefined = map; m; m = m.parent) {
+    if (key in m.bindings) return m.bindings[key];
+  }
+  return undefined;
+};
+
+// Like Emacs' lookup-key: the binding of the whole sequence, undefined if
+// unbound, or the number of keys that form a complete command when the
+// sequence runs past a non-prefix key.
+export const lookupKey = (map: Keymap, keys: string[]): KeyBinding | number | undefined => {
+  let binding: KeyBinding | undefined = map;
+  for (let i = 0; i < keys.length; i++) {
+    if (!isKeymap(binding)) return i;
+    binding = lookupOne(binding, keys[i]);
+    if (binding === undefined) return undefined;
+  }
+  return binding;
+};
+
+// Bind a key sequence, creating prefix maps along the way. A null binding
+// removes the key.
+export const defineKey = (map: Keymap, keys: string[], binding: KeyBinding | null) => {
+  let current = map;
+  for (let i = 0; i < keys.length - 1; i++) {
+    let next = lookupOne(current, keys[i]);
+    if (next === undefined) {
+      next = makeSparseKeymap();
+      current.bindings[keys[i]] = next;
+    } else if (!isKeymap(next)) {
+      throw new Error(`Key sequence ${formatKeySequence(keys)} starts with non-prefix key ${formatKeySequence(keys.slice(0, i + 1))}`);
+    }
+    current = next;
+  }
+
+  const last = keys[keys.length - 1];
+  if (binding === null) delete current.bindings[last];
+  else current.bindings[last] = binding;
+};
+
+// The binding in effect for a key sequence. Maps are searched in order of
+// precedence (minor modes, major mode, global) and the first binding wins.
+export const keyBinding = (maps: Keymap[], keys: string[]): KeyBinding | undefined => {
+  for (const map of maps) {
+    const binding = lookupKey(map, keys);
+    if (binding !== undefined && typeof binding !== 'number') return binding;
+  }
+  return undefined;
+};
+
+// Key sequences bound to a command, shortest first (for where-is and C-h f)
+export const whereIs = (map: Keymap, command: string): string[][] => {
+  const found: string[][] = [];
+  const walk = (m: Keymap, prefix: string[], seen: Set<Keymap>) => {
+    if (seen.has(m)) return;
+    seen.add(m);
+    for (let cur: Keymap | undefined = m; cur; cur = cur.parent) {
+      for (const [key, binding] of Object.entries(cur.bindings)) {
+        if (binding === command) found.push([...prefix, key]);
+        else if (isKeymap(binding)) walk(binding, [...prefix, key], seen);
+      }
+    }
+  };
+  walk(map, [], new Set());
+  return found.sort((a, b) => a.length - b.length);
+};
+
+// --- Default bindings ---
+
+// The global map with its standard prefix keys. Commands bind their default
+// keys into it; C-f, C-b, C-a, C-e and self-inserting keys stay unbound so
+// the textarea handles them natively.
+export const createGlobalKeymap = (): Keymap => {
+  const global = makeSparseKeymap();
+  defineKey(global, ['C-x'], makeSparseKeymap());
+  defineKey(global, ['C-x', 'r'], makeSparseKeymap()); // Registers and rectangles
+  defineKey(global, ['C-c'], makeSparseKeymap()); // Reserved for users and modes
+  defineKey(global, ['C-h'], makeSparseKeymap()); // Help
+  return global;
+};
@@ -0,0 +1,34 @@
+// Kill ring shared by all buffers (C-w, M-w, C-k, C-y, M-y)
+
+import { KillRing } from '../types';
+
+export const KILL_RING_MAX = 120;
+
+export const emptyKillRing = (): KillRing => ({ entries: [], yankPointer: 0 });
+
+// Push a new kill; the yank pointer is reset to it
+export const killNew = (ring: KillRing, text: string): KillRing => ({
+  entries: [text, ...ring.entries].slice(0, KILL_RING_MAX),
+  yankPointer: 0,
+});
+
+// Add text to the most recent kill (consecutive C-k). Backward kills prepend.
+export const killAppend = (ring: KillRing, text: string, prepend = false): KillRing => {
+  if (ring.entries.length === 0) return killNew(ring, text);
+  const [head, ...rest] = ring.entries;
+  return {
+    entries: [prepend ? text + head : head + text, ...rest],
+    yankPointer: 0,
+  };
+};
+
+// Move the yank pointer n entries towards older kills, wrapping around
+export const rotateKillRing = (ring: KillRing, n: number): KillRing => {
+  const len = ring.entries.length;
+  if (len === 0) return ring;
+  return { ...ring, yankPointer: (((ring.yankPointer + n) % len) + len) % len };
+};
+
+export const currentKill = (ring: KillRing): string | null => {
+  return ring.entries.length > 0 ? ring.entries[ring.yankPointer] : null;
+};
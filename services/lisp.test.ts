@@ -0,0 +1,224 @@
+import { describe, it, expect } from 'vitest';
+import { createStubApi } from './ert';
+import { createGlobalEnv, evalForms, parseAll, printLisp, requestQuit } from './lisp';
+
+// The printed value of the last of the forms, evaluated in a fresh environment
+const evaluate = async (source: string): Promise<string> => printLisp(await evalForms(source, createGlobalEnv(createStubApi())));
+
+describe('built-in functions', () => {
+  it('signal wrong-number-of-arguments for too few or too many arguments', async () => {
+    const caught = (form: string) => evaluate(`(condition-case err ${form} (wrong-number-of-arguments err))`);
+    expect(await caught('(car)')).toBe('(wrong-number-of-arguments car 0)');
+    expect(await caught('(cons 1)')).toBe('(wrong-number-of-arguments cons 1)');
+    expect(await caught('(setcar (list 1) 2 3)')).toBe('(wrong-number-of-arguments setcar 3)');
+    expect(await caught('(split-string)')).toBe('(wrong-number-of-arguments split-string 0)');
+    expect(await caught('(memq 1)')).toBe('(wrong-number-of-arguments memq 1)');
+    expect(await evaluate(`(list (+) (string-trim " a " "x" "y") (substring "abc" 1))`)).toBe('(0 " a " "bc")');
+  });
+
+  it('signal wrong-type-argument for arguments of the wrong type', async () => {
+    const caught = (form: string) => evaluate(`(condition-case err ${form} (wrong-type-argument err))`);
+    expect(await caught('(kill-new 1)')).toBe('(wrong-type-argument stringp 1)');
+    expect(await caught('(kill-region "a" 2)')).toBe('(wrong-type-argument integerp "a")');
+    expect(await caught('(current-kill "a")')).toBe('(wrong-type-argument integerp "a")');
+    expect(await caught('(find-file 1)')).toBe('(wrong-type-argument stringp 1)');
+    expect(await caught('(file-exists-p 1)')).toBe('(wrong-type-argument stringp 1)');
+    expect(await caught('(directory-files 1)')).toBe('(wrong-type-argument stringp 1)');
+    expect(await caught('(delete-file 1)')).toBe('(wrong-type-argument stringp 1)');
+    expect(await caught('(switch-to-buffer 1)')).toBe('(wrong-type-argument stringp 1)');
+    expect(await caught('(other-window "a")')).toBe('(wrong-type-argument integerp "a")');
+    expect(await caught('(define-error 1 2)')).toBe('(wrong-type-argument symbolp 1)');
+    expect(await caught(`(define-error 'my-error 2)`)).toBe('(wrong-type-argument stringp 2)');
+  });
+});
+
+describe('reader', () => {
+  it('reads each top-level form, skipping ; comments', () => {
+    expect(parseAll('; header\n(setq a 1) ; trailing\n;; between\n\'b "x;y"\n').map(printLisp))
+      .toEqual(['(setq a 1)', "'b", '"x;y"']);
+  });
+});
+
+describe('data types', () => {
+  it('reads and prints dotted pairs', async () => {
+    expect(await evaluate(`(list (cons 1 2) '(1 . (2 . (3 . nil))) '(a b . c) (cdr '(1 . 2)))`))
+      .toBe('((1 . 2) (1 2 3) (a b . c) 2)');
+  });
+
+  it('handles lists made circular with setcdr', async () => {
+    expect(await evaluate(`
+      (let ((l (list 1 2 3)))
+        (setcdr (cdr (cdr l)) l)
+        (list (nth 5 l) (condition-case err (length l) (error (car err)))))`)).toBe('(3 circular-list)');
+    expect(await evaluate(`(let ((l (list 1 2))) (setcdr (cdr l) l) (format "%S" l))`)).toBe('"(1 2 . #0)"');
+  });
+
+  it('stores and removes entries in hash tables', async () => {
+    expect(await evaluate(`
+      (let ((h (make-hash-table :test 'equal)) (entries nil))
+        (puthash "a" 1 h) (puthash '(1 2) 2 h) (puthash "a" 3 h) (remhash '(1 2) h)
+        (maphash (lambda (k v) (push (cons k v) entries)) h)
+        (list (gethash "a" h) (gethash "b" h 'none) (hash-table-count h) entries))`)).toBe('(3 none 1 (("a" . 3)))');
+    expect(await evaluate(`(let ((h (make-hash-table))) (puthash "a" 1 h) (gethash "a" h))`)).toBe('nil');
+  });
+
+  it('reads characters and converts them to and from strings', async () => {
+    expect(await evaluate(`(list ?a ?\\n ?\\( (char-to-string ?b) (string-to-char "A") (string-to-char ""))`)).toBe('(97 10 40 "b" 65 0)');
+    expect(await evaluate(`(condition-case err (string-to-char 1) (wrong-type-argument err))`)).toBe('(wrong-type-argument stringp 1)');
+    expect(await evaluate(`(insert "😀b") (list (char-after 0) (char-after 1) (char-before 2) (char-after 2) (char-before 3) (char-after 3))`))
+      .toBe('(128512 128512 128512 98 98 nil)');
+  });
+
+  it('compares with eq, eql and equal', async () => {
+    expect(await evaluate(`
+      (list (eq 'a 'a) (eq "a" "a") (eq 1 1) (eq 1.0 1.0) (eql 1.0 1.0) (eql 1 1.0)
+            (equal "a" "a") (equal '(1 (2 [3])) '(1 (2 [3]))) (equal 1 1.0))`)).toBe('(t nil t nil t nil t t nil)');
+  });
+});
+
+describe('strings', () => {
+  it('formats numbers and printed representations', async () => {
+    expect(await evaluate(`(format "%05.2f|%x|%S|%s|%d%%" 3.14159 255 "q" "q" 7)`)).toBe('"03.14|ff|\\"q\\"|q|7%"');
+  });
+
+  it('matches regexps and reads the groups', async () => {
+    expect(await evaluate(`
+      (let ((s "xx foo-42 yy"))
+        (list (string-match "\\\\([a-z]+\\\\)-\\\\([0-9]+\\\\)" s) (match-string 1 s) (match-string 2 s)
+              (match-end 0) (string-match "z" s)))`)).toBe('(3 "foo" "42" 9 nil)');
+    expect(await evaluate(`(list (replace-regexp-in-string "[0-9]+" "N" "a1b22c") (replace-regexp-in-string "\\\\(o\\\\)" "[\\\\1]" "foo"))`))
+      .toBe('("aNbNc" "f[o][o]")');
+  });
+
+  it('reads escapes in string literals', async () => {
+    expect(await evaluate(`(list (length "\\t\\\\\\"") (string-to-char "\\t") (string-to-char "\\\\") (string-to-char "\\""))`))
+      .toBe('(3 9 92 34)');
+  });
+});
+
+describe('special forms', () => {
+  it('signal wrong-number-of-arguments or wrong-type-argument for malformed forms', async () => {
+    const caught = (form: string) => evaluate(`(condition-case err ${form} (error err))`);
+    expect(await caught('(quote)')).toBe('(wrong-number-of-arguments quote 0)');
+    expect(await caught('(setq a)')).toBe('(wrong-number-of-arguments setq 1)');
+    expect(await caught('(let)')).toBe('(wrong-number-of-arguments let 0)');
+    expect(await caught('(lambda)')).toBe('(wrong-number-of-arguments lambda 0)');
+    expect(await caught('(function)')).toBe('(wrong-number-of-arguments function 0)');
+    expect(await caught('(catch)')).toBe('(wrong-number-of-arguments catch 0)');
+    expect(await caught('(condition-case)')).toBe('(wrong-number-of-arguments condition-case 0)');
+    expect(await caught('(defun)')).toBe('(wrong-number-of-arguments defun 0)');
+    expect(await caught('(defmacro m)')).toBe('(wrong-number-of-arguments defmacro 1)');
+    expect(await caught('(defun 1 () 1)')).toBe('(wrong-type-argument symbolp 1)');
+    expect(await caught('(defvar "x")')).toBe('(wrong-type-argument symbolp "x")');
+    expect(await caught('(let ((1 2)) 3)')).toBe('(wrong-type-argument symbolp 1)');
+    expect(await caught('(while)')).toBe('(wrong-number-of-arguments while 0)');
+    expect(await caught('(if t)')).toBe('(wrong-number-of-arguments if 1)');
+    expect(await caught('(prog1)')).toBe('(wrong-number-of-arguments prog1 0)');
+  });
+});
+
+describe('buffer positions', () => {
+  it('moves point with goto-char, clamped to the buffer', async () => {
+    expect(await evaluate('(insert "hello") (list (progn (goto-char 2) (point)) (progn (goto-char 99) (point)) (progn (goto-char -3) (point)))'))
+      .toBe('(2 5 0)');
+    expect(await evaluate(`(condition-case err (goto-char "x") (wrong-type-argument err))`)).toBe('(wrong-type-argument integerp "x")');
+  });
+});
+
+describe('functions', () => {
+  it('make counters from closures, each with its own state', async () => {
+    expect(await evaluate(`
+      (defun make-counter (&optional start)
+        (let ((n (or start 0)))
+          (lambda () (setq n (1+ n)))))
+      (let ((a (make-counter)) (b (make-counter 10)))
+        (funcall a) (funcall a) (funcall b)
+        (list (funcall a) (funcall b)))`)).toBe('(3 12)');
+  });
+
+  it('shares a captured variable between closures made together', async () => {
+    expect(await evaluate(`
+      (let* ((n 0)
+             (inc (lambda () (setq n (1+ n))))
+             (get (lambda () n)))
+        (funcall inc) (funcall inc)
+        (funcall get))`)).toBe('2');
+  });
+
+  it('maps functions over lists with mapcar, mapc and apply', async () => {
+    expect(await evaluate(`
+      (let ((total 0) (offset 10))
+        (mapc (lambda (x) (setq total (+ total x))) '(1 2 3))
+        (list (mapcar (lambda (x) (+ x offset)) '(1 2 3))
+              (mapcar #'1+ [1 2])
+              total
+              (apply #'+ 1 2 '(3 4))
+              (apply 'max '(4 9 2))))`)).toBe('((11 12 13) (2 3) 6 10 9)');
+  });
+
+  it('binds &optional and &rest parameters', async () => {
+    expect(await evaluate(`
+      (defun args (a &optional b c &rest more) (list a b c more))
+      (list (args 1) (args 1 2) (args 1 2 3 4 5) (funcall (lambda (&rest all) all))
+            (condition-case nil (args) (wrong-number-of-arguments 'too-few)))`))
+      .toBe('((1 nil nil nil) (1 2 nil nil) (1 2 3 (4 5)) nil too-few)');
+  });
+
+  it('binds defvar variables dynamically, so called functions see the binding', async () => {
+    expect(await evaluate(`
+      (defvar depth 0)
+      (defun current-depth () depth)
+      (defun read-lexical () (boundp 'shadowed))
+      (list (let ((depth 5)) (current-depth))
+            (current-depth)
+            (let ((shadowed 1)) (read-lexical)))`)).toBe('(5 0 nil)');
+  });
+});
+
+describe('macros', () => {
+  it('splices values into backquoted templates', async () => {
+    expect(await evaluate("(let ((xs '(2 3)) (y 4)) (list `(1 ,@xs ,y) `(a (b ,(+ 1 2)) ,@nil c) `[1 ,y]))"))
+      .toBe('((1 2 3 4) (a (b 3) c) [1 4])');
+  });
+
+  it('expands macro calls with macroexpand', async () => {
+    expect(await evaluate(`
+      (defmacro my-inc (var) \`(setq ,var (1+ ,var)))
+      (list (macroexpand '(my-inc x)) (let ((x 1)) (my-inc x) x) (macroexpand '(not-a-macro 1)))`))
+      .toBe('((setq x (1+ x)) 2 (not-a-macro 1))');
+  });
+
+  it('runs push, pop, dolist and dotimes', async () => {
+    expect(await evaluate(`
+      (let ((stack nil) (sum 0) (squares nil))
+        (push 1 stack) (push 2 stack)
+        (list (pop stack) stack
+              (dolist (x '(1 2 3) sum) (setq sum (+ sum x)))
+              (progn (dotimes (i 4) (push (* i i) squares)) squares)
+              (dolist (x '(1 2)))))`)).toBe('(2 (1) 6 (9 4 1 0) nil)');
+  });
+});
+
+describe('evaluation', () => {
+  it('runs tail calls in constant depth', async () => {
+    expect(await evaluate(`
+      (defun count-down (n acc) (if (= n 0) acc (count-down (1- n) (1+ acc))))
+      (count-down 100000 0)`)).toBe('100000');
+  });
+
+  it('signals excessive-lisp-nesting past max-lisp-eval-depth', async () => {
+    expect(await evaluate(`
+      (defun deep (n) (1+ (deep n)))
+      (let ((max-lisp-eval-depth 100))
+        (condition-case err (deep 0) (excessive-lisp-nesting (car err))))`)).toBe('excessive-lisp-nesting');
+  });
+
+  it('stops a running loop with quit when requestQuit is called', async () => {
+    const env = createGlobalEnv(createStubApi());
+    const running = evalForms('(while t)', env);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(requestQuit(env)).toBe(true);
+    await expect(running).rejects.toMatchObject({ symbol: 'quit' });
+    expect(requestQuit(env)).toBe(false);
+  });
+});
@@ -1,68 +1,340 @@
 // Lisp Interpreter for React Emacs
 
+import { SplitDirection, Keymap, KeyBinding, ReadOptions, MajorMode, FontLockKeyword, Face } from '../types';
+import { parseKeySequence, formatKeySequence, makeSparseKeymap, defineKey, lookupKey, isKeymap } from './keymap';
+import { deriveMode, modeChain, AUTO_MODE_ALIST, lineStartAt, lineEndAt } from './modes';
+import { FACE_NAMES, makeKeyword } from './fontLock';
+import { emacsRegexpToJs, expandReplacement } from './search';
+
 // --- Types ---
 
-export type LispType = 'SYMBOL' | 'NUMBER' | 'STRING' | 'LIST' | 'FUNC' | 'PRIMITIVE' | 'BOOL' | 'NULL';
+export type LispType =
+  | 'SYMBOL' | 'NUMBER' | 'STRING' | 'CONS' | 'VECTOR' | 'HASH_TABLE'
+  | 'FUNC' | 'MACRO' | 'PRIMITIVE' | 'BOOL' | 'NULL' | 'WINDOW' | 'KEYMAP';
 
 export interface LispVal {
   type: LispType;
-  value?: any;
-  name?: string; // for symbols
-  elements?: LispVal[]; // for lists
-  fn?: (args: LispVal[], env: LispEnv) => LispVal; // for primitives
-  params?: string[]; // for lambdas
-  body?: LispVal; // for lambdas
+  value?: any; // a LispHashTable for hash tables
+  float?: boolean; // for numbers read or computed as floats; characters are integers
+  name?: string; // for symbols, and the name a function was defun'd as
+  car?: LispVal; // for conses; lists are chains of them ending in nil
+  cdr?: LispVal;
+  elements?: LispVal[]; // for vectors
+  fn?: (args: LispVal[], env: LispEnv) => LispVal | Promise<LispVal>; // for primitives
+  params?: string[]; // for lambdas and macros: the lambda list, including &optional and &rest
+  body?: LispVal; // for lambdas and macros
+  closure?: LispEnv; // for lambdas and macros: the environment they were created in
+  doc?: string; // docstring of a defun
+  interactive?: LispVal; // spec of (interactive ...); present only for commands
+}
+
+export type HashTest = 'eq' | 'eql' | 'equal';
+
+export interface LispHashTable {
+  test: HashTest;
+  entries: Map<string, [LispVal, LispVal]>; // By hashKey of the key, in insertion order
 }
 
 export interface EmacsAPI {
   message: (msg: string) => void;
-  insert: (text: string) => void;
+  insert: (text: string) => void | Promise<void>; // Settles once after-change-functions have run
+  deleteRegion: (start: number, end: number) => void | Promise<void>;
   getBufferContent: () => string;
   getCursor: () => number;
   setCursor: (pos: number) => void;
   switchBuffer: (name: string) => void;
+  setBuffer: (name: string) => void; // Make a buffer current for Lisp without displaying it
+  getBufferCreate: (name: string) => void;
   currentBufferName: () => string;
-  killBuffer: (name: string) => void;
+  bufferReadOnly: () => boolean;
+  saveExcursion: () => () => void; // Call the result to restore the current buffer and its point
+  killBuffer: (name: string) => Promise<void>; // Runs kill-buffer-hook first
+  undo: () => void;
+  undoBoundary: () => void;
+  getMark: () => number | null;
+  setMark: (pos: number | null) => void;
+  killRegion: (start: number, end: number) => void;
+  copyRegionAsKill: (start: number, end: number) => void;
+  yank: () => void;
+  killNew: (text: string) => void;
+  currentKill: (n: number) => string | null;
+  findFile: (path: string) => Promise<string | null>; // Runs find-file-hook
+  saveBuffer: () => Promise<void>; // Runs before-save-hook and after-save-hook
+  fileExists: (path: string) => boolean;
+  readFile: (path: string) => string | null; // null if there is no such file
+  directoryFiles: (path: string) => string[];
+  deleteFile: (path: string) => void;
+  selectedWindow: () => string;
+  splitWindow: (windowId: string, direction: SplitDirection) => string;
+  windowBuffer: (windowId: string) => string;
+  setWindowBuffer: (windowId: string, bufferName: string) => void;
+  windowList: () => string[];
+  deleteWindow: (windowId: string) => void;
+  otherWindow: (count: number) => void;
+  globalMap: () => Keymap;
+  localMap: () => Keymap; // Keymap of the current buffer's major mode
+  minorModeMaps: () => Keymap[];
+  keyBinding: (keys: string[]) => KeyBinding | undefined;
+  commandp: (name: string) => boolean;
+  callInteractively: (name: string) => Promise<LispVal>; // The command's value; its errors propagate
+  readFromMinibuffer: (prompt: string, options: ReadOptions) => Promise<string>;
+  bufferNames: () => string[];
+  majorModes: () => Record<string, MajorMode>;
+  currentMajorMode: () => string;
+  setMajorMode: (name: string) => Promise<void>; // Also runs the mode's setup and hooks
+  defineMajorMode: (mode: MajorMode) => void;
+  fontLockAddKeywords: (mode: string, keywords: FontLockKeyword[], append: boolean) => void;
+  localHook: (name: string) => LispVal | undefined; // The current buffer's local value of a hook, if it has one
+  setLocalHook: (name: string, value: LispVal | null) => void; // null removes the local value
 }
 
 // --- Environment ---
 
+// Scopes chain lexically up to the global environment. Special variables
+// (declared with defvar) are never bound lexically: let swaps their global
+// value instead, which makes them dynamically scoped.
 export class LispEnv {
   vars: Map<string, LispVal>;
   outer?: LispEnv;
   api: EmacsAPI;
+  // Shared by all scopes
+  specials: Set<string>;
+  frames: LispFrame[]; // Function calls in progress, innermost last
+  catchTags: LispVal[]; // Tags of the active catch forms
+  evalState: EvalState;
 
   constructor(api: EmacsAPI, outer?: LispEnv) {
     this.vars = new Map();
     this.outer = outer;
     this.api = api;
+    this.specials = outer ? outer.specials : new Set();
+    this.frames = outer ? outer.frames : [];
+    this.catchTags = outer ? outer.catchTags : [];
+    this.evalState = outer ? outer.evalState : { depth: 0, steps: 0, sliceStart: 0, quitFlag: false };
   }
 
   get(name: string): LispVal {
     if (this.vars.has(name)) return this.vars.get(name)!;
     if (this.outer) return this.outer.get(name);
-    throw new Error(`Void variable: ${name}`);
+    throw new LispError('void-variable', [mkSym(name)]);
   }
 
+  // Assign the innermost binding, or the global value if there is none
   set(name: string, val: LispVal) {
-    this.vars.set(name, val);
+    for (let scope: LispEnv | undefined = this; scope; scope = scope.outer) {
+      if (scope.vars.has(name)) {
+        scope.vars.set(name, val);
+        return;
+      }
+    }
+    this.global().vars.set(name, val);
   }
 
+  // Bind in this scope
   define(name: string, val: LispVal) {
     this.vars.set(name, val);
   }
+
+  global(): LispEnv {
+    let scope: LispEnv = this;
+    while (scope.outer) scope = scope.outer;
+    return scope;
+  }
+}
+
+// Bind variables around body: lexical ones in a new scope, special ones by
+// replacing their global value until body returns, like Emacs' specbind.
+// A tail call out of body is made before special bindings are undone.
+export const withBindings = async <T extends LispVal | TailCall>(
+  env: LispEnv,
+  bindings: [string, LispVal][],
+  body: (scope: LispEnv) => Promise<T>,
+): Promise<T | LispVal> => {
+  const scope = new LispEnv(env.api, env);
+  const global = env.global();
+  const saved: [string, LispVal | undefined][] = [];
+  for (const [name, val] of bindings) {
+    if (env.specials.has(name)) {
+      saved.push([name, global.vars.get(name)]);
+      global.vars.set(name, val);
+    } else {
+      scope.define(name, val);
+    }
+  }
+  try {
+    const result = await body(scope);
+    if (saved.length > 0 && result instanceof TailCall) return await callFunction(result.fn, result.args, env);
+    return result;
+  } finally {
+    for (const [name, old] of saved.reverse()) {
+      if (old === undefined) global.vars.delete(name);
+      else global.vars.set(name, old);
+    }
+  }
+};
+
+// Progress of the evaluation under way, shared by all scopes
+export interface EvalState {
+  depth: number; // Forms being evaluated, innermost included
+  steps: number; // Forms evaluated so far
+  sliceStart: number; // Time the evaluation last yielded to the UI
+  quitFlag: boolean; // Set by C-g, signals quit at the next step
+}
+
+export interface LispFrame {
+  fn: LispVal; // The function, or the symbol it was called by
+  args: LispVal[];
+}
+
+// --- Errors ---
+
+interface ErrorType {
+  message: string;
+  conditions: string[]; // The error symbol and its ancestors
+}
+
+const errorTypes = new Map<string, ErrorType>([
+  ['error', { message: 'error', conditions: ['error'] }],
+  ['quit', { message: 'Quit', conditions: ['quit'] }],
+]);
+
+// Like define-error: a new error symbol under one or more parents
+export const defineError = (name: string, message: string, parents: string[] = ['error']) => {
+  const conditions = [name];
+  for (const parent of parents) {
+    for (const c of errorTypes.get(parent)?.conditions || [parent]) {
+      if (!conditions.includes(c)) conditions.push(c);
+    }
+  }
+  errorTypes.set(name, { message, conditions });
+};
+
+defineError('user-error', '');
+defineError('args-out-of-range', 'Args out of range');
+defineError('arith-error', 'Arithmetic error');
+defineError('beginning-of-buffer', 'Beginning of buffer');
+defineError('end-of-buffer', 'End of buffer');
+defineError('buffer-read-only', 'Buffer is read-only');
+defineError('circular-list', 'List contains a loop');
+defineError('end-of-file', 'End of file during parsing');
+defineError('file-error', 'File error');
+defineError('file-missing', 'File is missing', ['file-error']);
+defineError('excessive-lisp-nesting', 'Lisp nesting exceeds ‘max-lisp-eval-depth’');
+defineError('invalid-function', 'Invalid function');
+defineError('invalid-read-syntax', 'Invalid read syntax');
+defineError('invalid-regexp', 'Invalid regexp');
+defineError('no-catch', 'No catch for tag');
+defineError('overflow-error', 'Arithmetic overflow error', ['arith-error']);
+defineError('search-failed', 'Search failed');
+defineError('setting-constant', 'Attempt to set a constant symbol');
+defineError('void-function', "Symbol's function definition is void");
+defineError('void-variable', "Symbol's value as variable is void");
+defineError('wrong-number-of-arguments', 'Wrong number of arguments');
+defineError('wrong-type-argument', 'Wrong type argument');
+
+export const errorConditions = (symbol: string): string[] => errorTypes.get(symbol)?.conditions || [symbol, 'error'];
+
+// Text shown for an error, like error-message-string
+export const errorMessageString = (symbol: string, data: LispVal[]): string => {
+  let message = errorTypes.get(symbol)?.message ?? 'peculiar error';
+  let rest = data;
+  // (error "text") shows just the text
+  if (symbol === 'error' && data.length > 0 && data[0].type === 'STRING') [message, rest] = [data[0].value, data.slice(1)];
+  // File errors carry their own message, then text such as the file name
+  const fileError = errorConditions(symbol).includes('file-error');
+  if (fileError && data.length > 0 && data[0].type === 'STRING') [message, rest] = [data[0].value, data.slice(1)];
+  if (rest.length === 0) return message;
+  // Errors with an empty message, like user-error, show their data as text
+  const shown = rest.map(d => ((message === '' || fileError) && d.type === 'STRING' ? d.value : printLisp(d))).join(', ');
+  return message === '' ? shown : `${message}: ${shown}`;
+};
+
+// A signaled Lisp error: the error symbol and its data
+export class LispError extends Error {
+  symbol: string;
+  data: LispVal[];
+  backtrace?: string[]; // Frames when it was signaled, innermost first
+
+  constructor(symbol: string, data: LispVal[] = []) {
+    super(errorMessageString(symbol, data));
+    this.symbol = symbol;
+    this.data = data;
+  }
+}
+
+// A throw on its way to the matching catch; not an error
+export class LispThrow extends Error {
+  tag: LispVal;
+  value: LispVal;
+
+  constructor(tag: LispVal, value: LispVal) {
+    super(`No catch for tag: ${printLisp(tag)}, ${printLisp(value)}`);
+    this.tag = tag;
+    this.value = value;
+  }
 }
 
+// (error "MESSAGE")
+export const lispError = (message: string): LispError => new LispError('error', [mkStr(message)]);
+
+export const wrongType = (predicate: string, value: LispVal): LispError =>
+  new LispError('wrong-type-argument', [mkSym(predicate), value]);
+
+// Any exception as a Lisp error; JS errors become (error "message")
+export const toLispError = (e: unknown): LispError => {
+  if (e instanceof LispError) return e;
+  if (e instanceof LispThrow) return new LispError('no-catch', [e.tag, e.value]);
+  return lispError(e instanceof Error ? e.message : String(e));
+};
+
+const formatFrame = (frame: LispFrame): string => {
+  const name = frame.fn.type === 'SYMBOL' || frame.fn.name ? frame.fn.name! : printLisp(frame.fn);
+  return `  ${name}(${frame.args.map(printLisp).join(' ')})`;
+};
+
+// Contents of the *Backtrace* buffer for an error
+export const formatBacktrace = (err: LispError): string => {
+  const header = `Debugger entered--Lisp error: ${printLisp(mkList([mkSym(err.symbol), ...err.data]))}`;
+  return [header, ...(err.backtrace || [])].join('\n') + '\n';
+};
+
 // --- Helpers ---
 
 export const mkNum = (n: number): LispVal => ({ type: 'NUMBER', value: n });
+export const mkFloat = (n: number): LispVal => ({ type: 'NUMBER', value: n, float: true });
 export const mkStr = (s: string): LispVal => ({ type: 'STRING', value: s });
 export const mkSym = (s: string): LispVal => ({ type: 'SYMBOL', name: s });
-export const mkBool = (b: boolean): LispVal => ({ type: 'BOOL', value: b });
-export const mkList = (elm: LispVal[]): LispVal => ({ type: 'LIST', elements: elm });
 export const mkNull = (): LispVal => ({ type: 'NULL' });
+export const mkBool = (b: boolean): LispVal => (b ? { type: 'BOOL', value: true } : mkNull());
+export const mkCons = (car: LispVal, cdr: LispVal): LispVal => ({ type: 'CONS', car, cdr });
+// A proper list, or a dotted one when tail is not nil; no elements is nil
+export const mkList = (elements: LispVal[], tail: LispVal = mkNull()): LispVal =>
+  elements.reduceRight((rest, element) => mkCons(element, rest), tail);
+export const mkVector = (elements: LispVal[]): LispVal => ({ type: 'VECTOR', elements });
+export const mkHashTable = (test: HashTest): LispVal => ({ type: 'HASH_TABLE', value: { test, entries: new Map() } });
+export const mkWindow = (id: string): LispVal => ({ type: 'WINDOW', value: id });
+export const mkKeymap = (map: Keymap): LispVal => ({ type: 'KEYMAP', value: map });
+
+// nil is the only false value, and also the empty list
+export const isTrue = (v: LispVal) => v.type !== 'NULL';
 
-const isTrue = (v: LispVal) => !(v.type === 'NULL' || (v.type === 'BOOL' && v.value === false));
+// The elements of a proper list. Dotted lists are not lists here, and a
+// circular one is caught by a pointer moving at half the speed.
+export const listElements = (list: LispVal): LispVal[] => {
+  const elements: LispVal[] = [];
+  let tail = list;
+  let slow = list;
+  while (tail.type === 'CONS') {
+    elements.push(tail.car!);
+    tail = tail.cdr!;
+    if (elements.length % 2 === 0) {
+      slow = slow.cdr!;
+      if (slow === tail && tail.type === 'CONS') throw new LispError('circular-list', [list]);
+    }
+  }
+  if (tail.type !== 'NULL') throw wrongType('listp', tail);
+  return elements;
+};
 
 // --- Parser ---
 
@@ -75,29 +347,44 @@ export const tokenize = (input: string): string[] => {
     .filter(t => t.length > 0);
 };
 
-// A simple recursive descent parser
-// This simple version doesn't handle strings with spaces perfectly if splitting by space first.
-// Let's implement a character-based parser for better string support.
-
-export const parse = (input: string): LispVal => {
+// A simple recursive descent parser. It yields the top-level forms one at a
+// time, so those before a syntax error can be used.
+function* readForms(input: string): Generator<LispVal, undefined> {
   let pos = 0;
 
+  // Comments run from ; to the end of the line
   const skipWhitespace = () => {
-    while (pos < input.length && /\s/.test(input[pos])) pos++;
+    while (pos < input.length) {
+      if (input[pos] === ';') {
+        while (pos < input.length && input[pos] !== '\n') pos++;
+      } else if (/\s/.test(input[pos])) {
+        pos++;
+      } else {
+        return;
+      }
+    }
   };
 
+  // Escapes are as in character literals; a backslash before a newline or
+  // a space stands for nothing
   const parseString = (): LispVal => {
     pos++; // skip "
-    let start = pos;
+    let s = '';
     while (pos < input.length && input[pos] !== '"') {
-      if (input[pos] === '\\') pos++;
-      pos++;
+      if (input[pos] === '\\') {
+        pos++;
+        if (input[pos] === '\n' || input[pos] === ' ') pos++;
+        else s += String.fromCodePoint(parseEscape());
+      } else {
+        s += input[pos++];
+      }
     }
-    const s = input.slice(start, pos);
+    if (pos >= input.length) throw new LispError('end-of-file');
     pos++; // skip closing "
-    return mkStr(s.replace(/\\"/g, '"').replace(/\\n/g, '\n'));
+    return mkStr(s);
   };
 
+  // (a b c), or (a b . c) with a dotted tail
   const parseList = (): LispVal => {
     pos++; // skip (
     const elements: LispVal[] = [];
@@ -107,26 +394,95 @@ export const parse = (input: string): LispVal => {
         pos++;
         return mkList(elements);
       }
+      if (input[pos] === '.' && /[\s()]/.test(input[pos + 1] || ' ')) {
+        if (elements.length === 0) throw new LispError('invalid-read-syntax', [mkStr('.')]);
+        pos++;
+        const tail = parseExpr();
+        skipWhitespace();
+        if (input[pos] !== ')') throw new LispError('invalid-read-syntax', [mkStr('. in wrong context')]);
+        pos++;
+        return mkList(elements, tail);
+      }
+      if (input[pos] === ']') throw new LispError('invalid-read-syntax', [mkStr(']')]);
+      elements.push(parseExpr());
+    }
+    throw new LispError('end-of-file');
+  };
+
+  const parseVector = (): LispVal => {
+    pos++; // skip [
+    const elements: LispVal[] = [];
+    while (pos < input.length) {
+      skipWhitespace();
+      if (input[pos] === ']') {
+        pos++;
+        return mkVector(elements);
+      }
+      if (input[pos] === ')') throw new LispError('invalid-read-syntax', [mkStr(')')]);
       elements.push(parseExpr());
     }
-    throw new Error("Unclosed list");
+    throw new LispError('end-of-file');
+  };
+
+  // The character after a backslash, as a code: \n, \t, \C-a or \^a,
+  // \x41, \101 (octal), \u00e9, or any other character as itself
+  const parseEscape = (): number => {
+    if (pos >= input.length) throw new LispError('end-of-file');
+    const c = input[pos++];
+    const simple: Record<string, number> = { n: 10, t: 9, r: 13, f: 12, e: 27, a: 7, b: 8, v: 11, d: 127, s: 32 };
+    if (c in simple) return simple[c];
+    if (c === '^' || (c === 'C' && input[pos] === '-')) {
+      if (c === 'C') pos++;
+      const code = parseCharCode();
+      return code === 63 ? 127 : code & 31; // ^? is DEL
+    }
+    const digits = (pattern: RegExp, max: number): string => {
+      let text = '';
+      while (text.length < max && pos < input.length && pattern.test(input[pos])) text += input[pos++];
+      return text;
+    };
+    if (c === 'x') return parseInt(digits(/[0-9a-fA-F]/, 8) || '0', 16);
+    if (c === 'u') return parseInt(digits(/[0-9a-fA-F]/, 4) || '0', 16);
+    if (c === 'U') return parseInt(digits(/[0-9a-fA-F]/, 8) || '0', 16);
+    if (/[0-7]/.test(c)) return parseInt(c + digits(/[0-7]/, 2), 8);
+    return c.codePointAt(0)!;
+  };
+
+  const parseCharCode = (): number => {
+    if (pos >= input.length) throw new LispError('end-of-file');
+    if (input[pos] === '\\') {
+      pos++;
+      return parseEscape();
+    }
+    const code = input.codePointAt(pos)!;
+    pos += code > 0xffff ? 2 : 1;
+    return code;
+  };
+
+  // ?a reads as the integer code of a
+  const parseChar = (): LispVal => {
+    pos++; // skip ?
+    return mkNum(parseCharCode());
   };
 
   const parseAtom = (): LispVal => {
     let start = pos;
-    while (pos < input.length && !/\s|\)|\(/.test(input[pos])) pos++;
+    while (pos < input.length && !/\s|\)|\(|\[|\]|`|,|;/.test(input[pos])) pos++;
     const token = input.slice(start, pos);
     
     if (token === 't') return mkBool(true);
     if (token === 'nil') return mkNull();
-    if (/^-?\d+(\.\d+)?$/.test(token)) return mkNum(parseFloat(token));
+    // 1 and 1. are integers; 1.0, .5 and 1e3 are floats
+    if (/^[-+]?\d+\.?$/.test(token)) return mkNum(parseInt(token, 10));
+    if (/^[-+]?(\d*\.\d+|\d+\.?)(e[-+]?\d+)?$/.test(token)) return mkFloat(parseFloat(token));
     return mkSym(token);
   };
 
-  const parseQuote = (): LispVal => {
-    pos++; // skip '
+  // 'x, `x, ,x and ,@x read as (quote x), (\` x), (\, x) and (\,@ x)
+  const parseQuote = (symbol: string): LispVal => {
+    pos += symbol === 'quote' ? 1 : symbol.length;
     const expr = parseExpr();
-    return mkList([mkSym('quote'), expr]);
+    return mkList([mkSym(symbol), expr]);
   };
 
   const parseExpr = (): LispVal => {
@@ -134,235 +490,2137 @@ export const parse = (input: string): LispVal => {
     if (pos >= input.length) return mkNull(); // Should not happen in valid expr
     if (input[pos] === '"') return parseString();
     if (input[pos] === '(') return parseList();
-    if (input[pos] === '\'') return parseQuote();
+    if (input[pos] === '[') return parseVector();
+    if (input[pos] === '?') return parseChar();
+    if (input[pos] === '\'') return parseQuote('quote');
+    if (input[pos] === '`') return parseQuote('`');
+    if (input.startsWith(',@', pos)) return parseQuote(',@');
+    if (input[pos] === ',') return parseQuote(',');
+    if (input.startsWith("#'", pos)) {
+      pos += 2;
+      return mkList([mkSym('function'), parseExpr()]);
+    }
     return parseAtom();
   };
 
-  return parseExpr();
-};
+  for (;;) {
+    skipWhitespace();
+    if (pos >= input.length) return;
+    if (input[pos] === ')' || input[pos] === ']') throw new LispError('invalid-read-syntax', [mkStr(input[pos])]);
+    yield parseExpr();
+  }
+}
+
+// The first form in the text; nil if there is none
+export const parse = (input: string): LispVal => readForms(input).next().value ?? mkNull();
+
+// Every top-level form in the text, as in a file
+export const parseAll = (input: string): LispVal[] => [...readForms(input)];
 
 // --- Evaluator ---
 
-export const evalLisp = (expr: LispVal, env: LispEnv): LispVal => {
-  switch (expr.type) {
-    case 'NUMBER':
-    case 'STRING':
-    case 'BOOL':
-    case 'NULL':
-      return expr;
-    case 'SYMBOL':
-      return env.get(expr.name!);
-    case 'LIST':
-      const elements = expr.elements!;
-      if (elements.length === 0) return mkNull();
-      
-      const head = elements[0];
-      // Special forms
-      if (head.type === 'SYMBOL') {
-        switch (head.name) {
-          case 'quote':
-            return elements[1];
-          case 'setq': {
-             // (setq name val name2 val2...)
-             let result: LispVal = mkNull();
-             for(let i=1; i < elements.length; i+=2) {
-                const sym = elements[i];
-                if (sym.type !== 'SYMBOL') throw new Error("setq expects symbols");
-                const val = evalLisp(elements[i+1], env);
-                env.set(sym.name!, val);
-                result = val;
-             }
-             return result;
-          }
-          case 'if': {
-             const cond = evalLisp(elements[1], env);
-             if (isTrue(cond)) {
-               return evalLisp(elements[2], env);
-             } else if (elements.length > 3) {
-               return evalLisp(elements[3], env);
-             }
-             return mkNull();
-          }
-          case 'defun': {
-             // (defun name (params) body...)
-             const name = elements[1].name!;
-             const params = elements[2].elements!.map(e => e.name!);
-             // Body is implicit progn
-             const body = mkList([mkSym('progn'), ...elements.slice(3)]);
-             const fn: LispVal = {
-               type: 'FUNC',
-               params,
-               body
-             };
-             env.define(name, fn);
-             return mkSym(name);
-          }
-          case 'progn': {
-             let result: LispVal = mkNull();
-             for (let i=1; i < elements.length; i++) {
-               result = evalLisp(elements[i], env);
-             }
-             return result;
-          }
-          case 'let': {
-             // (let ((var val) ...) body...)
-             const bindings = elements[1].elements!;
-             const newEnv = new LispEnv(env.api, env);
-             bindings.forEach(b => {
-               if (b.type === 'LIST') {
-                 const name = b.elements![0].name!;
-                 const val = evalLisp(b.elements![1], env); // eval in outer env
-                 newEnv.define(name, val);
-               } else if (b.type === 'SYMBOL') {
-                 newEnv.define(b.name!, mkNull());
-               }
-             });
-             let result: LispVal = mkNull();
-             for(let i=2; i<elements.length; i++) {
-               result = evalLisp(elements[i], newEnv);
-             }
-             return result;
-          }
-          case 'interactive': return mkNull(); // ignore
-        }
+// Forms evaluated between checks for C-g and the time slice. Pausing also
+// unwinds the JS stack, so deep recursion cannot overflow it.
+const STEP_BUDGET = 100;
+// How long a computation runs before it lets the UI render and read keys
+const SLICE_MS = 50;
+
+// A function call in tail position. It is returned to the enclosing
+// callFunction, which makes it in place of the current call, so tail
+// recursion runs in constant depth.
+export class TailCall {
+  fn: LispVal;
+  args: LispVal[];
+
+  constructor(fn: LispVal, args: LispVal[]) {
+    this.fn = fn;
+    this.args = args;
+  }
+}
+
+// Count an evaluation step: pause when the budget is used up, and signal
+// quit if C-g was typed meanwhile. Most steps need neither, and return
+// without the cost of an await.
+const step = (state: EvalState): Promise<void> | undefined => {
+  if (++state.steps % STEP_BUDGET === 0 || state.quitFlag) return checkpoint(state);
+};
+
+const checkpoint = async (state: EvalState) => {
+  if (state.steps % STEP_BUDGET === 0) {
+    if (Date.now() - state.sliceStart >= SLICE_MS) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      state.sliceStart = Date.now();
+    } else {
+      await null; // Continue on a fresh JS stack
+    }
+  }
+  if (state.quitFlag) {
+    state.quitFlag = false;
+    throw new LispError('quit');
+  }
+};
+
+const maxEvalDepth = (env: LispEnv): number => {
+  const limit = env.global().vars.get('max-lisp-eval-depth');
+  return limit && limit.type === 'NUMBER' ? limit.value : 1600;
+};
+
+// C-g: make the running evaluation signal quit. Says whether one was running.
+export const requestQuit = (env: LispEnv): boolean => {
+  if (env.evalState.depth === 0) return false;
+  env.evalState.quitFlag = true;
+  return true;
+};
+
+// Evaluation is asynchronous so primitives can wait for the user, e.g. to
+// read a string in the minibuffer, and long computations can pause.
+export const evalLisp = (expr: LispVal, env: LispEnv): Promise<LispVal> => evalForm(expr, env, false) as Promise<LispVal>;
+
+// Read and evaluate each top-level form of the text in turn, like a file
+// being loaded, returning the last value
+export const evalForms = async (input: string, env: LispEnv): Promise<LispVal> => {
+  let result = mkNull();
+  for (const form of readForms(input)) result = await evalLisp(form, env);
+  return result;
+};
+
+// In tail position a function call comes back as a TailCall
+const evalForm = async (expr: LispVal, env: LispEnv, tail: boolean): Promise<LispVal | TailCall> => {
+  if (expr.type === 'SYMBOL') {
+    // Keywords such as :test evaluate to themselves
+    if (expr.name!.startsWith(':')) return expr;
+    return env.get(expr.name!);
+  }
+  if (expr.type !== 'CONS') return expr;
+
+  const state = env.evalState;
+  if (state.depth === 0) state.sliceStart = Date.now();
+  const pending = step(state);
+  if (pending) await pending;
+  if (state.depth >= maxEvalDepth(env)) throw new LispError('excessive-lisp-nesting', [mkNum(state.depth + 1)]);
+  state.depth++;
+  try {
+    return await evalCompound(listElements(expr), env, tail);
+  } finally {
+    state.depth--;
+  }
+};
+
+// A special form called with fewer than MIN or more than MAX arguments
+const checkFormArgs = (elements: LispVal[], min: number, max = MANY) => {
+  const count = elements.length - 1;
+  if (count < min || count > max) throw new LispError('wrong-number-of-arguments', [elements[0], mkNum(count)]);
+};
+
+// The symbol a special form names, e.g. NAME in (defun NAME ...)
+const symbolName = (val: LispVal): string => {
+  if (val.type !== 'SYMBOL') throw wrongType('symbolp', val);
+  return val.name!;
+};
+
+// A special form, macro call or function call
+const evalCompound = async (elements: LispVal[], env: LispEnv, tail: boolean): Promise<LispVal | TailCall> => {
+  const head = elements[0];
+  // Special forms
+  if (head.type === 'SYMBOL') {
+    switch (head.name) {
+      case 'quote':
+        checkFormArgs(elements, 1, 1);
+        return elements[1];
+      case 'setq': {
+         // (setq name val name2 val2...)
+         if (elements.length % 2 === 0) throw new LispError('wrong-number-of-arguments', [head, mkNum(elements.length - 1)]);
+         let result: LispVal = mkNull();
+         for(let i=1; i < elements.length; i+=2) {
+            const sym = elements[i];
+            if (sym.type === 'BOOL' || sym.type === 'NULL') throw new LispError('setting-constant', [sym]);
+            if (sym.type !== 'SYMBOL') throw wrongType('symbolp', sym);
+            const val = await evalLisp(elements[i+1], env);
+            env.set(sym.name!, val);
+            result = val;
+         }
+         return result;
+      }
+      case 'if': {
+         checkFormArgs(elements, 2);
+         const cond = await evalLisp(elements[1], env);
+         if (isTrue(cond)) {
+           return evalForm(elements[2], env, tail);
+         }
+         // Else forms are an implicit progn
+         return evalBody(elements.slice(3), env, tail);
+      }
+      case 'cond': {
+         // (cond (CONDITION BODY...)...): the first clause whose CONDITION
+         // holds; without BODY its value is the condition's
+         for (const clause of elements.slice(1)) {
+           const [condition, ...body] = listElements(clause);
+           const value = await evalLisp(condition, env);
+           if (isTrue(value)) return body.length > 0 ? evalBody(body, env, tail) : value;
+         }
+         return mkNull();
+      }
+      case 'and': {
+         // The last value if every form is non-nil
+         if (elements.length === 1) return mkBool(true);
+         for (const form of elements.slice(1, -1)) {
+           if (!isTrue(await evalLisp(form, env))) return mkNull();
+         }
+         return evalForm(elements[elements.length - 1], env, tail);
+      }
+      case 'or': {
+         // The first non-nil value
+         for (const form of elements.slice(1, -1)) {
+           const value = await evalLisp(form, env);
+           if (isTrue(value)) return value;
+         }
+         return elements.length > 1 ? evalForm(elements[elements.length - 1], env, tail) : mkNull();
+      }
+      case 'prog1': {
+         checkFormArgs(elements, 1);
+         const first = await evalLisp(elements[1], env);
+         for (const form of elements.slice(2)) await evalLisp(form, env);
+         return first;
+      }
+      case 'while': {
+         checkFormArgs(elements, 1);
+         while (isTrue(await evalLisp(elements[1], env))) {
+           for (const form of elements.slice(2)) await evalLisp(form, env);
+           await step(env.evalState); // Even a loop without forms to evaluate can be quit
+         }
+         return mkNull();
+      }
+      case 'defmacro': {
+         // (defmacro name (params) body...): a function from forms to a form
+         checkFormArgs(elements, 2);
+         const name = symbolName(elements[1]);
+         const macro: LispVal = { ...makeLambda(elements[2], elements.slice(3), env), type: 'MACRO', name };
+         env.global().define(name, macro);
+         return mkSym(name);
+      }
+      case '`':
+         checkFormArgs(elements, 1, 1);
+         return backquote(elements[1], env, 1);
+      case 'condition-case':
+         checkFormArgs(elements, 2);
+         return conditionCase(elements, env);
+      case 'unwind-protect': {
+         // (unwind-protect BODYFORM UNWINDFORMS...)
+         checkFormArgs(elements, 1);
+         try {
+           return await evalLisp(elements[1], env);
+         } finally {
+           for (const form of elements.slice(2)) await evalLisp(form, env);
+         }
+      }
+      case 'save-excursion': {
+         // (save-excursion BODY...): restore the current buffer and its point afterwards
+         const restore = env.api.saveExcursion();
+         try {
+           return await evalBody(elements.slice(1), env, false);
+         } finally {
+           restore();
+         }
       }
+      case 'save-current-buffer': {
+         const buffer = env.api.currentBufferName();
+         try {
+           return await evalBody(elements.slice(1), env, false);
+         } finally {
+           if (env.api.bufferNames().includes(buffer)) env.api.setBuffer(buffer);
+         }
+      }
+      case 'catch': {
+         // (catch TAG BODY...): a throw to TAG from BODY returns its value here
+         checkFormArgs(elements, 1);
+         const tag = await evalLisp(elements[1], env);
+         env.catchTags.push(tag);
+         try {
+           return await evalLisp(mkList([mkSym('progn'), ...elements.slice(2)]), env);
+         } catch (e) {
+           if (e instanceof LispThrow && isEq(e.tag, tag)) return e.value;
+           throw e;
+         } finally {
+           env.catchTags.splice(env.catchTags.lastIndexOf(tag), 1);
+         }
+      }
+      case 'defun': {
+         // (defun name (params) body...)
+         checkFormArgs(elements, 2);
+         const name = symbolName(elements[1]);
+         const fn = makeLambda(elements[2], elements.slice(3), env);
+         fn.name = name;
+         env.global().define(name, fn);
+         return mkSym(name);
+      }
+      case 'lambda':
+         checkFormArgs(elements, 1);
+         return makeLambda(elements[1], elements.slice(2), env);
+      case 'function': {
+         // #'(lambda ...) makes a closure; #'name is just the symbol
+         checkFormArgs(elements, 1, 1);
+         const arg = elements[1];
+         if (arg.type === 'CONS' && arg.car!.name === 'lambda') return evalLisp(arg, env);
+         return arg;
+      }
+      case 'defvar':
+      case 'defconst': {
+         // (defvar NAME [VALUE [DOC]]): declare NAME special; defvar keeps an existing value
+         checkFormArgs(elements, head.name === 'defconst' ? 2 : 1, 3);
+         const name = symbolName(elements[1]);
+         const global = env.global();
+         env.specials.add(name);
+         if (elements.length > 2 && (head.name === 'defconst' || !global.vars.has(name))) {
+           global.vars.set(name, await evalLisp(elements[2], env));
+         }
+         return mkSym(name);
+      }
+      case 'progn':
+         return evalBody(elements.slice(1), env, tail);
+      case 'let': {
+         // (let ((var val) ...) body...)
+         checkFormArgs(elements, 1);
+         const bindings: [string, LispVal][] = [];
+         for (const b of listElements(elements[1])) {
+           const [name, init] = b.type === 'CONS' ? listElements(b) : [b];
+           const val = init ? await evalLisp(init, env) : mkNull(); // eval in outer env
+           bindings.push([symbolName(name), val]);
+         }
+         return withBindings(env, bindings, scope => evalBody(elements.slice(2), scope, tail));
+      }
+      case 'let*': {
+         // Like let, but each value is evaluated with the earlier bindings in effect
+         checkFormArgs(elements, 1);
+         const bindNext = async (specs: LispVal[], scope: LispEnv): Promise<LispVal | TailCall> => {
+           if (specs.length === 0) return evalBody(elements.slice(2), scope, tail);
+           const [name, init] = specs[0].type === 'CONS' ? listElements(specs[0]) : [specs[0]];
+           const val = init ? await evalLisp(init, scope) : mkNull();
+           return withBindings(scope, [[symbolName(name), val]], inner => bindNext(specs.slice(1), inner));
+         };
+         return bindNext(listElements(elements[1]), env);
+      }
+      case 'define-derived-mode': {
+         // (define-derived-mode CHILD PARENT NAME [DOCSTRING] [KEYWORD VALUE]... BODY...)
+         checkFormArgs(elements, 3);
+         const child = symbolName(elements[1]);
+         const parentName = elements[2].type === 'SYMBOL' ? elements[2].name! : null;
+         const parent = parentName ? env.api.majorModes()[parentName] : undefined;
+         if (parentName && !parent) throw new LispError('void-function', [elements[2]]);
+         const modeName = (await evalLisp(elements[3], env)).value;
+         let rest = elements.slice(4);
+         const docstring = rest.length > 0 && rest[0].type === 'STRING' ? rest[0].value : '';
+         if (docstring) rest = rest.slice(1);
+         // Keyword arguments such as :group are accepted and ignored
+         while (rest.length > 1 && rest[0].type === 'SYMBOL' && rest[0].name!.startsWith(':')) rest = rest.slice(2);
 
-      // Function application
-      const fn = evalLisp(head, env);
-      const args = elements.slice(1).map(e => evalLisp(e, env));
-
-      if (fn.type === 'PRIMITIVE') {
-        return fn.fn!(args, env);
-      } else if (fn.type === 'FUNC') {
-        const activationRecord = new LispEnv(env.api, env); // lexical scoping would require closing over definition env, but simplified to dynamic-ish for now or use global as base
-        // Actually, for proper lexical scope, we need the env where it was defined.
-        // For this simple lisp, we'll just chain to current global for simplicity (Dynamic Scope-ish)
-        
-        fn.params!.forEach((p, i) => {
-          activationRecord.define(p, args[i] || mkNull());
-        });
-        return evalLisp(fn.body!, activationRecord);
+         const mode = deriveMode(parent, { name: child, modeName, docstring });
+         // A keymap made with defvar beforehand becomes the mode's map
+         const existingMap = env.global().vars.get(`${child}-map`);
+         if (existingMap && existingMap.type === 'KEYMAP') {
+           mode.keymap = existingMap.value;
+           mode.keymap.parent = parent?.keymap;
+         }
+         const body = mkList([mkSym('progn'), ...rest]);
+         mode.setup = async () => { await evalLisp(body, env); };
+         env.api.defineMajorMode(mode);
+         defineModeFunction(env.global(), mode);
+         return mkSym(child);
       }
-      throw new Error(`Invalid function call: ${JSON.stringify(head)}`);
-    
-    default:
-      return expr;
+      case 'interactive': return mkNull(); // ignore
+    }
   }
+
+  // Macro calls are expanded, then the expansion is evaluated
+  const macro = macroFunction(head, env);
+  if (macro) return evalForm(await expandMacro(macro, elements.slice(1), env), env, tail);
+
+  // Function application
+  const fn = head.type === 'SYMBOL' ? functionValue(head.name!, env) : await evalLisp(head, env);
+  const args: LispVal[] = [];
+  for (const e of elements.slice(1)) args.push(await evalLisp(e, env));
+  return tail ? new TailCall(fn, args) : callFunction(fn, args, env);
 };
 
-// --- Standard Library ---
+// Forms in sequence, like progn; the last is in tail position if the body is
+const evalBody = async (forms: LispVal[], env: LispEnv, tail: boolean): Promise<LispVal | TailCall> => {
+  for (const form of forms.slice(0, -1)) await evalLisp(form, env);
+  return forms.length > 0 ? evalForm(forms[forms.length - 1], env, tail) : mkNull();
+};
 
-export const createGlobalEnv = (api: EmacsAPI): LispEnv => {
-  const env = new LispEnv(api);
+// --- Equality ---
 
-  const register = (name: string, fn: (args: LispVal[], env: LispEnv) => LispVal) => {
-    env.define(name, { type: 'PRIMITIVE', fn });
-  };
+// eq: the same symbol or integer, or the same object. Strings, conses and
+// floats made separately are not eq even when they look alike.
+export const isEq = (a: LispVal, b: LispVal): boolean => {
+  if (a === b) return true;
+  if (a.type !== b.type) return false;
+  if (a.type === 'SYMBOL') return a.name === b.name;
+  if (a.type === 'NUMBER') return !a.float && !b.float && a.value === b.value;
+  // Windows and keymaps are wrappers made on demand around the real object
+  if (a.type === 'WINDOW' || a.type === 'KEYMAP') return a.value === b.value;
+  return a.type === 'NULL' || a.type === 'BOOL';
+};
 
-  // Math
-  register('+', args => mkNum(args.reduce((a, b) => a + (b.value as number), 0)));
-  register('-', args => mkNum((args[0].value as number) - (args.slice(1).reduce((a, b) => a + (b.value as number), 0))));
-  register('*', args => mkNum(args.reduce((a, b) => a * (b.value as number), 1)));
-  register('/', args => mkNum((args[0].value as number) / (args[1].value as number)));
-  register('=', args => mkBool(args[0].value === args[1].value));
-  register('<', args => mkBool((args[0].value as number) < (args[1].value as number)));
-  register('>', args => mkBool((args[0].value as number) > (args[1].value as number)));
+// eql: eq, or floats of the same value
+export const isEql = (a: LispVal, b: LispVal): boolean => {
+  if (a.type === 'NUMBER' && b.type === 'NUMBER') return !!a.float === !!b.float && Object.is(a.value, b.value);
+  return isEq(a, b);
+};
 
-  // List ops
-  register('list', args => mkList(args));
-  register('cons', args => mkList([args[0], ...(args[1].elements || [])])); // simplified
-  register('car', args => args[0].elements ? args[0].elements[0] : mkNull());
-  register('cdr', args => args[0].elements ? mkList(args[0].elements.slice(1)) : mkNull());
+// equal: eql, or strings, conses and vectors with equal contents
+export const isEqual = (a: LispVal, b: LispVal): boolean => {
+  while (a.type === 'CONS' && b.type === 'CONS') {
+    if (a === b) return true;
+    if (!isEqual(a.car!, b.car!)) return false;
+    [a, b] = [a.cdr!, b.cdr!];
+  }
+  if (a.type !== b.type) return false;
+  if (a.type === 'STRING') return a.value === b.value;
+  if (a.type === 'VECTOR') {
+    return a.elements!.length === b.elements!.length && a.elements!.every((e, i) => isEqual(e, b.elements![i]));
+  }
+  return isEql(a, b);
+};
 
-  // Emacs Primitives
-  register('message', args => {
-    const msg = args.map(a => a.type === 'STRING' ? a.value : JSON.stringify(a)).join(' ');
-    api.message(msg);
-    return mkStr(msg);
-  });
+// Identities for objects without a printed key, so hash tables can use strings
+const objectIds = new WeakMap<LispVal, number>();
+let nextObjectId = 0;
+const objectId = (val: LispVal): string => {
+  if (!objectIds.has(val)) objectIds.set(val, nextObjectId++);
+  return `#${objectIds.get(val)}`;
+};
 
-  register('insert', args => {
-    const text = args.map(a => a.value).join('');
-    api.insert(text);
-    return mkNull();
-  });
+// A string that two keys share exactly when TEST considers them the same
+export const hashKey = (test: HashTest, val: LispVal): string => {
+  switch (val.type) {
+    case 'SYMBOL': return `'${val.name}`;
+    case 'NULL': return "'nil";
+    case 'BOOL': return "'t";
+    case 'NUMBER':
+      if (!val.float) return String(val.value);
+      return test === 'eq' ? objectId(val) : `${Object.is(val.value, -0) ? '-0' : val.value}f`;
+    case 'WINDOW': return `window:${val.value}`;
+    case 'STRING':
+      return test === 'equal' ? JSON.stringify(val.value) : objectId(val);
+    case 'CONS':
+      return test === 'equal' ? `(${hashKey(test, val.car!)} . ${hashKey(test, val.cdr!)})` : objectId(val);
+    case 'VECTOR':
+      return test === 'equal' ? `[${val.elements!.map(e => hashKey(test, e)).join(' ')}]` : objectId(val);
+    default:
+      return objectId(val);
+  }
+};
 
-  register('buffer-name', () => mkStr(api.currentBufferName()));
-  register('current-buffer', () => mkStr(api.currentBufferName())); // Simplified: return name as ID
-  
-  register('switch-to-buffer', args => {
-    const name = args[0].value;
-    api.switchBuffer(name);
-    return mkStr(name);
-  });
-  
-  register('kill-buffer', args => {
-    const name = args[0].value;
-    api.killBuffer(name);
-    return mkNull();
-  });
+// --- Non-local exits ---
 
-  register('point', () => mkNum(api.getCursor()));
-  register('point-min', () => mkNum(0));
-  register('point-max', () => mkNum(api.getBufferContent().length));
-  register('goto-char', args => {
-    api.setCursor(args[0].value as number);
-    return args[0];
-  });
+// Whether a condition-case handler's CONDITION covers an error: a symbol,
+// a list of them, or t for anything
+const handlerMatches = (condition: LispVal, err: LispError): boolean => {
+  if (condition.type === 'BOOL') return condition.value;
+  if (condition.type === 'CONS') return listElements(condition).some(c => handlerMatches(c, err));
+  return condition.type === 'SYMBOL' && errorConditions(err.symbol).includes(condition.name!);
+};
 
-  return env;
+// (condition-case VAR BODYFORM (CONDITION BODY...)... [(:success BODY...)])
+const conditionCase = async (elements: LispVal[], env: LispEnv): Promise<LispVal> => {
+  const variable = elements[1].type === 'SYMBOL' ? elements[1].name! : null;
+  const handlers = elements.slice(3).filter(h => h.type === 'CONS').map(listElements);
+  const runHandler = (handler: LispVal[], value: LispVal) => withBindings(
+    env,
+    variable ? [[variable, value]] : [],
+    scope => evalLisp(mkList([mkSym('progn'), ...handler.slice(1)]), scope),
+  );
+
+  let result: LispVal;
+  try {
+    result = await evalLisp(elements[2], env);
+  } catch (e) {
+    if (e instanceof LispThrow) throw e;
+    const err = toLispError(e);
+    const handler = handlers.find(h => h[0].name !== ':success' && handlerMatches(h[0], err));
+    if (!handler) throw err;
+    return runHandler(handler, mkList([mkSym(err.symbol), ...err.data]));
+  }
+  const success = handlers.find(h => h[0].name === ':success');
+  return success ? runHandler(success, result) : result;
 };
 
-// --- S-Exp Finder ---
+// --- Macros ---
 
-export const findLastSexp = (text: string, cursor: number): string | null => {
-  // Scan backwards from cursor
-  // This is a heuristic implementation
-  let pos = cursor - 1;
-  // Skip trailing whitespace
-  while (pos >= 0 && /\s/.test(text[pos])) pos--;
-  
-  if (pos < 0) return null;
+// The macro a form's head names, if any
+const macroFunction = (head: LispVal, env: LispEnv): LispVal | null => {
+  if (head.type !== 'SYMBOL') return null;
+  const val = env.global().vars.get(head.name!);
+  return val && val.type === 'MACRO' ? val : null;
+};
 
-  if (text[pos] === ')') {
-    // Scan back for matching (
-    let depth = 1;
-    let end = pos + 1;
-    pos--;
-    while (pos >= 0 && depth > 0) {
-      if (text[pos] === ')') depth++;
-      if (text[pos] === '(') depth--;
-      if (depth > 0) pos--;
+// Call a macro on its unevaluated arguments
+const expandMacro = (macro: LispVal, args: LispVal[], env: LispEnv): Promise<LispVal> => {
+  return callFunction({ ...macro, type: 'FUNC' }, args, env);
+};
+
+// Expand a form once if it is a macro call; also says whether it was
+export const macroexpand1 = async (form: LispVal, env: LispEnv): Promise<[LispVal, boolean]> => {
+  if (form.type !== 'CONS') return [form, false];
+  const macro = macroFunction(form.car!, env);
+  if (!macro) return [form, false];
+  return [await expandMacro(macro, listElements(form.cdr!), env), true];
+};
+
+// Whether val is a two-element list (HEAD X)
+const isForm = (val: LispVal, head: string) =>
+  val.type === 'CONS' && val.car!.type === 'SYMBOL' && val.car!.name === head
+  && val.cdr!.type === 'CONS' && val.cdr!.cdr!.type === 'NULL';
+
+// Fill in a backquoted template: ,x is evaluated and ,@x spliced in.
+// Nested backquotes raise the depth so their commas are left alone.
+const backquote = async (template: LispVal, env: LispEnv, depth: number): Promise<LispVal> => {
+  if (template.type === 'VECTOR') {
+    return mkVector(await backquoteElements(template.elements!, env, depth));
+  }
+  if (template.type !== 'CONS') return template;
+  if (isForm(template, ',')) {
+    if (depth === 1) return evalLisp(template.cdr!.car!, env);
+    return mkList([template.car!, await backquote(template.cdr!.car!, env, depth - 1)]);
+  }
+  if (isForm(template, '`')) {
+    return mkList([template.car!, await backquote(template.cdr!.car!, env, depth + 1)]);
+  }
+
+  // `(a . ,b) reads as (a \, b): a comma form as the tail fills in the tail
+  const elements: LispVal[] = [];
+  let tail = template;
+  while (tail.type === 'CONS' && !isForm(tail, ',') && !isForm(tail, '`')) {
+    elements.push(tail.car!);
+    tail = tail.cdr!;
+  }
+  return mkList(await backquoteElements(elements, env, depth), await backquote(tail, env, depth));
+};
+
+const backquoteElements = async (elements: LispVal[], env: LispEnv, depth: number): Promise<LispVal[]> => {
+  const result: LispVal[] = [];
+  for (const element of elements) {
+    if (isForm(element, ',@') && depth === 1) {
+      result.push(...listElements(await evalLisp(element.cdr!.car!, env)));
+    } else {
+      result.push(await backquote(element, env, depth));
     }
-    if (depth === 0) {
-      return text.slice(pos, end);
+  }
+  return result;
+};
+
+// --- Functions ---
+
+// A closure over env from a lambda list and body forms. A docstring and an
+// (interactive SPEC) form may come first; the latter makes it a command.
+const makeLambda = (params: LispVal, forms: LispVal[], env: LispEnv): LispVal => {
+  const fn: LispVal = {
+    type: 'FUNC',
+    params: listElements(params).map(symbolName),
+    body: mkList([mkSym('progn'), ...forms]), // Body is implicit progn
+    closure: env,
+  };
+  const hasDoc = forms.length > 1 && forms[0].type === 'STRING';
+  if (hasDoc) fn.doc = forms[0].value;
+  const decl = forms[hasDoc ? 1 : 0];
+  if (decl && decl.type === 'CONS' && decl.car!.name === 'interactive') {
+    fn.interactive = listElements(decl)[1] || mkNull();
+  }
+  return fn;
+};
+
+// Pair a lambda list with arguments: missing &optional ones are nil and
+// &rest collects the remainder in a list
+const bindParams = (fn: LispVal, args: LispVal[]): [string, LispVal][] => {
+  const bindings: [string, LispVal][] = [];
+  let mode: 'required' | '&optional' | '&rest' = 'required';
+  let i = 0;
+  for (const param of fn.params!) {
+    if (param === '&optional' || param === '&rest') {
+      mode = param;
+    } else if (mode === '&rest') {
+      bindings.push([param, mkList(args.slice(i))]);
+      i = args.length;
+    } else {
+      if (i >= args.length && mode === 'required') break;
+      bindings.push([param, args[i] || mkNull()]);
+      i++;
     }
-  } else if (text[pos] === '"') {
-    // Scan back for opening "
-    let end = pos + 1;
-    pos--;
-    while(pos >= 0) {
-        if(text[pos] === '"' && text[pos-1] !== '\\') break;
-        pos--;
+  }
+  const required = fn.params!.findIndex(p => p.startsWith('&'));
+  if (i < args.length || args.length < (required === -1 ? fn.params!.length : required)) {
+    throw new LispError('wrong-number-of-arguments', [fn.name ? mkSym(fn.name) : fn, mkNum(args.length)]);
+  }
+  return bindings;
+};
+
+const isFunction = (val: LispVal) => val.type === 'FUNC' || val.type === 'PRIMITIVE';
+
+// The function called by (NAME ...): a global function, or else a local
+// variable holding one, so a variable named "list" does not hide list
+const functionValue = (name: string, env: LispEnv): LispVal => {
+  const global = env.global();
+  if (global.vars.has(name) && isFunction(global.vars.get(name)!)) return global.vars.get(name)!;
+  try {
+    return env.get(name);
+  } catch {
+    throw new LispError('void-function', [mkSym(name)]);
+  }
+};
+
+// The function a symbol names, or a function value as it is
+export const resolveFunction = (fn: LispVal, env: LispEnv): LispVal => {
+  if (fn.type === 'SYMBOL') {
+    const val = env.global().vars.get(fn.name!);
+    if (!val || !isFunction(val)) throw new LispError('void-function', [fn]);
+    return val;
+  }
+  // A quoted (lambda ...) list is an anonymous function without a closure
+  if (fn.type === 'CONS' && fn.car!.name === 'lambda') {
+    const [, params, ...body] = listElements(fn);
+    return makeLambda(params || mkNull(), body, env.global());
+  }
+  return fn;
+};
+
+// Apply a function value to already evaluated arguments. The call is on
+// the frame stack meanwhile, so an error can record the backtrace. A tail
+// call the body ends with replaces this call and its frame.
+export const callFunction = async (fn: LispVal, args: LispVal[], env: LispEnv): Promise<LispVal> => {
+  const frames = env.frames;
+  const frame = frames.length;
+  frames.push({ fn, args });
+  try {
+    for (;;) {
+      const f = resolveFunction(fn, env);
+      frames[frame] = { fn: fn.type === 'SYMBOL' ? fn : f, args };
+      if (f.type === 'PRIMITIVE') {
+        return await f.fn!(args, env);
+      } else if (f.type !== 'FUNC') {
+        throw new LispError('invalid-function', [fn]);
+      }
+      // The body sees the environment the function was created in, not the caller's
+      const result = await withBindings(f.closure || env.global(), bindParams(f, args), scope => evalForm(f.body!, scope, true));
+      if (!(result instanceof TailCall)) return result;
+      ({ fn, args } = result);
     }
-    return text.slice(pos, end);
-  } else {
-    // Atom
-    let end = pos + 1;
-    while (pos >= 0 && !/\s|\(|\)/.test(text[pos])) pos--;
-    return text.slice(pos + 1, end);
+  } catch (e) {
+    if (e instanceof LispThrow) throw e;
+    const err = toLispError(e);
+    if (!err.backtrace) err.backtrace = frames.slice().reverse().map(formatFrame);
+    throw err;
+  } finally {
+    frames.pop();
   }
-  return null;
 };
 
-export const printLisp = (val: LispVal): string => {
-  if (val.type === 'NULL') return 'nil';
-  if (val.type === 'BOOL') return val.value ? 't' : 'nil';
-  if (val.type === 'NUMBER') return val.value.toString();
-  if (val.type === 'STRING') return `"${val.value}"`;
-  if (val.type === 'SYMBOL') return val.name!;
-  if (val.type === 'LIST') return `(${val.elements!.map(printLisp).join(' ')})`;
-  if (val.type === 'FUNC') return `<function>`;
-  if (val.type === 'PRIMITIVE') return `<subr>`;
-  return '?';
-};
\ No newline at end of file
+// --- Hooks ---
+
+// The functions of a hook value: a list of them, or a single one
+const hookList = (val: LispVal): LispVal[] => {
+  if (val.type === 'NULL') return [];
+  if (val.type === 'CONS' && val.car!.name !== 'lambda') return listElements(val);
+  return [val];
+};
+
+// The functions a hook runs in the current buffer. A buffer-local value
+// replaces the global one, except that t in it stands for the global
+// functions.
+export const hookFunctions = (env: LispEnv, name: string): LispVal[] => {
+  const global = () => hookList(env.global().vars.get(name) || mkNull());
+  const local = env.api.localHook(name);
+  if (!local) return global();
+  return hookList(local).flatMap(fn => (fn.type === 'BOOL' ? global() : [fn]));
+};
+
+// --- Formatting ---
+
+// A float in C's %e notation, which has at least two exponent digits
+const toExponential = (n: number, precision: number): string =>
+  n.toExponential(precision).replace(/e([+-])(\d)$/, 'e$10$2');
+
+// C's %g: %e for very small or large exponents, else %f, without trailing zeros
+const toGeneral = (n: number, precision: number, keepZeros: boolean): string => {
+  const p = precision === 0 ? 1 : precision;
+  const exponent = n === 0 ? 0 : Math.floor(Math.log10(Math.abs(n)));
+  const text = exponent < -4 || exponent >= p ? toExponential(n, p - 1) : n.toFixed(Math.max(0, p - 1 - exponent));
+  if (keepZeros || !text.includes('.')) return text;
+  return text.replace(/\.?0+(?=e|$)/, '');
+};
+
+// The text of (format STRING OBJECTS...). Each spec is
+// %[FIELD$][FLAGS][WIDTH][.PRECISION]CHARACTER as in printf: %s shows
+// strings as text, %S as Lisp, %d %o %x %X %c integers, %f %e %g floats.
+export const formatString = (template: string, args: LispVal[]): string => {
+  let next = 0;
+  return template.replace(/%(?:(\d+)\$)?([-+ #0]*)(\d*)(?:\.(\d+))?([\s\S]?)/g,
+    (_: string, field: string | undefined, flags: string, width: string, precision: string | undefined, conversion: string) => {
+      if (conversion === '%') return '%';
+      if (conversion === '') throw lispError('Format string ends in middle of format specifier');
+      if (field) next = parseInt(field, 10) - 1;
+      if (next >= args.length) throw lispError('Not enough arguments for format string');
+      const arg = args[next++];
+      const prec = precision === undefined ? undefined : parseInt(precision, 10);
+
+      let sign = '';
+      let body: string;
+      if (conversion === 's' || conversion === 'S') {
+        body = conversion === 's' && arg.type === 'STRING' ? arg.value : printLisp(arg);
+        if (prec !== undefined) body = body.slice(0, prec);
+      } else if (conversion === 'c') {
+        if (arg.type !== 'NUMBER' || arg.float) throw lispError('Format specifier doesn’t match argument type');
+        body = String.fromCodePoint(arg.value);
+      } else if ('doxXfeg'.includes(conversion)) {
+        if (arg.type !== 'NUMBER') throw lispError('Format specifier doesn’t match argument type');
+        const n: number = arg.value;
+        sign = n < 0 || Object.is(n, -0) ? '-' : flags.includes('+') ? '+' : flags.includes(' ') ? ' ' : '';
+        const abs = Math.abs(n);
+        if (conversion === 'f') body = abs.toFixed(prec ?? 6);
+        else if (conversion === 'e') body = toExponential(abs, prec ?? 6);
+        else if (conversion === 'g') body = toGeneral(abs, prec ?? 6, flags.includes('#'));
+        else {
+          const base = conversion === 'd' ? 10 : conversion === 'o' ? 8 : 16;
+          body = Math.trunc(abs).toString(base);
+          if (conversion === 'X') body = body.toUpperCase();
+          if (prec !== undefined) body = body.padStart(prec, '0');
+          if (flags.includes('#') && conversion !== 'd') sign += conversion === 'o' ? '0' : `0${conversion}`;
+        }
+      } else {
+        throw lispError(`Invalid format operation %${conversion}`);
+      }
+
+      // Pad to WIDTH: on the right with -, with zeros after the sign with 0
+      const padding = Math.max(0, (parseInt(width, 10) || 0) - sign.length - [...body].length);
+      if (flags.includes('-')) return sign + body + ' '.repeat(padding);
+      if (flags.includes('0') && sign + body !== '' && !'sSc'.includes(conversion)) return sign + '0'.repeat(padding) + body;
+      return ' '.repeat(padding) + sign + body;
+    });
+};
+
+// --- Standard Library ---
+
+// Macros of the standard library, written in Lisp
+const LIBRARY_MACROS = [
+  `(defmacro when (cond &rest body)
+     "If COND yields non-nil, do BODY, else return nil."
+     \`(if ,cond (progn ,@body)))`,
+  `(defmacro unless (cond &rest body)
+     "If COND yields nil, do BODY, else return nil."
+     \`(if ,cond nil ,@body))`,
+  `(defmacro push (newelt place)
+     "Add NEWELT to the list stored in the variable PLACE."
+     \`(setq ,place (cons ,newelt ,place)))`,
+  `(defmacro pop (place)
+     "Return the first element of PLACE's value, and remove it from the list."
+     \`(prog1 (car ,place) (setq ,place (cdr ,place))))`,
+  `(defmacro dolist (spec &rest body)
+     "Loop over a list: (dolist (VAR LIST [RESULT]) BODY...)."
+     \`(let ((--dolist-tail-- ,(car (cdr spec))))
+        (while --dolist-tail--
+          (let ((,(car spec) (car --dolist-tail--)))
+            ,@body
+            (setq --dolist-tail-- (cdr --dolist-tail--))))
+        ,(car (cdr (cdr spec)))))`,
+  `(defmacro ignore-errors (&rest body)
+     "Execute BODY; if an error occurs, return nil."
+     \`(condition-case nil (progn ,@body) (error nil)))`,
+  `(defmacro dotimes (spec &rest body)
+     "Loop a certain number of times: (dotimes (VAR COUNT [RESULT]) BODY...)."
+     \`(let ((,(car spec) 0) (--dotimes-limit-- ,(car (cdr spec))))
+        (while (< ,(car spec) --dotimes-limit--)
+          ,@body
+          (setq ,(car spec) (+ ,(car spec) 1)))
+        ,(car (cdr (cdr spec)))))`,
+  `(defmacro save-match-data (&rest body)
+     "Execute BODY forms, restoring the global match data afterwards."
+     \`(let ((--saved-match-data-- (match-data)))
+        (unwind-protect (progn ,@body)
+          (set-match-data --saved-match-data--))))`,
+  `(defmacro with-current-buffer (buffer-or-name &rest body)
+     "Execute BODY with BUFFER-OR-NAME temporarily current, without displaying it."
+     \`(save-current-buffer (set-buffer ,buffer-or-name) ,@body))`,
+];
+
+// Define a macro from the source of a defmacro form, without evaluating it
+export const defineMacro = (env: LispEnv, source: string) => {
+  const [, name, params, ...body] = listElements(parse(source));
+  env.define(name.name!, { ...makeLambda(params, body, env), type: 'MACRO', name: name.name });
+};
+
+// The command that turns on a major mode, its keymap variable and its hook
+const defineModeFunction = (env: LispEnv, mode: MajorMode) => {
+  env.define(mode.name, {
+    type: 'PRIMITIVE',
+    fn: async () => {
+      await env.api.setMajorMode(mode.name);
+      return mkNull();
+    },
+    name: mode.name,
+    doc: mode.docstring,
+    interactive: mkNull(),
+  });
+  env.define(`${mode.name}-map`, mkKeymap(mode.keymap));
+  if (!env.vars.has(`${mode.name}-hook`)) env.define(`${mode.name}-hook`, mkNull());
+  env.specials.add(`${mode.name}-map`);
+  env.specials.add(`${mode.name}-hook`);
+};
+
+// The maximum argument count of a primitive that takes &rest arguments
+export const MANY = Infinity;
+
+// Define a primitive that, like a DEFUN, takes MIN to MAX arguments
+export const definePrimitive = (
+  env: LispEnv, name: string, min: number, max: number,
+  fn: (args: LispVal[], env: LispEnv) => LispVal | Promise<LispVal>,
+) => {
+  env.define(name, {
+    type: 'PRIMITIVE',
+    fn: (args, callerEnv) => {
+      if (args.length < min || args.length > max) throw new LispError('wrong-number-of-arguments', [mkSym(name), mkNum(args.length)]);
+      return fn(args, callerEnv);
+    },
+    name,
+  });
+};
+
+export const createGlobalEnv = (api: EmacsAPI): LispEnv => {
+  const env = new LispEnv(api);
+
+  const register = (name: string, min: number, max: number, fn: (args: LispVal[], env: LispEnv) => LispVal | Promise<LispVal>) =>
+    definePrimitive(env, name, min, max, fn);
+
+  // Math. Integer arguments give integer results; one float makes the result a float.
+  const num = (val: LispVal): number => {
+    if (val.type !== 'NUMBER') throw wrongType('number-or-marker-p', val);
+    return val.value;
+  };
+  const int = (val: LispVal): number => {
+    if (val.type !== 'NUMBER' || val.float) throw wrongType('integerp', val);
+    return val.value;
+  };
+  const mkNumLike = (n: number, args: LispVal[]): LispVal => (args.some(a => a.float) ? mkFloat(n) : mkNum(n));
+  register('+', 0, MANY, args => mkNumLike(args.reduce((a, b) => a + num(b), 0), args));
+  register('-', 0, MANY, args => {
+    if (args.length === 1) return mkNumLike(-num(args[0]), args);
+    return mkNumLike(args.slice(1).reduce((a, b) => a - num(b), args.length > 0 ? num(args[0]) : 0), args);
+  });
+  register('*', 0, MANY, args => mkNumLike(args.reduce((a, b) => a * num(b), 1), args));
+  register('/', 1, MANY, args => {
+    // Integer division truncates; float division by zero gives an infinity
+    const isFloat = args.some(a => a.float);
+    const [dividend, divisors] = args.length === 1 ? [1, [num(args[0])]] : [num(args[0]), args.slice(1).map(num)];
+    if (!isFloat && divisors.includes(0)) throw new LispError('arith-error');
+    return mkNumLike(divisors.reduce((a, b) => (isFloat ? a / b : Math.trunc(a / b)), dividend), args);
+  });
+  register('%', 2, 2, args => {
+    if (int(args[1]) === 0) throw new LispError('arith-error');
+    return mkNum(int(args[0]) % int(args[1]));
+  });
+  register('mod', 2, 2, args => {
+    // The result has the sign of the divisor
+    const [a, b] = [num(args[0]), num(args[1])];
+    if (b === 0 && !args.some(x => x.float)) throw new LispError('arith-error');
+    return mkNumLike(a - b * Math.floor(a / b), args);
+  });
+  register('1+', 1, 1, args => mkNumLike(num(args[0]) + 1, args));
+  register('1-', 1, 1, args => mkNumLike(num(args[0]) - 1, args));
+  register('abs', 1, 1, args => mkNumLike(Math.abs(num(args[0])), args));
+  register('max', 1, MANY, args => mkNumLike(Math.max(...args.map(num)), args));
+  register('min', 1, MANY, args => mkNumLike(Math.min(...args.map(num)), args));
+  register('float', 1, 1, args => mkFloat(num(args[0])));
+  // (truncate X &optional DIVISOR) and friends round a quotient to an integer
+  const rounding = (name: string, round: (n: number) => number) => register(name, 1, 2, args => {
+    const divisor = args[1] && args[1].type !== 'NULL' ? num(args[1]) : 1;
+    if (divisor === 0) throw new LispError('arith-error');
+    const n = round(num(args[0]) / divisor);
+    if (!Number.isFinite(n)) throw new LispError('overflow-error', [args[0]]);
+    return mkNum(n);
+  });
+  rounding('truncate', Math.trunc);
+  rounding('floor', Math.floor);
+  rounding('ceiling', Math.ceil);
+  rounding('round', n => (Math.abs(n % 1) === 0.5 ? 2 * Math.round(n / 2) : Math.round(n))); // Halves go to even
+  // Comparisons take any number of arguments: (< 1 2 3)
+  const comparison = (name: string, holds: (a: number, b: number) => boolean) => register(name, 1, MANY, args => {
+    const values = args.map(num);
+    return mkBool(values.every((v, i) => i === 0 || holds(values[i - 1], v)));
+  });
+  comparison('=', (a, b) => a === b);
+  comparison('<', (a, b) => a < b);
+  comparison('>', (a, b) => a > b);
+  comparison('<=', (a, b) => a <= b);
+  comparison('>=', (a, b) => a >= b);
+  register('/=', 2, 2, args => mkBool(num(args[0]) !== num(args[1])));
+  register('zerop', 1, 1, args => mkBool(num(args[0]) === 0));
+
+  // Types
+  const typeNames: Partial<Record<LispType, string>> = {
+    SYMBOL: 'symbol', BOOL: 'symbol', NULL: 'symbol', STRING: 'string', CONS: 'cons', VECTOR: 'vector',
+    HASH_TABLE: 'hash-table', FUNC: 'interpreted-function', MACRO: 'cons', PRIMITIVE: 'subr', WINDOW: 'window',
+    KEYMAP: 'cons',
+  };
+  register('type-of', 1, 1, args => {
+    const val = args[0];
+    return mkSym(val.type === 'NUMBER' ? (val.float ? 'float' : 'integer') : typeNames[val.type]!);
+  });
+  const predicate = (name: string, test: (val: LispVal) => boolean) => register(name, 1, 1, args => mkBool(test(args[0])));
+  predicate('symbolp', v => v.type === 'SYMBOL' || v.type === 'NULL' || v.type === 'BOOL');
+  predicate('stringp', v => v.type === 'STRING');
+  predicate('numberp', v => v.type === 'NUMBER');
+  predicate('integerp', v => v.type === 'NUMBER' && !v.float);
+  predicate('natnump', v => v.type === 'NUMBER' && !v.float && v.value >= 0);
+  predicate('floatp', v => v.type === 'NUMBER' && !!v.float);
+  predicate('characterp', v => v.type === 'NUMBER' && !v.float && v.value >= 0 && v.value <= 0x3fffff);
+  predicate('consp', v => v.type === 'CONS');
+  predicate('atom', v => v.type !== 'CONS');
+  predicate('listp', v => v.type === 'CONS' || v.type === 'NULL');
+  predicate('null', v => v.type === 'NULL');
+  predicate('not', v => v.type === 'NULL');
+  predicate('vectorp', v => v.type === 'VECTOR');
+  predicate('arrayp', v => v.type === 'VECTOR' || v.type === 'STRING');
+  predicate('sequencep', v => ['CONS', 'NULL', 'VECTOR', 'STRING'].includes(v.type));
+  predicate('hash-table-p', v => v.type === 'HASH_TABLE');
+
+  // Equality
+  register('eq', 2, 2, args => mkBool(isEq(args[0], args[1])));
+  register('eql', 2, 2, args => mkBool(isEql(args[0], args[1])));
+  register('equal', 2, 2, args => mkBool(isEqual(args[0], args[1])));
+
+  // Conses and lists
+  const listArg = (val: LispVal): LispVal => {
+    if (val.type !== 'CONS' && val.type !== 'NULL') throw wrongType('listp', val);
+    return val;
+  };
+  const consArg = (val: LispVal): LispVal => {
+    if (val.type !== 'CONS') throw wrongType('consp', val);
+    return val;
+  };
+  register('cons', 2, 2, args => mkCons(args[0], args[1]));
+  register('list', 0, MANY, args => mkList(args));
+  register('car', 1, 1, args => listArg(args[0]).car || mkNull());
+  register('cdr', 1, 1, args => listArg(args[0]).cdr || mkNull());
+  register('car-safe', 1, 1, args => args[0].car || mkNull());
+  register('cdr-safe', 1, 1, args => args[0].cdr || mkNull());
+  register('setcar', 2, 2, args => (consArg(args[0]).car = args[1]));
+  register('setcdr', 2, 2, args => (consArg(args[0]).cdr = args[1]));
+  const nthcdr = (n: number, list: LispVal): LispVal => {
+    let tail = listArg(list);
+    for (let i = 0; i < n && tail.type === 'CONS'; i++) tail = listArg(tail.cdr!);
+    return tail;
+  };
+  register('nthcdr', 2, 2, args => nthcdr(int(args[0]), args[1]));
+  register('nth', 2, 2, args => nthcdr(int(args[0]), args[1]).car || mkNull());
+  register('last', 1, 1, args => {
+    let tail = listArg(args[0]);
+    while (tail.type === 'CONS' && tail.cdr!.type === 'CONS') tail = tail.cdr!;
+    return tail;
+  });
+  register('append', 0, MANY, args => {
+    // Every sequence but the last is copied; the last becomes the shared tail
+    if (args.length === 0) return mkNull();
+    return mkList(args.slice(0, -1).flatMap(seqElements), args[args.length - 1]);
+  });
+  register('reverse', 1, 1, args => {
+    if (args[0].type === 'VECTOR') return mkVector(args[0].elements!.slice().reverse());
+    if (args[0].type === 'STRING') return mkStr([...args[0].value as string].reverse().join(''));
+    return mkList(listElements(args[0]).reverse());
+  });
+  register('copy-sequence', 1, 1, args => {
+    if (args[0].type === 'VECTOR') return mkVector(args[0].elements!.slice());
+    if (args[0].type === 'STRING') return mkStr(args[0].value);
+    return mkList(listElements(args[0]));
+  });
+  register('copy-tree', 1, 1, args => {
+    const copy = (val: LispVal): LispVal => (val.type === 'CONS' ? mkCons(copy(val.car!), copy(val.cdr!)) : val);
+    return copy(args[0]);
+  });
+  // memq, member and friends return the tail that starts with the element
+  const member = (name: string, same: (a: LispVal, b: LispVal) => boolean) => register(name, 2, 2, args => {
+    for (let tail = listArg(args[1]); tail.type === 'CONS'; tail = listArg(tail.cdr!)) {
+      if (same(args[0], tail.car!)) return tail;
+    }
+    return mkNull();
+  });
+  member('memq', isEq);
+  member('memql', isEql);
+  member('member', isEqual);
+  // Alists are lists of (KEY . VALUE) conses; other elements are skipped
+  const assoc = (alist: LispVal, matches: (entry: LispVal) => boolean): LispVal =>
+    listElements(alist).find(entry => entry.type === 'CONS' && matches(entry)) || mkNull();
+  register('assq', 2, 2, args => assoc(args[1], entry => isEq(args[0], entry.car!)));
+  register('assoc', 2, 3, async (args, env) => {
+    // (assoc KEY ALIST &optional TESTFN)
+    const testFn = args[2] && isTrue(args[2]) ? args[2] : null;
+    if (!testFn) return assoc(args[1], entry => isEqual(args[0], entry.car!));
+    for (const entry of listElements(args[1])) {
+      if (entry.type === 'CONS' && isTrue(await callFunction(testFn, [args[0], entry.car!], env))) return entry;
+    }
+    return mkNull();
+  });
+  register('rassq', 2, 2, args => assoc(args[1], entry => isEq(args[0], entry.cdr!)));
+  register('rassoc', 2, 2, args => assoc(args[1], entry => isEqual(args[0], entry.cdr!)));
+  register('alist-get', 2, 5, args => {
+    // (alist-get KEY ALIST &optional DEFAULT REMOVE TESTFN); TESTFN may be eq, eql or equal
+    const test = args[4] && args[4].type === 'SYMBOL' ? args[4].name : 'eq';
+    const same = test === 'equal' ? isEqual : test === 'eql' ? isEql : isEq;
+    const entry = assoc(args[1], e => same(args[0], e.car!));
+    return entry.type === 'CONS' ? entry.cdr! : args[2] || mkNull();
+  });
+  // delq and delete unlink matching elements in place and return the new head
+  const remover = (name: string, same: (a: LispVal, b: LispVal) => boolean) => register(name, 2, 2, args => {
+    if (args[1].type === 'VECTOR') return mkVector(args[1].elements!.filter(e => !same(args[0], e)));
+    let head = listArg(args[1]);
+    while (head.type === 'CONS' && same(args[0], head.car!)) head = listArg(head.cdr!);
+    for (let prev = head; prev.type === 'CONS' && prev.cdr!.type === 'CONS';) {
+      if (same(args[0], prev.cdr!.car!)) prev.cdr = prev.cdr!.cdr!;
+      else prev = prev.cdr!;
+    }
+    return head;
+  });
+  remover('delq', isEq);
+  remover('delete', isEqual);
+
+  // Sequences: lists, vectors, and strings as sequences of characters
+  const seqElements = (val: LispVal): LispVal[] => {
+    if (val.type === 'NULL' || val.type === 'CONS') return listElements(val);
+    if (val.type === 'VECTOR') return val.elements!;
+    if (val.type === 'STRING') return [...val.value as string].map(c => mkNum(c.codePointAt(0)!));
+    throw wrongType('sequencep', val);
+  };
+  register('length', 1, 1, args => mkNum(seqElements(args[0]).length));
+  register('elt', 2, 2, args => {
+    // Past the end of a list is nil; of an array, an error
+    const elements = seqElements(args[0]);
+    if (args[0].type === 'CONS' || args[0].type === 'NULL') return elements[int(args[1])] || mkNull();
+    return elements[indexArg(args[0], elements, args[1])];
+  });
+
+  // Vectors
+  const vectorArg = (val: LispVal): LispVal[] => {
+    if (val.type !== 'VECTOR') throw wrongType('vectorp', val);
+    return val.elements!;
+  };
+  const indexArg = (array: LispVal, elements: unknown[], index: LispVal): number => {
+    const i = int(index);
+    if (i < 0 || i >= elements.length) throw new LispError('args-out-of-range', [array, index]);
+    return i;
+  };
+  register('vector', 0, MANY, args => mkVector(args));
+  register('make-vector', 2, 2, args => mkVector(Array.from({ length: int(args[0]) }, () => args[1])));
+  register('vconcat', 0, MANY, args => mkVector(args.flatMap(seqElements)));
+  register('aref', 2, 2, args => {
+    const elements = args[0].type === 'STRING' ? seqElements(args[0]) : vectorArg(args[0]);
+    return elements[indexArg(args[0], elements, args[1])];
+  });
+  register('aset', 3, 3, args => {
+    const elements = vectorArg(args[0]);
+    elements[indexArg(args[0], elements, args[1])] = args[2];
+    return args[2];
+  });
+
+  // Characters are integers
+  const charArg = (val: LispVal): string => {
+    if (val.type !== 'NUMBER' || val.float || val.value < 0 || val.value > 0x10ffff) throw wrongType('characterp', val);
+    return String.fromCodePoint(val.value);
+  };
+  register('char-to-string', 1, 1, args => mkStr(charArg(args[0])));
+  register('string', 0, MANY, args => mkStr(args.map(charArg).join('')));
+  register('string-to-char', 1, 1, args => mkNum(stringArg(args[0]).codePointAt(0) ?? 0));
+
+  // Hash tables
+  const hashTableArg = (val: LispVal): LispHashTable => {
+    if (val.type !== 'HASH_TABLE') throw wrongType('hash-table-p', val);
+    return val.value;
+  };
+  register('make-hash-table', 0, MANY, args => {
+    // (make-hash-table &rest KEYWORD-ARGS); only :test matters, the others are accepted
+    let test: HashTest = 'eql';
+    for (let i = 0; i + 1 < args.length; i += 2) {
+      if (args[i].name !== ':test') continue;
+      const name = args[i + 1].name;
+      if (name !== 'eq' && name !== 'eql' && name !== 'equal') throw lispError(`Invalid hash table test: ${printLisp(args[i + 1])}`);
+      test = name;
+    }
+    return mkHashTable(test);
+  });
+  register('gethash', 2, 3, args => {
+    // (gethash KEY TABLE &optional DEFAULT)
+    const table = hashTableArg(args[1]);
+    const entry = table.entries.get(hashKey(table.test, args[0]));
+    return entry ? entry[1] : args[2] || mkNull();
+  });
+  register('puthash', 3, 3, args => {
+    // (puthash KEY VALUE TABLE); an existing key keeps its place
+    const table = hashTableArg(args[2]);
+    const key = hashKey(table.test, args[0]);
+    table.entries.set(key, [table.entries.get(key)?.[0] || args[0], args[1]]);
+    return args[1];
+  });
+  register('remhash', 2, 2, args => {
+    const table = hashTableArg(args[1]);
+    table.entries.delete(hashKey(table.test, args[0]));
+    return mkNull();
+  });
+  register('clrhash', 1, 1, args => {
+    hashTableArg(args[0]).entries.clear();
+    return args[0];
+  });
+  register('maphash', 2, 2, async (args, env) => {
+    // (maphash FUNCTION TABLE): FUNCTION gets each key and value
+    for (const [key, value] of [...hashTableArg(args[1]).entries.values()]) {
+      await callFunction(args[0], [key, value], env);
+    }
+    return mkNull();
+  });
+  register('hash-table-count', 1, 1, args => mkNum(hashTableArg(args[0]).entries.size));
+  register('hash-table-test', 1, 1, args => mkSym(hashTableArg(args[0]).test));
+  register('hash-table-keys', 1, 1, args => mkList([...hashTableArg(args[0]).entries.values()].map(([key]) => key)));
+  register('hash-table-values', 1, 1, args => mkList([...hashTableArg(args[0]).entries.values()].map(([, value]) => value)));
+
+  // Strings
+  const stringArg = (val: LispVal): string => {
+    if (val.type !== 'STRING') throw wrongType('stringp', val);
+    return val.value;
+  };
+  // Text of a string or a character, for functions that take either
+  const textArg = (val: LispVal): string => (val.type === 'NUMBER' ? charArg(val) : stringArg(val));
+
+  register('concat', 0, MANY, args => mkStr(args.map(a => (a.type === 'STRING' ? a.value : seqElements(a).map(charArg).join(''))).join('')));
+  register('substring', 1, 3, args => {
+    // (substring STRING &optional FROM TO); negative positions count from the end
+    const seq = args[0];
+    const length = seq.type === 'VECTOR' ? seq.elements!.length : stringArg(seq).length;
+    const position = (arg: LispVal | undefined, fallback: number): number => {
+      if (!arg || arg.type === 'NULL') return fallback;
+      const n = int(arg);
+      return n < 0 ? length + n : n;
+    };
+    const [from, to] = [position(args[1], 0), position(args[2], length)];
+    if (from < 0 || to > length || from > to) throw new LispError('args-out-of-range', [seq, args[1] || mkNull(), args[2] || mkNull()]);
+    return seq.type === 'VECTOR' ? mkVector(seq.elements!.slice(from, to)) : mkStr(seq.value.slice(from, to));
+  });
+  register('string-to-number', 1, 2, args => {
+    // (string-to-number STRING &optional BASE): the number at the start, or 0
+    const text = stringArg(args[0]).trimStart();
+    const base = args[1] && args[1].type !== 'NULL' ? int(args[1]) : 10;
+    if (base !== 10) {
+      const n = parseInt(text, base);
+      return mkNum(Number.isNaN(n) ? 0 : n);
+    }
+    const match = /^[-+]?(\d+\.?\d*(e[-+]?\d+)?|\.\d+(e[-+]?\d+)?)/.exec(text);
+    if (!match) return mkNum(0);
+    return /\.\d|e/.test(match[0]) ? mkFloat(parseFloat(match[0])) : mkNum(parseInt(match[0], 10));
+  });
+  register('number-to-string', 1, 1, args => mkStr(printLisp(args[0].type === 'NUMBER' ? args[0] : mkNum(num(args[0])))));
+  register('prin1-to-string', 1, 1, args => mkStr(printLisp(args[0])));
+  register('format', 1, MANY, args => mkStr(formatString(stringArg(args[0]), args.slice(1))));
+
+  // upcase and downcase take a string or a character
+  const caseConverter = (name: string, convert: (text: string) => string) => register(name, 1, 1, args => {
+    if (args[0].type === 'NUMBER') {
+      const converted = convert(charArg(args[0]));
+      return mkNum([...converted].length === 1 ? converted.codePointAt(0)! : args[0].value);
+    }
+    return mkStr(convert(stringArg(args[0])));
+  });
+  caseConverter('upcase', text => text.toUpperCase());
+  caseConverter('downcase', text => text.toLowerCase());
+  caseConverter('capitalize', text => text.toLowerCase().replace(/(^|[^\p{L}\p{N}])(\p{L})/gu, (_, before, letter) => before + letter.toUpperCase()));
+
+  register('string=', 2, 2, args => mkBool(textArg(args[0]) === textArg(args[1])));
+  register('string-equal', 2, 2, args => mkBool(textArg(args[0]) === textArg(args[1])));
+  register('string<', 2, 2, args => mkBool(textArg(args[0]) < textArg(args[1])));
+  register('string-lessp', 2, 2, args => mkBool(textArg(args[0]) < textArg(args[1])));
+  register('string-empty-p', 1, 1, args => mkBool(stringArg(args[0]) === ''));
+  register('string-prefix-p', 2, 3, args => {
+    // (string-prefix-p PREFIX STRING &optional IGNORE-CASE)
+    const fold = (text: string) => (args[2] && isTrue(args[2]) ? text.toLowerCase() : text);
+    return mkBool(fold(stringArg(args[1])).startsWith(fold(stringArg(args[0]))));
+  });
+  register('string-suffix-p', 2, 3, args => {
+    const fold = (text: string) => (args[2] && isTrue(args[2]) ? text.toLowerCase() : text);
+    return mkBool(fold(stringArg(args[1])).endsWith(fold(stringArg(args[0]))));
+  });
+  register('string-join', 1, 2, args => {
+    // (string-join STRINGS &optional SEPARATOR)
+    const separator = args[1] && args[1].type !== 'NULL' ? stringArg(args[1]) : '';
+    return mkStr(listElements(args[0]).map(stringArg).join(separator));
+  });
+
+  // Regexps use Emacs syntax. Matching sets the match data: the start and
+  // end of the match and of each group, or undefined for a group that did
+  // not take part.
+  let matchData: ([number, number] | undefined)[] = [];
+  env.define('case-fold-search', mkBool(true));
+
+  const compileRegexp = (pattern: string, flags: string): RegExp => {
+    const fold = isTrue(env.get('case-fold-search')) ? 'i' : '';
+    try {
+      return new RegExp(emacsRegexpToJs(pattern), flags + fold);
+    } catch (e) {
+      throw new LispError('invalid-regexp', [mkStr(e instanceof Error ? e.message : String(e))]);
+    }
+  };
+  const setMatchData = (match: RegExpExecArray, offset = 0) => {
+    matchData = Array.from(match.indices!, range => (range ? [range[0] + offset, range[1] + offset] : undefined));
+  };
+  // Trims of a string at its very start and end, unlike ^ and $ which also match at newlines
+  const anchored = (regexp: string, end: 'start' | 'end'): RegExp =>
+    compileRegexp(end === 'start' ? `\\\`\\(?:${regexp}\\)` : `\\(?:${regexp}\\)\\'`, '');
+  const DEFAULT_TRIM = '[ \t\n\r]+';
+
+  const stringMatch = (args: LispVal[], setData: boolean): LispVal => {
+    // (string-match REGEXP STRING &optional START)
+    const text = stringArg(args[1]);
+    let start = args[2] && args[2].type !== 'NULL' ? int(args[2]) : 0;
+    if (start < 0) start += text.length;
+    if (start < 0 || start > text.length) throw new LispError('args-out-of-range', [args[1], args[2]]);
+    const regexp = compileRegexp(stringArg(args[0]), 'dgm');
+    regexp.lastIndex = start;
+    const match = regexp.exec(text);
+    if (!match) return mkNull();
+    if (setData) setMatchData(match);
+    return mkNum(match.index);
+  };
+  register('string-match', 2, 3, args => stringMatch(args, true));
+  register('string-match-p', 2, 3, args => stringMatch(args, false));
+
+  const matchRange = (group: LispVal): [number, number] | undefined => {
+    const n = int(group);
+    if (n < 0) throw new LispError('args-out-of-range', [group]);
+    return matchData[n];
+  };
+  register('match-beginning', 1, 1, args => {
+    const range = matchRange(args[0]);
+    return range ? mkNum(range[0]) : mkNull();
+  });
+  register('match-end', 1, 1, args => {
+    const range = matchRange(args[0]);
+    return range ? mkNum(range[1]) : mkNull();
+  });
+  register('match-string', 1, 2, args => {
+    // (match-string NUM &optional STRING): from STRING if the match was in one, else the buffer
+    const range = matchRange(args[0]);
+    if (!range) return mkNull();
+    const text = args[1] && args[1].type !== 'NULL' ? stringArg(args[1]) : api.getBufferContent();
+    return mkStr(text.slice(range[0], range[1]));
+  });
+  register('match-data', 0, 0, () => mkList(matchData.flatMap(range => (range ? range.map(mkNum) : [mkNull(), mkNull()]))));
+  register('set-match-data', 1, 1, args => {
+    const positions = listElements(args[0]);
+    matchData = [];
+    for (let i = 0; i + 1 < positions.length; i += 2) {
+      const [start, end] = [positions[i], positions[i + 1]];
+      matchData.push(start.type === 'NUMBER' && end.type === 'NUMBER' ? [start.value, end.value] : undefined);
+    }
+    return mkNull();
+  });
+  const quoteRegexp = (text: string): string => text.replace(/[[*.\\?+^$]/g, '\\$&');
+  register('regexp-quote', 1, 1, args => mkStr(quoteRegexp(stringArg(args[0]))));
+
+  register('replace-regexp-in-string', 3, 7, async (args, env) => {
+    // (replace-regexp-in-string REGEXP REP STRING &optional FIXEDCASE LITERAL SUBEXP START).
+    // REP is a string with \& and \N references, or a function of the matched
+    // text. The case of the replacement is never adjusted, as if FIXEDCASE.
+    const [, rep, string, , literal, subexp, startArg] = args;
+    const text = stringArg(string);
+    const group = subexp && subexp.type !== 'NULL' ? int(subexp) : 0;
+    const start = startArg && startArg.type !== 'NULL' ? int(startArg) : 0;
+    const regexp = compileRegexp(stringArg(args[0]), 'dgm');
+    regexp.lastIndex = start;
+    let result = '';
+    let copied = start;
+    let match: RegExpExecArray | null;
+    while ((match = regexp.exec(text)) !== null) {
+      if (match[0].length === 0) regexp.lastIndex++;
+      const range = match.indices![group];
+      if (!range) throw lispError(`replace-regexp-in-string: Attempt to replace regexp subexpression that doesn't exist`);
+      setMatchData(match);
+      let replacement = rep.type === 'STRING' ? rep.value : stringArg(await callFunction(rep, [mkStr(match[0])], env));
+      if (!literal || !isTrue(literal)) {
+        replacement = expandReplacement(replacement, { start: match.index, end: match.index + match[0].length, groups: Array.from(match, g => g ?? '') });
+      }
+      result += text.slice(copied, range[0]) + replacement;
+      copied = range[1];
+      if (match.index >= text.length) break;
+    }
+    return mkStr(result + text.slice(copied)); // The text before START is left out
+  });
+
+  register('split-string', 1, 4, args => {
+    // (split-string STRING &optional SEPARATORS OMIT-NULLS TRIM); the default
+    // separators are whitespace and then empty parts are always omitted
+    const text = stringArg(args[0]);
+    const defaultSeparators = !args[1] || args[1].type === 'NULL';
+    const separators = compileRegexp(defaultSeparators ? '[ \f\t\n\r\v]+' : stringArg(args[1]), 'g');
+    const omitNulls = defaultSeparators || (args[2] !== undefined && isTrue(args[2]));
+    const trim = args[3] && args[3].type !== 'NULL' ? stringArg(args[3]) : null;
+    const parts: string[] = [];
+    let partStart = 0;
+    let match: RegExpExecArray | null;
+    while ((match = separators.exec(text)) !== null) {
+      if (match[0].length === 0) {
+        // An empty separator splits between characters, but never at either end
+        if (match.index >= text.length) break;
+        separators.lastIndex++;
+        if (match.index === 0) continue;
+      }
+      parts.push(text.slice(partStart, match.index));
+      partStart = match.index + match[0].length;
+    }
+    parts.push(text.slice(partStart));
+    const trimmed = trim === null ? parts : parts.map(part => part.replace(anchored(trim, 'start'), '').replace(anchored(trim, 'end'), ''));
+    return mkList(trimmed.filter(part => !omitNulls || part !== '').map(mkStr));
+  });
+
+  // (string-trim STRING &optional TRIM-LEFT TRIM-RIGHT); the trims are regexps
+  const trimmer = (name: string, ends: ('start' | 'end')[]) => register(name, 1, ends.length + 1, args => {
+    let text = stringArg(args[0]);
+    ends.forEach((end, i) => {
+      const trim = args[i + 1] && args[i + 1].type !== 'NULL' ? stringArg(args[i + 1]) : DEFAULT_TRIM;
+      text = text.replace(anchored(trim, end), '');
+    });
+    return mkStr(text);
+  });
+  trimmer('string-trim', ['start', 'end']);
+  trimmer('string-trim-left', ['start']);
+  trimmer('string-trim-right', ['end']);
+
+  // Functions as values
+
+  register('funcall', 1, MANY, (args, env) => callFunction(args[0], args.slice(1), env));
+  register('apply', 1, MANY, (args, env) => {
+    // (apply F ARG... LIST): the last argument is spread
+    const spread = args.length > 1 ? seqElements(args[args.length - 1]) : [];
+    return callFunction(args[0], [...args.slice(1, -1), ...spread], env);
+  });
+  register('mapcar', 2, 2, async (args, env) => {
+    const results: LispVal[] = [];
+    for (const item of seqElements(args[1])) results.push(await callFunction(args[0], [item], env));
+    return mkList(results);
+  });
+  register('mapc', 2, 2, async (args, env) => {
+    for (const item of seqElements(args[1])) await callFunction(args[0], [item], env);
+    return args[1];
+  });
+  register('mapconcat', 2, 3, async (args, env) => {
+    const parts: string[] = [];
+    for (const item of seqElements(args[1])) parts.push((await callFunction(args[0], [item], env)).value);
+    return mkStr(parts.join(args[2] ? args[2].value : ''));
+  });
+  register('identity', 1, 1, args => args[0]);
+  register('functionp', 1, 1, args => {
+    const val = args[0];
+    if (val.type === 'SYMBOL') return mkBool(isFunction(env.vars.get(val.name!) || mkNull()));
+    return mkBool(isFunction(val) || (val.type === 'CONS' && val.car!.name === 'lambda'));
+  });
+  register('fboundp', 1, 1, args => mkBool(args[0].type === 'SYMBOL' && isFunction(env.vars.get(args[0].name!) || mkNull())));
+
+  // Errors and non-local exits
+  register('signal', 2, 2, args => {
+    // (signal ERROR-SYMBOL DATA)
+    if (args[0].type !== 'SYMBOL') throw wrongType('symbolp', args[0]);
+    throw new LispError(args[0].name!, args[1] && args[1].type === 'CONS' ? listElements(args[1]) : []);
+  });
+  register('error', 1, MANY, args => {
+    throw lispError(formatString(stringArg(args[0]), args.slice(1)));
+  });
+  register('user-error', 1, MANY, args => {
+    throw new LispError('user-error', [mkStr(formatString(stringArg(args[0]), args.slice(1)))]);
+  });
+  register('define-error', 2, 3, args => {
+    // (define-error NAME MESSAGE &optional PARENT), PARENT a symbol or a list of them
+    const parent = args[2];
+    const parents = !parent || parent.type === 'NULL' ? ['error']
+      : parent.type === 'CONS' ? listElements(parent).map(symbolName) : [symbolName(parent)];
+    defineError(symbolName(args[0]), stringArg(args[1]), parents);
+    return mkNull();
+  });
+  register('error-message-string', 1, 1, args => {
+    // ERR is (ERROR-SYMBOL . DATA), as condition-case binds it
+    const [symbol, ...data] = listElements(listArg(args[0]));
+    return mkStr(symbol && symbol.type === 'SYMBOL' ? errorMessageString(symbol.name!, data) : `peculiar error`);
+  });
+  register('throw', 2, 2, (args, env) => {
+    if (!env.catchTags.some(t => isEq(t, args[0]))) throw new LispError('no-catch', [args[0], args[1] || mkNull()]);
+    throw new LispThrow(args[0], args[1] || mkNull());
+  });
+  env.define('debug-on-error', mkNull());
+  env.define('max-lisp-eval-depth', mkNum(1600));
+
+  // Macros
+  register('macroexpand-1', 1, 1, async (args, env) => (await macroexpand1(args[0], env))[0]);
+  register('macroexpand', 1, 1, async (args, env) => {
+    let [form, expanded] = await macroexpand1(args[0], env);
+    while (expanded) [form, expanded] = await macroexpand1(form, env);
+    return form;
+  });
+  register('macrop', 1, 1, args => mkBool(macroFunction(args[0], env) !== null));
+  for (const source of LIBRARY_MACROS) defineMacro(env, source);
+
+  // Global and dynamic values of symbols
+  register('boundp', 1, 1, args => mkBool(args[0].type === 'SYMBOL' && env.vars.has(args[0].name!)));
+  register('symbol-value', 1, 1, args => env.get(args[0].name!));
+  register('set', 2, 2, args => {
+    env.set(args[0].name!, args[1]);
+    return args[1];
+  });
+  register('special-variable-p', 1, 1, args => mkBool(env.specials.has(args[0].name!)));
+
+  // Hooks. These are the ones the editor runs besides mode hooks;
+  // after-change-functions get the START, END and OLD-LENGTH of a change.
+  for (const hook of ['after-change-functions', 'before-save-hook', 'after-save-hook', 'kill-buffer-hook',
+    'pre-command-hook', 'post-command-hook', 'find-file-hook']) {
+    env.define(hook, mkNull());
+  }
+  env.define('inhibit-modification-hooks', mkNull()); // Non-nil while after-change-functions run
+  register('add-hook', 2, 4, args => {
+    // (add-hook HOOK FUNCTION &optional DEPTH LOCAL): DEPTH t or positive
+    // appends, else FUNCTION goes first; LOCAL changes the current buffer's value
+    const [hook, fn, depth, local] = args;
+    if (hook.type !== 'SYMBOL') throw wrongType('symbolp', hook);
+    const name = hook.name!;
+    const append = depth !== undefined && isTrue(depth) && !(depth.type === 'NUMBER' && depth.value <= 0);
+    const isLocal = local !== undefined && isTrue(local);
+    if (!isLocal && !env.vars.has(name)) {
+      env.define(name, mkNull());
+      env.specials.add(name);
+    }
+    const fns = hookList(isLocal ? api.localHook(name) || mkList([mkBool(true)]) : env.vars.get(name)!);
+    const added = fns.some(f => isEqual(f, fn)) ? fns : append ? [...fns, fn] : [fn, ...fns];
+    if (isLocal) api.setLocalHook(name, mkList(added));
+    else env.vars.set(name, mkList(added));
+    return mkNull();
+  });
+  register('remove-hook', 2, 3, args => {
+    // (remove-hook HOOK FUNCTION &optional LOCAL); a local value left with only t is removed
+    const [hook, fn, local] = args;
+    if (hook.type !== 'SYMBOL') throw wrongType('symbolp', hook);
+    const name = hook.name!;
+    if (local !== undefined && isTrue(local)) {
+      const value = api.localHook(name);
+      if (!value) return mkNull();
+      const fns = hookList(value).filter(f => !isEqual(f, fn));
+      api.setLocalHook(name, fns.length === 1 && fns[0].type === 'BOOL' ? null : mkList(fns));
+    } else if (env.vars.has(name)) {
+      env.vars.set(name, mkList(hookList(env.vars.get(name)!).filter(f => !isEqual(f, fn))));
+    }
+    return mkNull();
+  });
+  const runHook = async (hook: LispVal, args: LispVal[], callerEnv: LispEnv) => {
+    if (hook.type !== 'SYMBOL') throw wrongType('symbolp', hook);
+    for (const fn of hookFunctions(env, hook.name!)) await callFunction(fn, args, callerEnv);
+  };
+  register('run-hooks', 0, MANY, async (args, env) => {
+    for (const hook of args) await runHook(hook, [], env);
+    return mkNull();
+  });
+  register('run-hook-with-args', 1, MANY, async (args, env) => {
+    await runHook(args[0], args.slice(1), env);
+    return mkNull();
+  });
+
+  // Emacs Primitives
+  register('message', 1, MANY, args => {
+    // (message FORMAT-STRING &rest ARGS), formatted like format; nil clears the echo area
+    if (args[0].type === 'NULL') {
+      api.message('');
+      return mkNull();
+    }
+    const msg = formatString(stringArg(args[0]), args.slice(1));
+    api.message(msg);
+    return mkStr(msg);
+  });
+  env.define('message-log-max', mkNum(1000)); // Lines *Messages* keeps; nil for none, t for no limit
+
+  // Editing a read-only buffer signals, unless inhibit-read-only is set
+  env.define('inhibit-read-only', mkNull());
+  const checkWritable = () => {
+    if (api.bufferReadOnly() && !isTrue(env.get('inhibit-read-only'))) {
+      throw new LispError('buffer-read-only', [mkSym(api.currentBufferName())]);
+    }
+  };
+
+  register('insert', 0, MANY, async args => {
+    // Strings and characters
+    const text = args.map(textArg).join('');
+    checkWritable();
+    await api.insert(text);
+    return mkNull();
+  });
+
+  register('buffer-name', 0, 0, () => mkStr(api.currentBufferName()));
+  register('current-buffer', 0, 0, () => mkStr(api.currentBufferName())); // Simplified: return name as ID
+  
+  register('set-buffer', 1, 1, args => {
+    const name = stringArg(args[0]);
+    if (!api.bufferNames().includes(name)) throw lispError(`No such buffer ${name}`);
+    api.setBuffer(name);
+    return args[0];
+  });
+  register('get-buffer', 1, 1, args => (api.bufferNames().includes(stringArg(args[0])) ? args[0] : mkNull()));
+  register('get-buffer-create', 1, 1, args => {
+    api.getBufferCreate(stringArg(args[0]));
+    return args[0];
+  });
+  register('buffer-list', 0, 0, () => mkList(api.bufferNames().map(mkStr)));
+  register('buffer-live-p', 1, 1, args => mkBool(args[0].type === 'STRING' && api.bufferNames().includes(args[0].value)));
+
+  register('switch-to-buffer', 1, 1, args => {
+    const name = stringArg(args[0]);
+    api.switchBuffer(name);
+    return mkStr(name);
+  });
+  
+  register('kill-buffer', 1, 1, async args => {
+    const name = stringArg(args[0]);
+    await api.killBuffer(name);
+    return mkNull();
+  });
+
+  register('undo', 0, 0, () => {
+    api.undo();
+    return mkNull();
+  });
+
+  register('undo-boundary', 0, 0, () => {
+    api.undoBoundary();
+    return mkNull();
+  });
+
+  // Mark, region and kill ring
+  register('mark', 0, 0, () => {
+    const mark = api.getMark();
+    return mark === null ? mkNull() : mkNum(mark);
+  });
+
+  register('set-mark', 1, 1, args => {
+    const pos = args[0];
+    api.setMark(pos.type === 'NULL' ? null : int(pos));
+    return pos;
+  });
+
+  const region = (): [number, number] => {
+    const mark = api.getMark();
+    if (mark === null) throw lispError("The mark is not set now, so there is no region");
+    const point = api.getCursor();
+    return [Math.min(mark, point), Math.max(mark, point)];
+  };
+
+  register('region-beginning', 0, 0, () => mkNum(region()[0]));
+  register('region-end', 0, 0, () => mkNum(region()[1]));
+
+  register('kill-region', 0, 2, args => {
+    const [start, end] = args.length >= 2 ? [positionArg(args[0]), positionArg(args[1])] : region();
+    try {
+      checkWritable();
+    } catch (e) {
+      // The text still goes to the kill ring, as in Emacs
+      api.copyRegionAsKill(start, end);
+      throw e;
+    }
+    api.killRegion(start, end);
+    return mkNull();
+  });
+
+  register('kill-ring-save', 0, 2, args => {
+    const [start, end] = args.length >= 2 ? [positionArg(args[0]), positionArg(args[1])] : region();
+    api.copyRegionAsKill(start, end);
+    return mkNull();
+  });
+
+  register('kill-new', 1, 1, args => {
+    api.killNew(stringArg(args[0]));
+    return args[0];
+  });
+
+  register('current-kill', 0, 1, args => {
+    const text = api.currentKill(args[0] ? int(args[0]) : 0);
+    if (text === null) throw lispError("Kill ring is empty");
+    return mkStr(text);
+  });
+
+  register('yank', 0, 0, () => {
+    checkWritable();
+    api.yank();
+    return mkNull();
+  });
+
+  // Files
+  register('find-file', 1, 1, async args => {
+    const name = await api.findFile(stringArg(args[0]));
+    return name === null ? mkNull() : mkStr(name);
+  });
+
+  register('save-buffer', 0, 0, async () => {
+    await api.saveBuffer();
+    return mkNull();
+  });
+
+  register('file-exists-p', 1, 1, args => mkBool(api.fileExists(stringArg(args[0]))));
+
+  // (load FILE &optional NOERROR NOMESSAGE): FILE.el if it exists, else FILE
+  env.define('user-init-file', mkNull());
+  register('load', 1, 3, async (args, env) => {
+    const file = stringArg(args[0]);
+    const source = api.readFile(`${file}.el`) ?? api.readFile(file);
+    if (source === null) {
+      if (args[1] && isTrue(args[1])) return mkNull();
+      throw new LispError('file-missing', [mkStr('Cannot open load file'), mkStr('No such file or directory'), args[0]]);
+    }
+    const quiet = args[2] && isTrue(args[2]);
+    if (!quiet) api.message(`Loading ${file}...`);
+    await evalForms(source, env.global());
+    if (!quiet) api.message(`Loading ${file}...done`);
+    return mkBool(true);
+  });
+
+  register('directory-files', 1, 1, args => mkList(api.directoryFiles(stringArg(args[0])).map(mkStr)));
+
+  register('delete-file', 1, 1, args => {
+    api.deleteFile(stringArg(args[0]));
+    return mkNull();
+  });
+
+  // Windows
+  const windowArg = (arg?: LispVal): string => {
+    if (!arg || arg.type === 'NULL') return api.selectedWindow();
+    if (arg.type !== 'WINDOW') throw wrongType('windowp', arg);
+    return arg.value;
+  };
+
+  register('selected-window', 0, 0, () => mkWindow(api.selectedWindow()));
+  register('window-list', 0, 0, () => mkList(api.windowList().map(mkWindow)));
+
+  register('split-window', 0, 3, args => {
+    // (split-window &optional WINDOW SIZE SIDE); SIDE 'right or 'left splits side by side
+    const side = args[2];
+    const direction: SplitDirection = side && side.type === 'SYMBOL' && (side.name === 'right' || side.name === 'left')
+      ? 'horizontal'
+      : 'vertical';
+    return mkWindow(api.splitWindow(windowArg(args[0]), direction));
+  });
+
+  register('window-buffer', 0, 1, args => mkStr(api.windowBuffer(windowArg(args[0]))));
+
+  register('set-window-buffer', 2, 2, args => {
+    api.setWindowBuffer(windowArg(args[0]), stringArg(args[1]));
+    return mkNull();
+  });
+
+  register('delete-window', 0, 1, args => {
+    api.deleteWindow(windowArg(args[0]));
+    return mkNull();
+  });
+
+  register('other-window', 0, 1, args => {
+    api.otherWindow(countArg(args[0]));
+    return mkNull();
+  });
+
+  // Keymaps. Keys are strings in kbd notation; commands are symbols.
+  const keysArg = (arg: LispVal): string[] => {
+    if (arg.type !== 'STRING') throw wrongType('stringp', arg);
+    return parseKeySequence(arg.value);
+  };
+  const keymapArg = (arg: LispVal): Keymap => {
+    if (arg.type !== 'KEYMAP') throw wrongType('keymapp', arg);
+    return arg.value;
+  };
+  const bindingArg = (arg: LispVal): KeyBinding | null => {
+    if (arg.type === 'NULL') return null;
+    if (arg.type === 'SYMBOL') return arg.name!;
+    if (arg.type === 'KEYMAP') return arg.value;
+    throw wrongType('commandp', arg);
+  };
+  const bindingVal = (binding: KeyBinding | number | undefined): LispVal => {
+    if (binding === undefined) return mkNull();
+    if (typeof binding === 'number') return mkNum(binding);
+    return isKeymap(binding) ? mkKeymap(binding) : mkSym(binding);
+  };
+
+  register('kbd', 1, 1, args => mkStr(formatKeySequence(keysArg(args[0]))));
+  register('make-sparse-keymap', 0, 0, () => mkKeymap(makeSparseKeymap()));
+  register('make-keymap', 0, 0, () => mkKeymap(makeSparseKeymap()));
+  register('keymapp', 1, 1, args => mkBool(args[0].type === 'KEYMAP'));
+  register('current-global-map', 0, 0, () => mkKeymap(api.globalMap()));
+  register('current-local-map', 0, 0, () => mkKeymap(api.localMap()));
+  register('current-minor-mode-maps', 0, 0, () => mkList(api.minorModeMaps().map(mkKeymap)));
+
+  register('define-key', 3, 3, args => {
+    defineKey(keymapArg(args[0]), keysArg(args[1]), bindingArg(args[2]));
+    return args[2];
+  });
+  register('global-set-key', 2, 2, args => {
+    defineKey(api.globalMap(), keysArg(args[0]), bindingArg(args[1]));
+    return args[1];
+  });
+  register('global-unset-key', 1, 1, args => {
+    defineKey(api.globalMap(), keysArg(args[0]), null);
+    return mkNull();
+  });
+  register('local-set-key', 2, 2, args => {
+    defineKey(api.localMap(), keysArg(args[0]), bindingArg(args[1]));
+    return args[1];
+  });
+  register('local-unset-key', 1, 1, args => {
+    defineKey(api.localMap(), keysArg(args[0]), null);
+    return mkNull();
+  });
+  register('lookup-key', 2, 2, args => bindingVal(lookupKey(keymapArg(args[0]), keysArg(args[1]))));
+  register('key-binding', 1, 1, args => bindingVal(api.keyBinding(keysArg(args[0]))));
+
+  // Commands
+  const commandName = (arg: LispVal): string => {
+    if (arg.type !== 'SYMBOL') throw wrongType('symbolp', arg);
+    return arg.name!;
+  };
+  register('commandp', 1, 1, args => mkBool(args[0].type === 'SYMBOL' && api.commandp(args[0].name!)));
+  register('call-interactively', 1, 1, args => {
+    const name = commandName(args[0]);
+    if (!api.commandp(name)) throw wrongType('commandp', args[0]);
+    return api.callInteractively(name);
+  });
+
+  // Minibuffer input. Optional arguments may be nil; history lists are named by symbols.
+  const optString = (arg: LispVal | undefined): string | undefined => {
+    return arg && arg.type === 'STRING' ? arg.value : undefined;
+  };
+  const optHistory = (arg: LispVal | undefined): string | undefined => {
+    return arg && arg.type === 'SYMBOL' ? arg.name : undefined;
+  };
+
+  register('read-string', 1, 4, async args => {
+    // (read-string PROMPT &optional INITIAL-INPUT HISTORY DEFAULT-VALUE)
+    return mkStr(await api.readFromMinibuffer(args[0].value, {
+      initialInput: optString(args[1]),
+      history: optHistory(args[2]) || 'minibuffer-history',
+      default: optString(args[3]),
+    }));
+  });
+
+  register('completing-read', 2, 7, async (args, env) => {
+    // (completing-read PROMPT COLLECTION &optional PREDICATE REQUIRE-MATCH INITIAL-INPUT HIST DEF)
+    const collection = args[1] ? seqElements(args[1]) : [];
+    const predicate = args[2] && isTrue(args[2])
+      ? (args[2].type === 'SYMBOL' ? env.get(args[2].name!) : args[2])
+      : null;
+    const candidates: string[] = [];
+    for (const item of collection) {
+      // Strings, symbols, or alist entries whose car is one
+      const key = item.type === 'CONS' ? item.car! : item;
+      if (predicate && !isTrue(await callFunction(predicate, [item], env))) continue;
+      candidates.push(key.type === 'SYMBOL' ? key.name! : String(key.value));
+    }
+    return mkStr(await api.readFromMinibuffer(args[0].value, {
+      completions: () => candidates,
+      requireMatch: args[3] !== undefined && isTrue(args[3]),
+      initialInput: optString(args[4]),
+      history: optHistory(args[5]) || 'minibuffer-history',
+      default: optString(args[6]),
+    }));
+  });
+
+  register('read-buffer', 1, 3, async args => {
+    // (read-buffer PROMPT &optional DEF REQUIRE-MATCH)
+    return mkStr(await api.readFromMinibuffer(args[0].value, {
+      completions: api.bufferNames,
+      default: optString(args[1]),
+      requireMatch: args[2] !== undefined && isTrue(args[2]),
+      history: 'buffer-name-history',
+    }));
+  });
+
+  // The standard prefix maps, for define-key
+  env.define('global-map', mkKeymap(api.globalMap()));
+  env.define('ctl-x-map', bindingVal(lookupKey(api.globalMap(), ['C-x'])));
+  env.define('ctl-x-r-map', bindingVal(lookupKey(api.globalMap(), ['C-x', 'r'])));
+  env.define('mode-specific-map', bindingVal(lookupKey(api.globalMap(), ['C-c'])));
+
+  // Major modes
+  for (const mode of Object.values(api.majorModes())) defineModeFunction(env, mode);
+  // Entries are (REGEXP . MODE), tried in order against the file name
+  env.define('auto-mode-alist', mkList(AUTO_MODE_ALIST.map(([re, mode]) => mkCons(mkStr(re), mkSym(mode)))));
+
+  // (derived-mode-p &rest MODES): the first of MODES the current major mode derives from
+  const derivedFrom = (name: string, candidates: LispVal[]): LispVal => {
+    const chain = modeChain(api.majorModes(), name).map(m => m.name);
+    return candidates.find(c => c.type === 'SYMBOL' && chain.includes(c.name!)) || mkNull();
+  };
+  register('derived-mode-p', 0, MANY, args => derivedFrom(api.currentMajorMode(), args));
+  register('provided-mode-derived-p', 1, MANY, args => derivedFrom(args[0].name!, args.slice(1)));
+
+  // Font-lock
+  for (const face of Object.keys(FACE_NAMES)) env.define(face, mkSym(face));
+
+  const faceArg = (val: LispVal): Face => {
+    // 'face inside a quoted list reads as (quote face)
+    const sym = isForm(val, 'quote') ? val.cdr!.car! : val;
+    const face = sym.type === 'SYMBOL' ? FACE_NAMES[sym.name!] : undefined;
+    if (!face) throw lispError(`Invalid face: ${printLisp(val)}`);
+    return face;
+  };
+
+  // Each keyword is (REGEXP . FACE), (REGEXP FACE), (REGEXP SUBEXP FACE) or (REGEXP (SUBEXP FACE)...)
+  const keywordArg = (val: LispVal): FontLockKeyword => {
+    const invalid = () => lispError(`Invalid font-lock keyword: ${printLisp(val)}`);
+    if (val.type !== 'CONS' || val.car!.type !== 'STRING') throw invalid();
+    const regexp = val.car!;
+    if (val.cdr!.type === 'SYMBOL') return makeKeyword(regexp.value, 0, faceArg(val.cdr!));
+    const rest = listElements(val.cdr!);
+    if (rest.length === 0) throw invalid();
+    if (rest[0].type === 'NUMBER') return makeKeyword(regexp.value, rest[0].value, faceArg(rest[1] || mkNull()));
+    if (rest[0].type === 'CONS' && rest[0].car!.type === 'NUMBER') {
+      const keyword = makeKeyword(regexp.value, 0, 'keyword');
+      keyword.highlights = rest.map(h => {
+        const [group, face] = listElements(h);
+        return [group.value, faceArg(face || mkNull())];
+      });
+      return keyword;
+    }
+    return makeKeyword(regexp.value, 0, faceArg(rest[0]));
+  };
+
+  register('font-lock-add-keywords', 2, 3, args => {
+    // (font-lock-add-keywords MODE KEYWORDS &optional HOW); a nil MODE means the current buffer's mode
+    const mode = args[0].type === 'SYMBOL' ? args[0].name! : api.currentMajorMode();
+    if (!api.majorModes()[mode]) throw new LispError('void-function', [mkSym(mode)]);
+    api.fontLockAddKeywords(mode, listElements(args[1]).map(keywordArg), args[2] !== undefined && isTrue(args[2]));
+    return mkNull();
+  });
+
+  register('point', 0, 0, () => mkNum(api.getCursor()));
+  register('point-min', 0, 0, () => mkNum(0));
+  register('point-max', 0, 0, () => mkNum(api.getBufferContent().length));
+  register('goto-char', 1, 1, args => {
+    // A position outside the buffer goes to its start or end
+    api.setCursor(Math.max(0, Math.min(int(args[0]), api.getBufferContent().length)));
+    return args[0];
+  });
+
+  // Buffer text and motion. Positions count from 0 at the start of the buffer.
+  const positionArg = (val: LispVal): number => {
+    const pos = int(val);
+    if (pos < 0 || pos > api.getBufferContent().length) throw new LispError('args-out-of-range', [val]);
+    return pos;
+  };
+  const countArg = (val: LispVal | undefined): number => (val && val.type !== 'NULL' ? int(val) : 1);
+
+  register('buffer-substring', 2, 2, args => {
+    const [start, end] = [positionArg(args[0]), positionArg(args[1])];
+    return mkStr(api.getBufferContent().slice(Math.min(start, end), Math.max(start, end)));
+  });
+  register('buffer-string', 0, 0, () => mkStr(api.getBufferContent()));
+  register('delete-region', 2, 2, async args => {
+    checkWritable();
+    await api.deleteRegion(positionArg(args[0]), positionArg(args[1]));
+    return mkNull();
+  });
+  register('delete-char', 1, 1, async args => {
+    // (delete-char N): N characters after point, or before it when negative
+    const n = int(args[0]);
+    const point = api.getCursor();
+    if (point + n > api.getBufferContent().length) throw new LispError('end-of-buffer', []);
+    if (point + n < 0) throw new LispError('beginning-of-buffer', []);
+    checkWritable();
+    await api.deleteRegion(point, point + n);
+    return mkNull();
+  });
+  register('erase-buffer', 0, 0, async () => {
+    checkWritable();
+    await api.deleteRegion(0, api.getBufferContent().length);
+    return mkNull();
+  });
+
+  // The whole character at POS, also from the second half of a surrogate pair
+  const charAt = (content: string, pos: number): LispVal => {
+    if (pos < 0 || pos >= content.length) return mkNull();
+    const code = content.codePointAt(pos)!;
+    const start = code >= 0xdc00 && code <= 0xdfff && pos > 0 ? content.codePointAt(pos - 1)! : code;
+    return mkNum(start > 0xffff ? start : code);
+  };
+  register('char-after', 0, 1, args => {
+    const pos = args[0] && args[0].type !== 'NULL' ? int(args[0]) : api.getCursor();
+    return charAt(api.getBufferContent(), pos);
+  });
+  register('char-before', 0, 1, args => {
+    const pos = args[0] && args[0].type !== 'NULL' ? int(args[0]) : api.getCursor();
+    return charAt(api.getBufferContent(), pos - 1);
+  });
+  register('bobp', 0, 0, () => mkBool(api.getCursor() === 0));
+  register('eobp', 0, 0, () => mkBool(api.getCursor() === api.getBufferContent().length));
+  register('bolp', 0, 0, () => mkBool(api.getCursor() === lineStartAt(api.getBufferContent(), api.getCursor())));
+  register('eolp', 0, 0, () => mkBool(api.getCursor() === lineEndAt(api.getBufferContent(), api.getCursor())));
+
+  // Moving past either end stops there and signals
+  const moveChars = (n: number): LispVal => {
+    const target = api.getCursor() + n;
+    const length = api.getBufferContent().length;
+    api.setCursor(target);
+    if (target < 0) throw new LispError('beginning-of-buffer', []);
+    if (target > length) throw new LispError('end-of-buffer', []);
+    return mkNull();
+  };
+  register('forward-char', 0, 1, args => moveChars(countArg(args[0])));
+  register('backward-char', 0, 1, args => moveChars(-countArg(args[0])));
+
+  // The start of the line N lines from point, and how many lines short of N it fell.
+  // Forwards, a partial last line counts as a line moved.
+  const lineForward = (n: number): [number, number] => {
+    const content = api.getBufferContent();
+    let pos = api.getCursor();
+    if (n > 0) {
+      while (n > 0) {
+        const newline = content.indexOf('\n', pos);
+        if (newline === -1) {
+          if (pos < content.length) n--;
+          return [content.length, n];
+        }
+        pos = newline + 1;
+        n--;
+      }
+      return [pos, 0];
+    }
+    pos = lineStartAt(content, pos);
+    while (n < 0 && pos > 0) {
+      pos = lineStartAt(content, pos - 1);
+      n++;
+    }
+    return [pos, n];
+  };
+  register('forward-line', 0, 1, args => {
+    const [pos, shortage] = lineForward(countArg(args[0]));
+    api.setCursor(pos);
+    return mkNum(shortage);
+  });
+  const lineStartPosition = (args: LispVal[]): number => {
+    const [pos] = lineForward(countArg(args[0]) - 1);
+    return lineStartAt(api.getBufferContent(), pos);
+  };
+  const lineEndPosition = (args: LispVal[]): number => {
+    const n = countArg(args[0]) - 1;
+    const [pos, shortage] = lineForward(n);
+    // Falling short at the end of the buffer leaves nowhere further to go
+    return n > 0 && shortage > 0 ? pos : lineEndAt(api.getBufferContent(), pos);
+  };
+  register('line-beginning-position', 0, 1, args => mkNum(lineStartPosition(args)));
+  register('line-end-position', 0, 1, args => mkNum(lineEndPosition(args)));
+  register('beginning-of-line', 0, 1, args => {
+    api.setCursor(lineStartPosition(args));
+    return mkNull();
+  });
+  register('end-of-line', 0, 1, args => {
+    api.setCursor(lineEndPosition(args));
+    return mkNull();
+  });
+
+  // Searching the buffer sets the match data; point moves past the match
+  register('looking-at', 1, 1, args => {
+    const regexp = compileRegexp(stringArg(args[0]), 'dmy');
+    regexp.lastIndex = api.getCursor();
+    const match = regexp.exec(api.getBufferContent());
+    if (!match) return mkNull();
+    setMatchData(match);
+    return mkBool(true);
+  });
+
+  // The first match after point (or the last before it when backward) that
+  // lies within BOUND, or null
+  const bufferSearch = (regexp: RegExp, backward: boolean, bound: number): RegExpExecArray | null => {
+    const content = api.getBufferContent();
+    const point = api.getCursor();
+    if (!backward) {
+      regexp.lastIndex = point;
+      const match = regexp.exec(content);
+      return match && match.index + match[0].length <= bound ? match : null;
+    }
+    // Backwards, try each start before point in turn; the match may not extend past point
+    const sticky = new RegExp(regexp.source, regexp.flags.replace('g', '') + 'y');
+    for (let start = point; start >= bound; start--) {
+      sticky.lastIndex = start;
+      const match = sticky.exec(content);
+      if (match && match.index + match[0].length <= point) return match;
+    }
+    return null;
+  };
+
+  // (search-forward STRING &optional BOUND NOERROR COUNT) and friends. A
+  // failed search signals search-failed, unless NOERROR: then nil is
+  // returned and point stays put, or moves to BOUND if NOERROR is not t.
+  const searcher = (name: string, toRegexp: (text: string) => string, backward: boolean) => register(name, 1, 4, args => {
+    const [pattern, boundArg, noerror, countVal] = args;
+    let count = countArg(countVal);
+    const reverse = count < 0 !== backward;
+    count = Math.abs(count);
+    const content = api.getBufferContent();
+    const bound = boundArg && boundArg.type !== 'NULL' ? int(boundArg) : (reverse ? 0 : content.length);
+    if (reverse ? bound > api.getCursor() : bound < api.getCursor()) throw lispError('Invalid search bound (wrong side of point)');
+    const regexp = compileRegexp(toRegexp(stringArg(pattern)), 'dgm');
+    const start = api.getCursor();
+    for (let i = 0; i < count; i++) {
+      const match = bufferSearch(regexp, reverse, bound);
+      if (!match) {
+        const quiet = noerror !== undefined && isTrue(noerror);
+        api.setCursor(quiet && noerror.type !== 'BOOL' ? bound : start);
+        if (quiet) return mkNull();
+        throw new LispError('search-failed', [pattern]);
+      }
+      setMatchData(match);
+      api.setCursor(reverse ? match.index : match.index + match[0].length);
+    }
+    return mkNum(api.getCursor());
+  });
+  searcher('search-forward', quoteRegexp, false);
+  searcher('search-backward', quoteRegexp, true);
+  searcher('re-search-forward', text => text, false);
+  searcher('re-search-backward', text => text, true);
+
+  register('replace-match', 1, 5, async args => {
+    // (replace-match NEWTEXT &optional FIXEDCASE LITERAL STRING SUBEXP): replace
+    // the last match, in STRING if given, else in the buffer leaving point after
+    // the replacement. The case of NEWTEXT is never adjusted, as if FIXEDCASE.
+    const [newtext, , literal, string, subexp] = args;
+    const group = subexp && subexp.type !== 'NULL' ? int(subexp) : 0;
+    const range = matchRange(mkNum(group));
+    if (!range) throw new LispError('args-out-of-range', [mkNum(group)]);
+    const text = string && string.type !== 'NULL' ? stringArg(string) : api.getBufferContent();
+    const [start, end] = matchData[0]!;
+    const replacement = literal && isTrue(literal)
+      ? stringArg(newtext)
+      : expandReplacement(stringArg(newtext), { start, end, groups: matchData.map(r => (r ? text.slice(r[0], r[1]) : '')) });
+    if (string && string.type !== 'NULL') return mkStr(text.slice(0, range[0]) + replacement + text.slice(range[1]));
+    checkWritable();
+    await api.deleteRegion(range[0], range[1]);
+    api.setCursor(range[0]);
+    await api.insert(replacement);
+    // Match positions after the replaced text shift with it
+    const delta = replacement.length - (range[1] - range[0]);
+    matchData = matchData.map(r => r && [r[0] >= range[1] ? r[0] + delta : r[0], r[1] >= range[1] ? r[1] + delta : r[1]]);
+    return mkNull();
+  });
+
+  // The variables defined above are special, as if declared with defvar
+  for (const [name, val] of env.vars) {
+    if (!isFunction(val)) env.specials.add(name);
+  }
+
+  return env;
+};
+
+// --- S-Exp Finder ---
+
+export const findLastSexp = (text: string, cursor: number): string | null => {
+  // Scan backwards from cursor
+  // This is a heuristic implementation
+  let pos = cursor - 1;
+  // Skip trailing whitespace
+  while (pos >= 0 && /\s/.test(text[pos])) pos--;
+  
+  if (pos < 0) return null;
+
+  if (text[pos] === ')' || text[pos] === ']') {
+    // Scan back for the matching ( or [
+    let depth = 1;
+    let end = pos + 1;
+    pos--;
+    while (pos >= 0 && depth > 0) {
+      if (text[pos] === ')' || text[pos] === ']') depth++;
+      if (text[pos] === '(' || text[pos] === '[') depth--;
+      if (depth > 0) pos--;
+    }
+    if (depth === 0) {
+      return text.slice(pos, end);
+    }
+  } else if (text[pos] === '"') {
+    // Scan back for opening "
+    let end = pos + 1;
+    pos--;
+    while(pos >= 0) {
+        if(text[pos] === '"' && text[pos-1] !== '\\') break;
+        pos--;
+    }
+    return text.slice(pos, end);
+  } else {
+    // Atom
+    let end = pos + 1;
+    while (pos >= 0 && !/\s|\(|\)|\[|\]/.test(text[pos])) pos--;
+    return text.slice(pos + 1, end);
+  }
+  return null;
+};
+
+// Floats always show a decimal point or exponent, as Emacs prints them
+const printFloat = (n: number): string => {
+  if (Number.isNaN(n)) return '0.0e+NaN';
+  if (!Number.isFinite(n)) return n > 0 ? '1.0e+INF' : '-1.0e+INF';
+  const text = String(n);
+  return /[.e]/.test(text) ? text : `${text}.0`;
+};
+
+export const printLisp = (val: LispVal): string => {
+  if (val.type === 'NULL') return 'nil';
+  if (val.type === 'BOOL') return val.value ? 't' : 'nil';
+  if (val.type === 'NUMBER') return val.float ? printFloat(val.value) : val.value.toString();
+  if (val.type === 'STRING') return `"${val.value.replace(/["\\]/g, '\\$&')}"`;
+  if (val.type === 'SYMBOL') return val.name!;
+  if (val.type === 'CONS') {
+    const prefix = ([['quote', "'"], ['function', "#'"], ['`', '`'], [',', ','], [',@', ',@']] as const)
+      .find(([head]) => isForm(val, head));
+    if (prefix) return prefix[1] + printLisp(val.cdr!.car!);
+    // A tail seen before makes the list circular: (1 2 . #0) goes back to element 0
+    const parts: string[] = [];
+    const seen = new Map<LispVal, number>();
+    let tail = val;
+    while (tail.type === 'CONS') {
+      if (seen.has(tail)) return `(${parts.join(' ')} . #${seen.get(tail)})`;
+      seen.set(tail, parts.length);
+      parts.push(printLisp(tail.car!));
+      tail = tail.cdr!;
+    }
+    return `(${parts.join(' ')}${tail.type === 'NULL' ? '' : ` . ${printLisp(tail)}`})`;
+  }
+  if (val.type === 'VECTOR') return `[${val.elements!.map(printLisp).join(' ')}]`;
+  if (val.type === 'HASH_TABLE') {
+    const table: LispHashTable = val.value;
+    const test = table.test === 'eql' ? '' : ` test ${table.test}`;
+    const data = [...table.entries.values()].map(([k, v]) => `${printLisp(k)} ${printLisp(v)}`).join(' ');
+    return `#s(hash-table${test}${data ? ` data (${data})` : ''})`;
+  }
+  if (val.type === 'FUNC') return `<function>`;
+  if (val.type === 'MACRO') return `<macro>`;
+  if (val.type === 'PRIMITIVE') return val.name ? `#<subr ${val.name}>` : `<subr>`;
+  if (val.type === 'WINDOW') return `#<window ${val.value}>`;
+  if (val.type === 'KEYMAP') return `#<keymap>`;
+  return '?';
+};
+// Like pp: the printed form when it fits in WIDTH columns from COLUMN, else
+// a list or vector broken into lines aligned after the bracket. Elements
+// fill each line while they fit; one that spans lines stands alone.
+export const prettyPrintLisp = (val: LispVal, width = 70, column = 0): string => {
+  const flat = printLisp(val);
+  if (column + flat.length <= width) return flat;
+  const lines = (elements: LispVal[], indent: number): string => {
+    const rows: string[] = [];
+    for (const text of elements.map(e => prettyPrintLisp(e, width, indent))) {
+      const last = rows[rows.length - 1];
+      if (last !== undefined && !last.includes('\n') && !text.includes('\n') && indent + last.length + 1 + text.length <= width) {
+        rows[rows.length - 1] = `${last} ${text}`;
+      } else {
+        rows.push(text);
+      }
+    }
+    return rows.join('\n' + ' '.repeat(indent));
+  };
+  if (val.type === 'VECTOR') return `[${lines(val.elements!, column + 1)}]`;
+  if (val.type !== 'CONS') return flat;
+  const prefix = ([['quote', "'"], ['function', "#'"], ['`', '`'], [',', ','], [',@', ',@']] as const)
+    .find(([head]) => isForm(val, head));
+  if (prefix) return prefix[1] + prettyPrintLisp(val.cdr!.car!, width, column + prefix[1].length);
+  let elements: LispVal[];
+  try {
+    elements = listElements(val);
+  } catch {
+    return flat; // Dotted or circular
+  }
+  return `(${lines(elements, column + 1)})`;
+};
@@ -0,0 +1,18 @@
+// The *Messages* log for React Emacs
+
+// Add a message to the text of *Messages*. A repeat of the last message
+// bumps a counter on its line instead, as in "Quit [3 times]". Only the
+// last maxLines lines are kept.
+export const appendMessage = (log: string, text: string, maxLines: number): string => {
+  const lines = log === '' ? [] : log.replace(/\n$/, '').split('\n');
+  const added = text.split('\n');
+  const last = added[added.length - 1];
+  const tail = lines.slice(-added.length);
+  const counted = /^(.*) \[(\d+) times\]$/.exec(tail[tail.length - 1] ?? '');
+  const times = tail.length < added.length || tail.slice(0, -1).some((line, i) => line !== added[i]) ? 0
+    : tail[tail.length - 1] === last ? 1
+    : counted && counted[1] === last ? parseInt(counted[2], 10) : 0;
+  if (times > 0) lines[lines.length - 1] = `${last} [${times + 1} times]`;
+  else lines.push(...added);
+  return maxLines > 0 ? lines.slice(-maxLines).join('\n') + '\n' : '';
+};
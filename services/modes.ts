@@ -0,0 +1,371 @@
+// Major modes for React Emacs: syntax tables, indentation, comments and
+// choosing a mode from the file name (auto-mode-alist)
+
+import { MajorMode, SyntaxTable, IndentFunction, FontLockKeyword, Face } from '../types';
+import { makeSparseKeymap, defineKey, parseKeySequence } from './keymap';
+import { emacsRegexpToJs } from './search';
+
+// Columns per nesting level in C-like modes
+const C_INDENT_WIDTH = 2;
+const TAB_WIDTH = 8;
+
+// --- Syntax tables ---
+
+export const TEXT_SYNTAX: SyntaxTable = {
+  symbolChars: "'",
+  stringQuotes: '',
+  escape: '',
+  parens: '()[]{}',
+};
+
+export const LISP_SYNTAX: SyntaxTable = {
+  symbolChars: '-+*/<>=!?$%&~^:.@',
+  stringQuotes: '"',
+  escape: '\\',
+  parens: '()[]',
+  lineComment: ';',
+};
+
+export const C_SYNTAX: SyntaxTable = {
+  symbolChars: '$',
+  stringQuotes: '"\'`',
+  escape: '\\',
+  parens: '()[]{}',
+  lineComment: '//',
+  blockComment: ['/*', '*/'],
+};
+
+export const JSON_SYNTAX: SyntaxTable = {
+  symbolChars: '',
+  stringQuotes: '"',
+  escape: '\\',
+  parens: '()[]{}',
+};
+
+export const MARKDOWN_SYNTAX: SyntaxTable = {
+  ...TEXT_SYNTAX,
+  blockComment: ['<!--', '-->'],
+};
+
+// Index just after the string starting at start
+export const stringEnd = (content: string, start: number, syntax: SyntaxTable): number => {
+  const quote = content[start];
+  let i = start + 1;
+  while (i < content.length && content[i] !== quote) {
+    if (content[i] === syntax.escape) i++;
+    i++;
+  }
+  return Math.min(i + 1, content.length);
+};
+
+// Index just after the comment starting at start, or start if there is none
+export const commentEnd = (content: string, start: number, syntax: SyntaxTable): number => {
+  if (syntax.lineComment && content.startsWith(syntax.lineComment, start)) {
+    const nl = content.indexOf('\n', start);
+    return nl === -1 ? content.length : nl;
+  }
+  if (syntax.blockComment && content.startsWith(syntax.blockComment[0], start)) {
+    const close = content.indexOf(syntax.blockComment[1], start + syntax.blockComment[0].length);
+    return close === -1 ? content.length : close + syntax.blockComment[1].length;
+  }
+  return start;
+};
+
+// Positions of the parens still open at end, innermost last. Strings and
+// comments are skipped.
+export const scanParens = (content: string, end: number, syntax: SyntaxTable): number[] => {
+  const stack: number[] = [];
+  let i = 0;
+  while (i < end) {
+    const ch = content[i];
+    const afterComment = commentEnd(content, i, syntax);
+    if (afterComment > i) {
+      i = afterComment;
+    } else if (syntax.stringQuotes.includes(ch)) {
+      i = stringEnd(content, i, syntax);
+    } else if (ch === syntax.escape) {
+      i += 2;
+    } else {
+      const p = syntax.parens.indexOf(ch);
+      if (p !== -1) {
+        if (p % 2 === 0) stack.push(i);
+        else stack.pop();
+      }
+      i++;
+    }
+  }
+  return stack;
+};
+
+// --- Indentation ---
+
+export const lineStartAt = (content: string, pos: number): number => content.lastIndexOf('\n', pos - 1) + 1;
+
+export const lineEndAt = (content: string, pos: number): number => {
+  const nl = content.indexOf('\n', pos);
+  return nl === -1 ? content.length : nl;
+};
+
+export const columnAt = (content: string, pos: number): number => {
+  let column = 0;
+  for (let i = lineStartAt(content, pos); i < pos; i++) {
+    column = content[i] === '\t' ? (Math.floor(column / TAB_WIDTH) + 1) * TAB_WIDTH : column + 1;
+  }
+  return column;
+};
+
+// End of the leading whitespace of the line starting at lineStart
+export const indentationEnd = (content: string, lineStart: number): number => {
+  let i = lineStart;
+  while (i < content.length && (content[i] === ' ' || content[i] === '\t')) i++;
+  return i;
+};
+
+// Text modes: line up with the previous non-blank line
+export const indentRelative: IndentFunction = (content, lineStart) => {
+  let start = lineStart;
+  while (start > 0) {
+    start = lineStartAt(content, start - 1);
+    const end = indentationEnd(content, start);
+    if (end < content.length && content[end] !== '\n') return columnAt(content, end);
+  }
+  return 0;
+};
+
+// Forms whose body is indented by two, like defun and let
+const LISP_BODY_FORMS = new Set([
+  'defun', 'defmacro', 'defvar', 'defconst', 'defcustom', 'define-derived-mode', 'define-minor-mode',
+  'lambda', 'let', 'let*', 'if', 'when', 'unless', 'while', 'dolist', 'dotimes', 'progn', 'prog1',
+  'condition-case', 'unwind-protect', 'catch', 'save-excursion', 'with-current-buffer',
+  'with-temp-buffer', 'ert-deftest',
+]);
+
+// Lisp: align arguments with the first argument, indent bodies by two
+export const lispIndent: IndentFunction = (content, lineStart, syntax) => {
+  const stack = scanParens(content, lineStart, syntax);
+  if (stack.length === 0) return 0;
+  const open = stack[stack.length - 1];
+  const column = columnAt(content, open);
+
+  const head = /^[^\s()[\]";']+/.exec(content.slice(open + 1, lineStart));
+  if (!head) return column + 1;
+  if (LISP_BODY_FORMS.has(head[0])) return column + 2;
+
+  // First argument on the same line as the head
+  let i = open + 1 + head[0].length;
+  while (i < lineStart && (content[i] === ' ' || content[i] === '\t')) i++;
+  if (i < lineStart && content[i] !== '\n' && content[i] !== ';') return columnAt(content, i);
+  return column + 1;
+};
+
+// C-like languages: one level per open bracket; closing brackets dedent
+export const cIndent: IndentFunction = (content, lineStart, syntax) => {
+  let depth = scanParens(content, lineStart, syntax).length;
+  const first = content[indentationEnd(content, lineStart)];
+  if (first && syntax.parens.indexOf(first) % 2 === 1) depth--;
+  return Math.max(0, depth * C_INDENT_WIDTH);
+};
+
+// --- Comments ---
+
+// Comment out the lines between start and end, or uncomment them if they
+// all are comments already. Returns the new content.
+export const toggleComment = (content: string, start: number, end: number, mode: MajorMode): string => {
+  const from = lineStartAt(content, start);
+  const to = lineEndAt(content, end);
+  const lines = content.slice(from, to).split('\n');
+  const open = mode.commentStart.trimEnd();
+  const close = mode.commentEnd.trimStart();
+
+  const nonBlank = lines.filter(l => l.trim() !== '');
+  if (nonBlank.length === 0) return content;
+  const commented = nonBlank.every(l => l.trimStart().startsWith(open));
+  const indent = Math.min(...nonBlank.map(l => l.length - l.trimStart().length));
+
+  const result = lines.map(line => {
+    if (line.trim() === '') return line;
+    if (commented) {
+      const ws = line.length - line.trimStart().length;
+      let body = line.slice(ws + open.length);
+      if (mode.commentStart.endsWith(' ') && body.startsWith(' ')) body = body.slice(1);
+      if (close) {
+        body = body.trimEnd();
+        if (body.endsWith(close)) body = body.slice(0, -close.length).trimEnd();
+      }
+      return line.slice(0, ws) + body;
+    }
+    return line.slice(0, indent) + mode.commentStart + line.slice(indent) + mode.commentEnd;
+  });
+  return content.slice(0, from) + result.join('\n') + content.slice(to);
+};
+
+// --- Font-lock keywords ---
+
+const rule = (source: string, ...highlights: [number, Face][]): FontLockKeyword => ({
+  regexp: new RegExp(source, 'dgm'),
+  highlights,
+});
+
+// Lisp symbols end at whitespace, parens and quotes
+const LISP_SYMBOL_END = '(?=[\\s()\\[\\]"\';]|$)';
+
+const LISP_KEYWORDS: FontLockKeyword[] = [
+  rule(`\\((defun|defmacro|defsubst|define-derived-mode|define-minor-mode|ert-deftest)\\s+([^\\s()]+)`,
+    [1, 'keyword'], [2, 'function-name']),
+  rule(`\\((defvar|defconst|defcustom|defvar-local)\\s+([^\\s()]+)`, [1, 'keyword'], [2, 'variable-name']),
+  rule(`\\((lambda|let\\*?|if|when|unless|cond|and|or|not|while|dolist|dotimes|progn|prog1|setq|` +
+    `condition-case|unwind-protect|catch|throw|save-excursion|with-current-buffer|interactive|` +
+    `quote|function|error|signal|user-error)${LISP_SYMBOL_END}`, [1, 'keyword']),
+  rule(`(?<![^\\s()'\\[])(nil|t|:[^\\s()"']+)${LISP_SYMBOL_END}`, [1, 'constant']),
+];
+
+const JS_KEYWORD_WORDS = [
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete',
+  'do', 'else', 'export', 'extends', 'finally', 'for', 'from', 'function', 'if', 'import', 'in', 'instanceof',
+  'let', 'new', 'of', 'return', 'static', 'super', 'switch', 'this', 'throw', 'try', 'typeof', 'var',
+  'void', 'while', 'with', 'yield',
+];
+
+const TS_KEYWORD_WORDS = [
+  ...JS_KEYWORD_WORDS, 'abstract', 'as', 'declare', 'enum', 'implements', 'interface', 'keyof',
+  'namespace', 'private', 'protected', 'public', 'readonly', 'type',
+];
+
+const cKeywords = (words: string[]): FontLockKeyword[] => [
+  rule(`(?<![\\w$.])(${words.join('|')})(?![\\w$])`, [1, 'keyword']),
+  rule(`\\bfunction\\*?\\s+([A-Za-z_$][\\w$]*)`, [1, 'function-name']),
+  rule(`\\b(?:const|let|var)\\s+([A-Za-z_$][\\w$]*)\\s*=\\s*(?:async\\s*)?(?:\\([^)]*\\)|[A-Za-z_$][\\w$]*)\\s*=>`,
+    [1, 'function-name']),
+  rule(`\\b(?:const|let|var)\\s+([A-Za-z_$][\\w$]*)`, [1, 'variable-name']),
+  rule(`\\b(?:class|interface|type|enum)\\s+([A-Za-z_$][\\w$]*)`, [1, 'type']),
+  rule(`(?<![\\w$.])(true|false|null|undefined|NaN|Infinity|\\d+(?:\\.\\d+)?(?:e[+-]?\\d+)?)(?![\\w$])`, [1, 'constant']),
+];
+
+const JSON_KEYWORDS: FontLockKeyword[] = [
+  rule(`(?<![\\w.])(true|false|null|-?\\d+(?:\\.\\d+)?(?:[eE][+-]?\\d+)?)(?![\\w.])`, [1, 'constant']),
+];
+
+const MARKDOWN_KEYWORDS: FontLockKeyword[] = [
+  rule(`^#{1,6}\\s.*$`, [0, 'function-name']),
+  rule(`^\\s*([-*+]|\\d+\\.)\\s`, [1, 'keyword']),
+  rule(`^\\s*\`\`\`.*$`, [0, 'string']),
+  rule(`\`[^\`\\n]+\``, [0, 'string']),
+  rule(`\\*\\*[^*\\n]+\\*\\*`, [0, 'keyword']),
+  rule(`\\[([^\\]\\n]+)\\]\\(([^)\\n]+)\\)`, [1, 'variable-name'], [2, 'constant']),
+];
+
+// --- Modes ---
+
+interface ModeSpec {
+  name: string;
+  modeName: string;
+  parent?: string;
+  docstring: string;
+  syntaxTable?: SyntaxTable;
+  commentStart?: string;
+  commentEnd?: string;
+  indent?: IndentFunction;
+  keywords?: FontLockKeyword[];
+  readOnly?: boolean;
+  keys?: [string, string][]; // Mode-specific bindings
+}
+
+// Create a mode that inherits whatever it does not specify from its parent
+export const deriveMode = (parent: MajorMode | undefined, spec: ModeSpec): MajorMode => {
+  const keymap = makeSparseKeymap(parent?.keymap);
+  for (const [keys, command] of spec.keys || []) defineKey(keymap, parseKeySequence(keys), command);
+  return {
+    name: spec.name,
+    modeName: spec.modeName,
+    parent: parent?.name,
+    docstring: spec.docstring,
+    keymap,
+    syntaxTable: spec.syntaxTable || parent?.syntaxTable || TEXT_SYNTAX,
+    commentStart: spec.commentStart ?? parent?.commentStart ?? '',
+    commentEnd: spec.commentEnd ?? parent?.commentEnd ?? '',
+    indent: spec.indent || parent?.indent || indentRelative,
+    // Copied so font-lock-add-keywords on the parent leaves this mode alone
+    keywords: [...(spec.keywords || parent?.keywords || [])],
+    readOnly: spec.readOnly ?? parent?.readOnly,
+  };
+};
+
+// Parents come before their children
+const BUILTIN_MODES: ModeSpec[] = [
+  { name: 'fundamental-mode', modeName: 'Fundamental', docstring: "Major mode not specialized for anything in particular." },
+  { name: 'text-mode', modeName: 'Text', docstring: "Major mode for editing text written for humans to read." },
+  { name: 'markdown-mode', modeName: 'Markdown', parent: 'text-mode', docstring: "Major mode for editing Markdown files.",
+    syntaxTable: MARKDOWN_SYNTAX, commentStart: '<!-- ', commentEnd: ' -->', keywords: MARKDOWN_KEYWORDS },
+  { name: 'prog-mode', modeName: 'Prog', docstring: "Major mode for editing programming language source code." },
+  { name: 'lisp-data-mode', modeName: 'Lisp-Data', parent: 'prog-mode', docstring: "Major mode for buffers holding data written in Lisp syntax.",
+    syntaxTable: LISP_SYNTAX, commentStart: ';; ', indent: lispIndent, keywords: LISP_KEYWORDS },
+  { name: 'lisp-mode', modeName: 'Lisp', parent: 'lisp-data-mode', docstring: "Major mode for editing Lisp code for Lisps other than GNU Emacs Lisp." },
+  { name: 'emacs-lisp-mode', modeName: 'ELisp', parent: 'lisp-data-mode', docstring: "Major mode for editing Lisp code to run in Emacs." },
+  { name: 'lisp-interaction-mode', modeName: 'Lisp Interaction', parent: 'emacs-lisp-mode',
+    docstring: "Major mode for typing and evaluating Lisp forms.\nC-j evaluates the sexp before point and inserts its value.",
+    keys: [['C-j', 'eval-print-last-sexp']] },
+  { name: 'inferior-emacs-lisp-mode', modeName: 'IELM', parent: 'emacs-lisp-mode',
+    docstring: "Major mode for interactively evaluating Emacs Lisp expressions.\nRET evaluates the input after the prompt once its parentheses balance;\nM-p and M-n recall earlier inputs.",
+    keys: [['RET', 'ielm-return'], ['M-p', 'comint-previous-input'], ['M-n', 'comint-next-input']] },
+  { name: 'js-mode', modeName: 'JavaScript', parent: 'prog-mode', docstring: "Major mode for editing JavaScript.",
+    syntaxTable: C_SYNTAX, commentStart: '// ', indent: cIndent, keywords: cKeywords(JS_KEYWORD_WORDS) },
+  { name: 'typescript-mode', modeName: 'TypeScript', parent: 'prog-mode', docstring: "Major mode for editing TypeScript.",
+    syntaxTable: C_SYNTAX, commentStart: '// ', indent: cIndent, keywords: cKeywords(TS_KEYWORD_WORDS) },
+  { name: 'json-mode', modeName: 'JSON', parent: 'js-mode', docstring: "Major mode for editing JSON files.",
+    syntaxTable: JSON_SYNTAX, commentStart: '', keywords: JSON_KEYWORDS },
+  { name: 'special-mode', modeName: 'Special', docstring: "Parent major mode for buffers that are not meant to be edited.",
+    readOnly: true, keys: [['q', 'quit-window']] },
+  { name: 'help-mode', modeName: 'Help', parent: 'special-mode', docstring: "Major mode for viewing help text." },
+  { name: 'debugger-mode', modeName: 'Debugger', parent: 'special-mode', docstring: "Mode for the *Backtrace* buffer shown when an error enters the debugger." },
+  { name: 'ert-results-mode', modeName: 'ERT-Results', parent: 'special-mode', docstring: "Major mode for the *ert* buffer of test results.",
+    keys: [['r', 'ert-results-rerun-test-at-point'], ['g', 'ert-results-rerun-all-tests'], ['n', 'ert-results-next-test'],
+      ['p', 'ert-results-previous-test'], ['b', 'ert-results-pop-to-backtrace-for-test-at-point']] },
+  { name: 'messages-buffer-mode', modeName: 'Messages', parent: 'special-mode', docstring: "Major mode used in the *Messages* buffer." },
+];
+
+export const createBuiltinModes = (): Record<string, MajorMode> => {
+  const modes: Record<string, MajorMode> = {};
+  for (const spec of BUILTIN_MODES) {
+    modes[spec.name] = deriveMode(spec.parent ? modes[spec.parent] : undefined, spec);
+  }
+  return modes;
+};
+
+// A mode and its ancestors, the most basic first
+export const modeChain = (modes: Record<string, MajorMode>, name: string): MajorMode[] => {
+  const chain: MajorMode[] = [];
+  for (let mode: MajorMode | undefined = modes[name]; mode; mode = mode.parent ? modes[mode.parent] : undefined) {
+    chain.unshift(mode);
+  }
+  return chain;
+};
+
+// --- auto-mode-alist ---
+
+// Emacs regexps matched against the file name, first match wins
+export const AUTO_MODE_ALIST: [string, string][] = [
+  ['\\.el\\\'', 'emacs-lisp-mode'],
+  ['/\\.emacs\\\'', 'emacs-lisp-mode'],
+  ['\\.eld\\\'', 'lisp-data-mode'],
+  ['\\.\\(?:lisp\\|cl\\)\\\'', 'lisp-mode'],
+  ['\\.tsx?\\\'', 'typescript-mode'],
+  ['\\.[cm]?jsx?\\\'', 'js-mode'],
+  ['\\.json\\\'', 'json-mode'],
+  ['\\.\\(?:md\\|markdown\\)\\\'', 'markdown-mode'],
+  ['\\.txt\\\'', 'text-mode'],
+];
+
+// The mode for a file name, trying case-sensitive matches first like
+// auto-mode-case-fold
+export const modeForFileName = (alist: [string, string][], fileName: string): string | null => {
+  for (const flags of ['', 'i']) {
+    for (const [pattern, mode] of alist) {
+      try {
+        if (new RegExp(emacsRegexpToJs(pattern), flags).test(fileName)) return mode;
+      } catch {
+        // Ignore malformed user entries
+      }
+    }
+  }
+  return null;
+};
@@ -0,0 +1,221 @@
+// Searching for React Emacs: isearch, query-replace and Emacs regexp syntax
+
+export interface SearchMatch {
+  start: number;
+  end: number;
+  groups: string[]; // groups[0] is the whole match
+}
+
+// Upper bound on highlighted matches, to keep huge buffers responsive
+const MAX_HIGHLIGHTS = 1000;
+
+// --- Emacs regexp syntax ---
+
+const CHAR_CLASSES: Record<string, string> = {
+  alpha: 'a-zA-Z',
+  alnum: 'a-zA-Z0-9',
+  digit: '0-9',
+  xdigit: '0-9a-fA-F',
+  upper: 'A-Z',
+  lower: 'a-z',
+  space: '\\s',
+  blank: ' \\t',
+  word: '\\w',
+  punct: '!-\\/:-@\\[-`{-~',
+  cntrl: '\\x00-\\x1f',
+  print: ' -~',
+  graph: '!-~',
+  ascii: '\\x00-\\x7f',
+  nonascii: '\\u0080-\\uffff',
+};
+
+// Syntax classes for \sC and \SC
+const SYNTAX_CLASSES: Record<string, string> = {
+  '-': '\\s',
+  ' ': '\\s',
+  'w': '\\w',
+  '_': '_\\-',
+  '.': '!-\\/:-@\\[-`{-~',
+  '(': '([{',
+  ')': ')\\]}',
+  '"': '"',
+};
+
+const SYMBOL_CHAR = '[\\w_\\-]';
+
+// Translate an Emacs regexp into JavaScript RegExp source. In Emacs the
+// grouping operators are escaped (\( \) \| \{ \}) and the bare characters are
+// literal, the reverse of JavaScript.
+export const emacsRegexpToJs = (pattern: string): string => {
+  let out = '';
+  let i = 0;
+
+  while (i < pattern.length) {
+    const ch = pattern[i];
+
+    if (ch === '\\') {
+      const next = pattern[i + 1];
+      i += 2;
+      if (next === undefined) throw new Error("Trailing backslash");
+      if (next === '(') {
+        if (pattern[i] === '?' && pattern[i + 1] === ':') {
+          out += '(?:';
+          i += 2;
+        } else {
+          out += '(';
+        }
+      } else if (')|{}'.includes(next)) {
+        out += next;
+      } else if (next === '`') {
+        out += '(?<![\\s\\S])';
+      } else if (next === "'") {
+        out += '(?![\\s\\S])';
+      } else if (next === '<') {
+        out += '\\b(?=\\w)';
+      } else if (next === '>') {
+        out += '\\b(?<=\\w)';
+      } else if (next === '_') {
+        const which = pattern[i++];
+        if (which === '<') out += `(?<!${SYMBOL_CHAR})(?=${SYMBOL_CHAR})`;
+        else if (which === '>') out += `(?<=${SYMBOL_CHAR})(?!${SYMBOL_CHAR})`;
+        else throw new Error(`Invalid regexp: \\_${which}`);
+      } else if (next === 's' || next === 'S') {
+        const cls = SYNTAX_CLASSES[pattern[i++]];
+        if (cls === undefined) throw new Error(`Invalid syntax class: ${pattern[i - 1]}`);
+        out += next === 's' ? `[${cls}]` : `[^${cls}]`;
+      } else if (/[wWbB1-9]/.test(next)) {
+        out += '\\' + next;
+      } else {
+        // Any other escaped character stands for itself
+        out += next.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      }
+      continue;
+    }
+
+    if ('(){}|'.includes(ch)) {
+      out += '\\' + ch;
+      i++;
+      continue;
+    }
+
+    if (ch === '[') {
+      const [cls, end] = translateBracket(pattern, i);
+      out += cls;
+      i = end;
+      continue;
+    }
+
+    out += ch;
+    i++;
+  }
+
+  return out;
+};
+
+// Translate a bracket expression starting at pattern[start] === '['.
+// Returns the JS class and the index after the closing bracket.
+const translateBracket = (pattern: string, start: number): [string, number] => {
+  let i = start + 1;
+  let out = '[';
+  if (pattern[i] === '^') {
+    out += '^';
+    i++;
+  }
+  // A ']' right after the opening bracket is literal
+  if (pattern[i] === ']') {
+    out += '\\]';
+    i++;
+  }
+  while (i < pattern.length && pattern[i] !== ']') {
+    if (pattern.startsWith('[:', i)) {
+      const close = pattern.indexOf(':]', i + 2);
+      const name = close === -1 ? '' : pattern.slice(i + 2, close);
+      if (!(name in CHAR_CLASSES)) throw new Error(`Invalid character class: ${name}`);
+      out += CHAR_CLASSES[name];
+      i = close + 2;
+      continue;
+    }
+    // Backslash is not special inside Emacs brackets, but '[' and '\' are in JS
+    const ch = pattern[i];
+    out += ch === '\\' || ch === '[' ? '\\' + ch : ch;
+    i++;
+  }
+  if (i >= pattern.length) throw new Error("Unmatched [ or [^");
+  return [out + ']', i + 1];
+};
+
+// --- Searching ---
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Emacs' case-fold-search default: a query with no upper case letters ignores case.
+// Returns null for an incomplete or invalid regexp.
+export const buildSearchRegExp = (query: string, regexp: boolean): RegExp | null => {
+  const flags = 'gm' + (query === query.toLowerCase() ? 'i' : '');
+  try {
+    return new RegExp(regexp ? emacsRegexpToJs(query) : escapeRegExp(query), flags);
+  } catch {
+    return null;
+  }
+};
+
+const toMatch = (m: RegExpExecArray): SearchMatch => ({
+  start: m.index,
+  end: m.index + m[0].length,
+  groups: Array.from(m, g => g ?? ''),
+});
+
+// First match starting at or after `from`
+export const searchForward = (content: string, query: string, from: number, regexp = false): SearchMatch | null => {
+  const re = buildSearchRegExp(query, regexp);
+  if (!re || !query) return null;
+  re.lastIndex = from;
+  const m = re.exec(content);
+  return m ? toMatch(m) : null;
+};
+
+// Nearest match starting before `from` (like re-search-backward, it may extend past it)
+export const searchBackward = (content: string, query: string, from: number, regexp = false): SearchMatch | null => {
+  const global = buildSearchRegExp(query, regexp);
+  if (!global || !query) return null;
+  // Anchored (sticky) attempts at each position, walking backwards
+  const re = new RegExp(global.source, global.flags.replace('g', 'y'));
+  for (let start = Math.min(from, content.length + 1) - 1; start >= 0; start--) {
+    re.lastIndex = start;
+    const m = re.exec(content);
+    if (m) return toMatch(m);
+  }
+  return null;
+};
+
+// All non-overlapping matches, for lazy highlighting
+export const findAllMatches = (content: string, query: string, regexp = false): SearchMatch[] => {
+  const re = buildSearchRegExp(query, regexp);
+  if (!re || !query) return [];
+  const matches: SearchMatch[] = [];
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(content)) !== null && matches.length < MAX_HIGHLIGHTS) {
+    if (m[0].length === 0) {
+      re.lastIndex++;
+      continue;
+    }
+    matches.push(toMatch(m));
+  }
+  return matches;
+};
+
+// Expand \& (whole match), \N (group N) and \\ in a query-replace-regexp replacement
+export const expandReplacement = (template: string, match: SearchMatch): string => {
+  return template.replace(/\\(&|\d|\\)/g, (_, ref: string) => {
+    if (ref === '&') return match.groups[0];
+    if (ref === '\\') return '\\';
+    return match.groups[parseInt(ref, 10)] ?? '';
+  });
+};
+
+// End of the word after pos, for isearch's C-w
+export const endOfNextWord = (content: string, pos: number): number => {
+  const m = /\W*\w+/y;
+  m.lastIndex = pos;
+  return m.exec(content) ? m.lastIndex : Math.min(pos + 1, content.length);
+};
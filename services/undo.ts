@@ -0,0 +1,174 @@
+// Undo history for React Emacs buffers
+//
+// Every edit is recorded as an UndoChange inside the buffer's open UndoGroup.
+// An undo boundary seals the group, so one command = one undo step.
+
+import { Buffer, UndoChange, UndoGroup } from '../types';
+
+// Emacs amalgamates up to 20 consecutive self-inserted characters into one step
+const AMALGAMATION_LIMIT = 20;
+
+// --- Diffing ---
+
+// Compute the changes that turn oldText into newText. The cursor hint (position
+// after the edit) disambiguates repeated characters, e.g. typing "a" into "aa".
+export const diffContent = (oldText: string, newText: string, cursorHint?: number): UndoChange[] => {
+  const maxPrefix = Math.min(oldText.length, newText.length);
+  let prefix = 0;
+  while (prefix < maxPrefix && oldText[prefix] === newText[prefix]) prefix++;
+
+  if (cursorHint !== undefined) {
+    const grown = Math.max(0, newText.length - oldText.length);
+    prefix = Math.max(0, Math.min(prefix, cursorHint - grown));
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldText.length - prefix &&
+    suffix < newText.length - prefix &&
+    oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+  ) suffix++;
+
+  const deleted = oldText.slice(prefix, oldText.length - suffix);
+  const inserted = newText.slice(prefix, newText.length - suffix);
+
+  const changes: UndoChange[] = [];
+  if (deleted) changes.push({ kind: 'delete', pos: prefix, text: deleted });
+  if (inserted) changes.push({ kind: 'insert', pos: prefix, text: inserted });
+  return changes;
+};
+
+// --- Applying changes ---
+
+const applyChange = (content: string, change: UndoChange): string => {
+  if (change.kind === 'insert') {
+    return content.slice(0, change.pos) + change.text + content.slice(change.pos);
+  }
+  return content.slice(0, change.pos) + content.slice(change.pos + change.text.length);
+};
+
+const invertChange = (change: UndoChange): UndoChange => ({
+  ...change,
+  kind: change.kind === 'insert' ? 'delete' : 'insert',
+});
+
+// --- Recording ---
+
+const canAmalgamate = (group: UndoGroup, change: UndoChange): boolean => {
+  if (!group.amalgamate || group.changes.length !== 1) return false;
+  const last = group.changes[0];
+  if (last.kind !== change.kind || change.text.length !== 1) return false;
+  if (last.text.length >= AMALGAMATION_LIMIT) return false;
+  if (change.kind === 'insert') return change.pos === last.pos + last.text.length;
+  // Deleting backwards (DEL) or forwards (C-d) next to the previous deletion
+  return change.pos + 1 === last.pos || change.pos === last.pos;
+};
+
+const mergeChange = (last: UndoChange, change: UndoChange): UndoChange => {
+  if (change.kind === 'insert') return { ...last, text: last.text + change.text };
+  if (change.pos < last.pos) return { ...last, pos: change.pos, text: change.text + last.text };
+  return { ...last, text: last.text + change.text };
+};
+
+// Record changes that were already applied to the buffer content.
+// Self-inserts pass amalgamate=true so runs of typing undo together.
+export const recordChanges = (buf: Buffer, changes: UndoChange[], pointBefore: number, amalgamate = false): Buffer => {
+  if (changes.length === 0) return buf;
+
+  const undoList = [...(buf.undoList || [])];
+  const last = undoList[undoList.length - 1];
+
+  if (amalgamate && changes.length === 1 && last && canAmalgamate(last, changes[0])) {
+    undoList[undoList.length - 1] = { ...last, changes: [mergeChange(last.changes[0], changes[0])] };
+  } else if (last && !last.sealed) {
+    undoList[undoList.length - 1] = { ...last, changes: [...last.changes, ...changes] };
+  } else {
+    undoList.push({
+      changes: [...changes],
+      point: pointBefore,
+      sealed: amalgamate,
+      amalgamate: amalgamate && changes.length === 1 && changes[0].text.length === 1,
+    });
+  }
+
+  return { ...buf, undoList, redoList: [] };
+};
+
+// Close the currently open change group (Emacs' undo-boundary)
+export const undoBoundary = (buf: Buffer): Buffer => {
+  const undoList = buf.undoList || [];
+  const last = undoList[undoList.length - 1];
+  if (!last || last.sealed) return buf;
+  return { ...buf, undoList: [...undoList.slice(0, -1), { ...last, sealed: true }] };
+};
+
+// --- Text arriving over time ---
+
+// Text streamed into a buffer, e.g. a Gemini response, is recorded once
+// complete as one group at the place in the undo list where it began.
+// Groups recorded meanwhile are shifted as if made after all of it.
+
+// Account for a streamed insertion in the groups recorded since index from
+export const shiftUndoGroups = (buf: Buffer, from: number, change: UndoChange): Buffer => {
+  const shift = (pos: number) => (pos >= change.pos ? pos + change.text.length : pos);
+  const undoList = (buf.undoList || []).map((group, i) => i < from ? group : {
+    ...group,
+    point: shift(group.point),
+    changes: group.changes.map(c => ({ ...c, pos: shift(c.pos) })),
+  });
+  return { ...buf, undoList };
+};
+
+// Record the complete streamed text as its own group at index at
+export const recordChangeAt = (buf: Buffer, at: number, change: UndoChange): Buffer => {
+  if (!change.text) return buf;
+  const undoList = [...(buf.undoList || [])];
+  undoList.splice(Math.min(at, undoList.length), 0, { changes: [change], point: change.pos, sealed: true });
+  return { ...buf, undoList, redoList: [] };
+};
+
+// --- Undo / Redo ---
+
+// Revert the most recent change group. Returns null when there is nothing to undo.
+export const undo = (buf: Buffer): Buffer | null => {
+  const undoList = buf.undoList || [];
+  const group = undoList[undoList.length - 1];
+  if (!group) return null;
+
+  let content = buf.content;
+  for (let i = group.changes.length - 1; i >= 0; i--) {
+    content = applyChange(content, invertChange(group.changes[i]));
+  }
+
+  return {
+    ...buf,
+    content,
+    cursorPosition: Math.min(group.point, content.length),
+    isModified: true,
+    undoList: undoList.slice(0, -1),
+    redoList: [...(buf.redoList || []), { ...group, sealed: true, amalgamate: false }],
+  };
+};
+
+// Re-apply the most recently undone group. Returns null when there is nothing to redo.
+export const redo = (buf: Buffer): Buffer | null => {
+  const redoList = buf.redoList || [];
+  const group = redoList[redoList.length - 1];
+  if (!group) return null;
+
+  let content = buf.content;
+  for (const change of group.changes) {
+    content = applyChange(content, change);
+  }
+  const last = group.changes[group.changes.length - 1];
+  const cursor = last.kind === 'insert' ? last.pos + last.text.length : last.pos;
+
+  return {
+    ...buf,
+    content,
+    cursorPosition: Math.min(cursor, content.length),
+    isModified: true,
+    undoList: [...(buf.undoList || []), group],
+    redoList: redoList.slice(0, -1),
+  };
+};
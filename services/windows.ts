@@ -0,0 +1,137 @@
+// Window tree operations for React Emacs
+//
+// All functions are pure: they take a tree and return a new one.
+
+import { EmacsWindow, WindowNode, WindowSplit, SplitDirection } from '../types';
+
+// Smallest share of its parent a window may shrink to
+const MIN_WINDOW_SIZE = 0.1;
+// Share of the parent gained per step of enlarge-window
+const ENLARGE_STEP = 0.05;
+
+export const createWindow = (id: string, bufferId: string, point: number = 0): EmacsWindow => ({
+  kind: 'window',
+  id,
+  bufferId,
+  point,
+});
+
+// Windows in display order, which is also the cycling order of C-x o
+export const listWindows = (node: WindowNode): EmacsWindow[] => {
+  if (node.kind === 'window') return [node];
+  return node.children.flatMap(listWindows);
+};
+
+export const findWindow = (node: WindowNode, id: string): EmacsWindow | null => {
+  return listWindows(node).find(w => w.id === id) || null;
+};
+
+export const nextWindowId = (node: WindowNode): string => {
+  const ids = new Set<string>();
+  const collect = (n: WindowNode) => {
+    ids.add(n.id);
+    if (n.kind === 'split') n.children.forEach(collect);
+  };
+  collect(node);
+  let n = 1;
+  while (ids.has(`win-${n}`)) n++;
+  return `win-${n}`;
+};
+
+export const updateWindow = (node: WindowNode, id: string, updates: Partial<Omit<EmacsWindow, 'kind' | 'id'>>): WindowNode => {
+  if (node.kind === 'window') return node.id === id ? { ...node, ...updates } : node;
+  return { ...node, children: node.children.map(c => updateWindow(c, id, updates)) };
+};
+
+// Apply a change to every window, e.g. replacing a killed buffer
+export const mapWindows = (node: WindowNode, fn: (w: EmacsWindow) => EmacsWindow): WindowNode => {
+  if (node.kind === 'window') return fn(node);
+  return { ...node, children: node.children.map(c => mapWindows(c, fn)) };
+};
+
+// Split a window in two; the new window shows the same buffer and point and
+// comes after (below or right of) the original
+export const splitWindow = (node: WindowNode, id: string, direction: SplitDirection, newId: string): WindowNode => {
+  if (node.kind === 'window') {
+    if (node.id !== id) return node;
+    const split: WindowSplit = {
+      kind: 'split',
+      id: `${newId}-split`,
+      direction,
+      children: [node, createWindow(newId, node.bufferId, node.point)],
+      sizes: [0.5, 0.5],
+    };
+    return split;
+  }
+
+  // Splitting along the parent's own direction adds a sibling instead of nesting
+  const idx = node.children.findIndex(c => c.kind === 'window' && c.id === id);
+  if (idx !== -1 && node.direction === direction) {
+    const target = node.children[idx] as EmacsWindow;
+    const half = node.sizes[idx] / 2;
+    return {
+      ...node,
+      children: [...node.children.slice(0, idx + 1), createWindow(newId, target.bufferId, target.point), ...node.children.slice(idx + 1)],
+      sizes: [...node.sizes.slice(0, idx), half, half, ...node.sizes.slice(idx + 1)],
+    };
+  }
+  return { ...node, children: node.children.map(c => splitWindow(c, id, direction, newId)) };
+};
+
+// Remove a window, giving its space to its siblings. Returns null if the
+// window is the whole tree (Emacs refuses to delete the sole window).
+export const deleteWindow = (node: WindowNode, id: string): WindowNode | null => {
+  if (node.kind === 'window') return node.id === id ? null : node;
+
+  const idx = node.children.findIndex(c => c.kind === 'window' && c.id === id);
+  if (idx === -1) {
+    return { ...node, children: node.children.map(c => deleteWindow(c, id) || c) };
+  }
+
+  const children = node.children.filter((_, i) => i !== idx);
+  const remaining = node.sizes.filter((_, i) => i !== idx);
+  if (children.length === 1) return children[0];
+  const total = remaining.reduce((a, b) => a + b, 0);
+  return { ...node, children, sizes: remaining.map(size => size / total) };
+};
+
+export const balanceWindows = (node: WindowNode): WindowNode => {
+  if (node.kind === 'window') return node;
+  return {
+    ...node,
+    children: node.children.map(balanceWindows),
+    sizes: node.children.map(() => 1 / node.children.length),
+  };
+};
+
+// Splits from the root down to a window, with the index of the child on the way
+const pathToWindow = (node: WindowNode, id: string): { split: WindowSplit; index: number }[] | null => {
+  if (node.kind === 'window') return node.id === id ? [] : null;
+  for (let i = 0; i < node.children.length; i++) {
+    const rest = pathToWindow(node.children[i], id);
+    if (rest) return [{ split: node, index: i }, ...rest];
+  }
+  return null;
+};
+
+const replaceNode = (node: WindowNode, id: string, replacement: WindowNode): WindowNode => {
+  if (node.id === id) return replacement;
+  if (node.kind === 'window') return node;
+  return { ...node, children: node.children.map(c => replaceNode(c, id, replacement)) };
+};
+
+// Grow a window by delta steps along direction, taking the space evenly from
+// its siblings in the innermost split of that direction. Negative delta shrinks.
+export const enlargeWindow = (node: WindowNode, id: string, delta: number, direction: SplitDirection): WindowNode => {
+  const path = pathToWindow(node, id) || [];
+  const target = [...path].reverse().find(p => p.split.direction === direction);
+  if (!target) return node;
+
+  const { split, index } = target;
+  const others = split.children.length - 1;
+  const maxGrow = split.sizes.reduce((acc, size, i) => i === index ? acc : acc + (size - MIN_WINDOW_SIZE), 0);
+  const change = Math.max(MIN_WINDOW_SIZE - split.sizes[index], Math.min(delta * ENLARGE_STEP, maxGrow));
+  const sizes = split.sizes.map((size, i) => i === index ? size + change : Math.max(MIN_WINDOW_SIZE, size - change / others));
+  const total = sizes.reduce((a, b) => a + b, 0);
+  return replaceNode(node, split.id, { ...split, sizes: sizes.map(size => size / total) });
+};
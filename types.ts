@@ -3,9 +3,40 @@ export interface Buffer {
   name: string;
   content: string;
   cursorPosition: number; // Index in content string
-  mode: string;
+  majorMode: string; // Mode symbol, e.g. "emacs-lisp-mode"
+  mode: string; // Mode line name of the major mode, e.g. "ELisp"
   isModified: boolean;
   readOnly?: boolean;
+  filePath?: string; // Absolute path of the visited file
+  fileMtime?: number; // Modification time of the file when last visited or saved
+  mark?: number | null; // The other end of the region, null until first set
+  markActive?: boolean; // Transient mark mode: region is highlighted and active
+  undoList?: UndoGroup[]; // Most recent change group last
+  redoList?: UndoGroup[]; // Groups reverted by undo, most recent last
+  minorModes?: string[]; // Enabled minor modes, whose keymaps take precedence
+  markers?: Record<string, number>; // Positions by id that move with the text, e.g. the point save-excursion restores
+  progress?: string; // Shown in the mode line while output streams in, e.g. "Gemini: 120 chars"
+}
+
+export interface UndoChange {
+  kind: 'insert' | 'delete';
+  pos: number;
+  text: string;
+}
+
+export interface UndoGroup {
+  changes: UndoChange[];
+  point: number; // Cursor position before the first change
+  sealed: boolean; // Closed by an undo boundary
+  amalgamate?: boolean; // Consecutive self-inserts may merge into this group
+}
+
+// A span of buffer text drawn with a background class (isearch matches etc.)
+export interface Highlight {
+  start: number;
+  end: number;
+  className: string;
+  current?: boolean; // Scrolled into view, e.g. the current isearch match
 }
 
 export enum EditorMode {
@@ -18,28 +49,179 @@ export enum MinibufferType {
   NONE = 'NONE',
   COMMAND = 'COMMAND', // M-x
   FIND_FILE = 'FIND_FILE', // C-x C-f
+  WRITE_FILE = 'WRITE_FILE', // C-x C-w
   SWITCH_BUFFER = 'SWITCH_BUFFER', // C-x b
-  GEMINI_PROMPT = 'GEMINI_PROMPT', // Custom AI command
+  AI_PROMPT = 'AI_PROMPT', // ai-ask
   YES_NO = 'YES_NO', // Confirmation
+  ISEARCH = 'ISEARCH', // C-s / C-r
+  QUERY_REPLACE_FROM = 'QUERY_REPLACE_FROM', // M-% first prompt
+  QUERY_REPLACE_TO = 'QUERY_REPLACE_TO', // M-% second prompt
   EVAL = 'EVAL', // M-:
+  READ = 'READ', // Interactive argument prompts
+}
+
+// Window layout. A "vertical" split stacks windows one above the other (C-x 2),
+// a "horizontal" split puts them side by side (C-x 3), as in Emacs.
+export type SplitDirection = 'vertical' | 'horizontal';
+
+export interface EmacsWindow {
+  kind: 'window';
+  id: string;
+  bufferId: string;
+  point: number; // Window point, restored when the window is selected again
+}
+
+export interface WindowSplit {
+  kind: 'split';
+  id: string;
+  direction: SplitDirection;
+  children: WindowNode[];
+  sizes: number[]; // Fractions of the parent, summing to 1
+}
+
+export type WindowNode = EmacsWindow | WindowSplit;
+
+// A key is bound to a command name, or to a keymap when it is a prefix key.
+// Keys are single-key descriptions in kbd notation: "C-x", "M-<", "RET".
+export type KeyBinding = string | Keymap;
+
+export interface Keymap {
+  kind: 'keymap';
+  bindings: Record<string, KeyBinding>;
+  parent?: Keymap; // Consulted for keys this map does not bind
+}
+
+export interface Keymaps {
+  global: Keymap;
+  minor: Record<string, Keymap>; // Keyed by minor mode name
+}
+
+// Which characters form strings, comments and balanced expressions
+export interface SyntaxTable {
+  symbolChars: string; // Symbol constituents besides letters, digits and "_"
+  stringQuotes: string; // Characters that open and close strings
+  escape: string; // Quotes the next character inside a string
+  parens: string; // Open/close pairs, e.g. "()[]{}"
+  lineComment?: string; // Starts a comment that runs to the end of the line
+  blockComment?: [string, string];
+}
+
+// Desired indentation column of the line starting at lineStart
+export type IndentFunction = (content: string, lineStart: number, syntax: SyntaxTable) => number;
+
+// Font-lock faces, drawn with THEME.faces
+export type Face = 'comment' | 'string' | 'keyword' | 'function-name' | 'variable-name' | 'type' | 'constant';
+
+export interface FaceSpan {
+  start: number;
+  end: number;
+  face: Face;
+}
+
+// A search-based font-lock rule: each listed group of a match gets a face.
+// Matches inside strings and comments are ignored.
+export interface FontLockKeyword {
+  regexp: RegExp; // Has the "d", "g" and "m" flags
+  highlights: [number, Face][]; // Group number (0 for the whole match) and face
+}
+
+export interface MajorMode {
+  name: string; // Mode command and symbol, e.g. "emacs-lisp-mode"
+  modeName: string; // Shown in the mode line
+  parent?: string; // Mode this one is derived from
+  docstring: string;
+  keymap: Keymap; // Inherits from the parent mode's keymap
+  syntaxTable: SyntaxTable;
+  commentStart: string; // Inserted by comment commands; empty if the mode has no comments
+  commentEnd: string;
+  indent: IndentFunction;
+  keywords: FontLockKeyword[]; // font-lock-keywords
+  readOnly?: boolean; // Buffers in this mode are not meant to be edited (special-mode)
+  setup?: () => void | Promise<void>; // Body of define-derived-mode, run after the parent's
 }
 
 export interface EmacsState {
   buffers: Buffer[];
-  activeBufferId: string;
+  activeBufferId: string; // Buffer of the selected window
+  windowTree: WindowNode;
+  selectedWindowId: string;
   editorMode: EditorMode;
-  chordStack: string; // "C-x"
-  minibuffer: {
-    type: MinibufferType;
-    prompt: string;
-    input: string;
-    callback?: (input: string) => void;
-  };
+  chordStack: string; // Prefix keys typed so far, e.g. "C-x r"
+  keymaps: Keymaps;
+  modes: Record<string, MajorMode>; // Major modes by name
+  minibuffer: MinibufferState;
+  history: Record<string, string[]>; // Minibuffer history lists by name, most recent first
   message: string; // Echo area message
+  killRing: KillRing; // Shared by all buffers
+  lastCommand: string; // Previous command, for kill appending and yank-pop
+  thisCommand: string; // Command currently executing
+  lastCommandEvent: string; // Last key read as part of a command, e.g. "M-5"
+  prefixArg: PrefixArg | null; // Set by C-u for the next command
+  lastYank?: { bufferId: string; start: number; end: number }; // Text inserted by the last C-y / M-y
+  isearch?: IsearchState; // Set while an incremental search is running
+  queryReplace?: QueryReplaceState; // Set while query-replace walks the matches
+  lastSearch: { query: string; regexp: boolean }; // For C-s C-s and as the default of M-%
+}
+
+// Completion candidates for the current minibuffer input
+export type CompletionTable = (input: string) => string[];
+
+// How a minibuffer prompt reads its answer
+export interface ReadOptions {
+  initialInput?: string;
+  default?: string; // Used when the answer is empty, and shown in the prompt
+  history?: string; // Name of the history list, e.g. "extended-command-history"
+  completions?: CompletionTable;
+  requireMatch?: boolean; // Only accept one of the completions
+}
+
+export interface MinibufferState {
+  type: MinibufferType;
+  prompt: string;
+  input: string;
+  callback?: (input: string) => void;
+  onQuit?: () => void; // C-g while reading
+  options?: ReadOptions;
+  historyIndex?: number; // Position in the history list during M-p / M-n, -1 for the new input
+  historyDraft?: string; // Input typed before moving into the history
+  completionsShown?: string[]; // Candidates listed in the *Completions* popup
+  note?: string; // Transient remark after the input, e.g. "[No match]"
+}
+
+export interface IsearchState {
+  forward: boolean;
+  regexp: boolean;
+  query: string;
+  origin: number; // Point when the search started, restored by C-g
+  match: { start: number; end: number } | null; // Current match
+  failing: boolean;
+  wrapped: boolean;
+}
+
+export interface QueryReplaceState {
+  from: string;
+  to: string;
+  regexp: boolean;
+  searchFrom: number; // Where to look for the next match
+  match: { start: number; end: number } | null;
+  count: number; // Replacements made so far
+}
+
+export interface KillRing {
+  entries: string[]; // Most recent kill first
+  yankPointer: number; // Index of the entry C-y inserts
+}
+
+// C-u state. digits is null after plain C-u (the raw argument is a list like
+// (4) or (16)), otherwise the typed digits, possibly just "-".
+export interface PrefixArg {
+  value: number;
+  digits: string | null;
 }
 
 export interface Command {
   name: string;
-  description: string;
-  execute: () => void;
+  docstring: string;
+  keys?: string[]; // Default bindings in kbd notation
+  execute: (prefixArg: PrefixArg | null) => void | Promise<void>;
 }
\ No newline at end of file